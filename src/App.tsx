@@ -4,10 +4,15 @@ import { useRpc } from './hooks/useRpc';
 import { Layout } from './components/Layout';
 import { TransactionViewer } from './components/TransactionViewer';
 import { AccountViewer } from './components/AccountViewer';
+import { RawTransactionDecoder } from './components/RawTransactionDecoder';
+import { InstructionBuilder } from './components/InstructionBuilder';
+import { PdaCalculator } from './components/PdaCalculator';
 import type { IdlConfig, AddressLabel } from './types';
 import { DEFAULT_CONFIG } from './types';
+import { createOnchainIdlConfig } from './utils/onchainIdl';
+import { fillMissingDiscriminators, lintIdlConfig } from './utils/idlLint';
 
-type Tab = 'transaction' | 'account';
+type Tab = 'transaction' | 'account' | 'offline' | 'builder' | 'pda';
 
 // 查询历史类型
 interface QueryHistory {
@@ -17,8 +22,15 @@ interface QueryHistory {
 
 const MAX_HISTORY = 20;
 
+// IDL 存放在外部 URL 时，获取前先展示地址
+const confirmIdlUrl = (url: string) => confirm(`该 Program 的 IDL 存放在外部地址，是否获取？\n${url}`);
+
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('transaction');
+  // 从其他页面跳转到账户查询时的地址
+  const [inspectAddress, setInspectAddress] = useState<string | undefined>();
+  // 添加链上 IDL 的结果提示（RPC 错误由 useRpc 提供），发起新的查询时清除
+  const [idlFetchNotice, setIdlFetchNotice] = useState<{ type: 'error' | 'warning'; message: string } | null>(null);
 
   // 持久化存储
   const [rpcUrl, setRpcUrl] = useLocalStorage('solana-rpc-url', DEFAULT_CONFIG.rpcUrl);
@@ -30,7 +42,18 @@ function App() {
   });
 
   // RPC Hook
-  const { loading, error, getTransaction, getAccountInfo, testConnection } = useRpc({
+  const {
+    loading,
+    error,
+    getTransaction,
+    getAccountInfo,
+    getAddressLookupTables,
+    fetchOnchainIdl,
+    simulateTransaction,
+    getLatestBlockhash,
+    getRpcParsedInstructions,
+    testConnection,
+  } = useRpc({
     rpcUrl,
     idlConfigs,
     addressLabels,
@@ -71,6 +94,45 @@ function App() {
     });
   }, [setQueryHistory]);
 
+  // 跳转到账户查询
+  const handleInspectAccount = useCallback((address: string) => {
+    setInspectAddress(address);
+    setActiveTab('account');
+  }, []);
+
+  const clearInspectAddress = useCallback(() => setInspectAddress(undefined), []);
+
+  const fetchOnchainIdlWithConfirm = useCallback(
+    (programId: string) => fetchOnchainIdl(programId, confirmIdlUrl),
+    [fetchOnchainIdl]
+  );
+
+  // 从链上获取 IDL 并添加到 IDL 配置
+  // 与 IDL 管理保存时相同：补全 discriminator 后检查，有 error 级问题时不添加
+  const handleFetchIdl = useCallback(async (programId: string) => {
+    setIdlFetchNotice(null);
+    const result = await fetchOnchainIdlWithConfirm(programId);
+    if (!result) return;
+    try {
+      const config = createOnchainIdlConfig(result.idl, programId);
+      config.idl = fillMissingDiscriminators(config).idl;
+      const issues = lintIdlConfig(config, idlConfigs);
+      const messages = issues.filter((issue) => issue.severity !== 'info').map((issue) => issue.message);
+      if (issues.some((issue) => issue.severity === 'error')) {
+        setIdlFetchNotice({ type: 'error', message: `链上 IDL 未添加: ${messages.join('; ')}` });
+        return;
+      }
+      setIdlConfigs((prev) => [...prev, config]);
+      if (messages.length > 0) {
+        setIdlFetchNotice({ type: 'warning', message: `链上 IDL 已添加，但存在问题: ${messages.join('; ')}` });
+      }
+    } catch (e) {
+      setIdlFetchNotice({ type: 'error', message: `解析链上 IDL 失败: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  }, [fetchOnchainIdlWithConfirm, idlConfigs, setIdlConfigs]);
+
+  const clearIdlFetchNotice = useCallback(() => setIdlFetchNotice(null), []);
+
   // 清除历史
   const clearTransactionHistory = useCallback(() => {
     setQueryHistory((prev) => ({ ...prev, transactions: [] }));
@@ -87,6 +149,7 @@ function App() {
       onTestConnection={testConnection}
       idlConfigs={idlConfigs}
       onIdlConfigsChange={setIdlConfigs}
+      onFetchOnchainIdl={fetchOnchainIdlWithConfirm}
       addressLabels={addressLabels}
       onAddressLabelsChange={setAddressLabels}
     >
@@ -113,13 +176,63 @@ function App() {
           >
             账户查询
           </button>
+          <button
+            onClick={() => setActiveTab('offline')}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'offline'
+                ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            离线解码
+          </button>
+          <button
+            onClick={() => setActiveTab('builder')}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'builder'
+                ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            构建指令
+          </button>
+          <button
+            onClick={() => setActiveTab('pda')}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'pda'
+                ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            PDA 计算
+          </button>
         </div>
       </div>
 
+      {/* 添加链上 IDL 的结果 */}
+      {idlFetchNotice && (
+        <div
+          className={`mb-4 p-3 flex items-start gap-2 rounded-lg border text-sm ${
+            idlFetchNotice.type === 'error'
+              ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+              : 'bg-yellow-50 dark:bg-yellow-900/30 border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-300'
+          }`}
+        >
+          <span className="flex-1 break-all">{idlFetchNotice.message}</span>
+          <button onClick={clearIdlFetchNotice} className="flex-shrink-0 opacity-70 hover:opacity-100" title="关闭">
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* 内容区域 */}
       {activeTab === 'transaction' ? (
         <TransactionViewer
           onQuery={getTransaction}
+          onSimulate={simulateTransaction}
+          onFetchRpcParsed={getRpcParsedInstructions}
+          onInspectAccount={handleInspectAccount}
+          onFetchIdl={handleFetchIdl}
           loading={loading}
           error={error}
           addressLabels={addressLabels}
@@ -128,9 +241,11 @@ function App() {
           history={queryHistory.transactions}
           onAddHistory={addTransactionHistory}
           onClearHistory={clearTransactionHistory}
+          onQueryStart={clearIdlFetchNotice}
         />
-      ) : (
+      ) : activeTab === 'account' ? (
         <AccountViewer
+          initialAddress={inspectAddress}
           onQuery={getAccountInfo}
           loading={loading}
           error={error}
@@ -140,6 +255,34 @@ function App() {
           history={queryHistory.accounts}
           onAddHistory={addAccountHistory}
           onClearHistory={clearAccountHistory}
+          onInitialQueryDone={clearInspectAddress}
+          onQueryStart={clearIdlFetchNotice}
+        />
+      ) : activeTab === 'offline' ? (
+        <RawTransactionDecoder
+          onFetchLookupTables={getAddressLookupTables}
+          onSimulate={simulateTransaction}
+          loading={loading}
+          error={error}
+          addressLabels={addressLabels}
+          onAddLabel={handleAddLabel}
+          idlConfigs={idlConfigs}
+        />
+      ) : activeTab === 'builder' ? (
+        <InstructionBuilder
+          idlConfigs={idlConfigs}
+          addressLabels={addressLabels}
+          onAddLabel={handleAddLabel}
+          onFetchBlockhash={getLatestBlockhash}
+          onSimulate={simulateTransaction}
+          loading={loading}
+          error={error}
+        />
+      ) : (
+        <PdaCalculator
+          idlConfigs={idlConfigs}
+          addressLabels={addressLabels}
+          onAddLabel={handleAddLabel}
         />
       )}
     </Layout>
@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import type { ParsedAccountData, AddressLabel, IdlConfig } from '../types';
 import { AddressDisplay } from './AddressDisplay';
+import { AddressLookupTableView } from './AddressLookupTableView';
+import { ADDRESS_LOOKUP_TABLE_PROGRAM_ID } from '../utils/addressLookupTableDecoder';
 
 interface AccountViewerProps {
+  initialAddress?: string; // 打开时自动查询的地址
   onQuery: (address: string) => Promise<ParsedAccountData | null>;
   loading: boolean;
   error: string | null;
@@ -12,9 +15,12 @@ interface AccountViewerProps {
   history: string[];
   onAddHistory: (address: string) => void;
   onClearHistory: () => void;
+  onQueryStart?: () => void; // 用户发起新的查询
+  onInitialQueryDone?: () => void; // 自动查询完成后清除 initialAddress，避免切回页面时重复查询
 }
 
 export function AccountViewer({
+  initialAddress,
   onQuery,
   loading,
   error,
@@ -24,8 +30,10 @@ export function AccountViewer({
   history,
   onAddHistory,
   onClearHistory,
+  onQueryStart,
+  onInitialQueryDone,
 }: AccountViewerProps) {
-  const [address, setAddress] = useState('');
+  const [address, setAddress] = useState(initialAddress ?? '');
   const [account, setAccount] = useState<ParsedAccountData | null>(null);
   const [showRawData, setShowRawData] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
@@ -48,10 +56,25 @@ export function AccountViewer({
     prevIdlConfigsLengthRef.current = idlConfigs.length;
   }, [idlConfigs.length, onQuery, loading]);
 
+  // 从其他页面跳转时自动查询
+  useEffect(() => {
+    if (!initialAddress) return;
+    currentAddressRef.current = initialAddress;
+    onQueryStart?.();
+    onQuery(initialAddress).then((result) => {
+      setAccount(result);
+      if (result) {
+        onAddHistory(initialAddress);
+      }
+      onInitialQueryDone?.();
+    });
+  }, [initialAddress, onQuery, onAddHistory, onInitialQueryDone, onQueryStart]);
+
   const handleQuery = async () => {
     if (!address.trim()) return;
     const addr = address.trim();
     currentAddressRef.current = addr;
+    onQueryStart?.();
     const result = await onQuery(addr);
     setAccount(result);
     if (result) {
@@ -63,6 +86,7 @@ export function AccountViewer({
     setAddress(addr);
     setShowHistory(false);
     currentAddressRef.current = addr;
+    onQueryStart?.();
     const result = await onQuery(addr);
     setAccount(result);
   };
@@ -345,9 +369,18 @@ export function AccountViewer({
                   复制
                 </button>
               </div>
-              <div className="text-xs bg-gray-100 dark:bg-gray-700 p-3 rounded overflow-x-auto">
-                {renderValue(account.parsedData)}
-              </div>
+              {account.accountType === 'AddressLookupTable' && account.owner === ADDRESS_LOOKUP_TABLE_PROGRAM_ID ? (
+                <AddressLookupTableView
+                  data={account.parsedData}
+                  addressLabels={addressLabels}
+                  onAddLabel={onAddLabel}
+                  idlConfigs={idlConfigs}
+                />
+              ) : (
+                <div className="text-xs bg-gray-100 dark:bg-gray-700 p-3 rounded overflow-x-auto">
+                  {renderValue(account.parsedData)}
+                </div>
+              )}
             </div>
           )}
 
@@ -2,6 +2,7 @@ import { useState, useCallback, useRef } from 'react';
 import type { AddressLabel, AddressColorMap, IdlConfig } from '../types';
 import { HIGHLIGHT_COLORS } from '../types';
 import { getKnownProgramName, getAddressLabel } from '../utils/addressResolver';
+import { copyToClipboard } from '../utils/clipboard';
 
 interface AddressDisplayProps {
   address: string;
@@ -69,21 +70,9 @@ export function AddressDisplay({
   const existingLabel = addressLabels.find((l) => l.address === address)?.label;
 
   const handleCopy = useCallback(async () => {
-    try {
-      await navigator.clipboard.writeText(address);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 1500);
-    } catch {
-      // fallback
-      const textarea = document.createElement('textarea');
-      textarea.value = address;
-      document.body.appendChild(textarea);
-      textarea.select();
-      document.execCommand('copy');
-      document.body.removeChild(textarea);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 1500);
-    }
+    await copyToClipboard(address);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
     setShowMenu(false);
   }, [address]);
 
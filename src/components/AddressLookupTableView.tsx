@@ -0,0 +1,91 @@
+import type { AddressLabel, IdlConfig } from '../types';
+import { AddressDisplay } from './AddressDisplay';
+
+interface AddressLookupTableViewProps {
+  data: Record<string, unknown>;
+  addressLabels: AddressLabel[];
+  onAddLabel?: (address: string, label: string) => void;
+  idlConfigs: IdlConfig[];
+}
+
+export function AddressLookupTableView({
+  data,
+  addressLabels,
+  onAddLabel,
+  idlConfigs,
+}: AddressLookupTableViewProps) {
+  const authority = data.authority as string | null;
+  const deactivationSlot = data.deactivationSlot as string | null;
+  const addresses = (data.addresses as string[]) ?? [];
+
+  return (
+    <div className="space-y-4">
+      {/* 查找表头部 */}
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="col-span-2 flex items-center">
+          <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">Authority:</span>
+          <span className="ml-2">
+            {authority ? (
+              <AddressDisplay
+                address={authority}
+                addressLabels={addressLabels}
+                onAddLabel={onAddLabel}
+                idlConfigs={idlConfigs}
+              />
+            ) : (
+              <span className="text-gray-400">无（已冻结）</span>
+            )}
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">Deactivation Slot:</span>
+          {deactivationSlot ? (
+            <span className="ml-2 font-mono text-red-600 dark:text-red-400">{deactivationSlot}</span>
+          ) : (
+            <span className="ml-2 text-green-600 dark:text-green-400">未停用</span>
+          )}
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">Last Extended Slot:</span>
+          <span className="ml-2 font-mono">{String(data.lastExtendedSlot)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">Start Index:</span>
+          <span className="ml-2 font-mono">{String(data.lastExtendedSlotStartIndex)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">地址数量:</span>
+          <span className="ml-2 font-mono">{addresses.length}</span>
+        </div>
+      </div>
+
+      {/* 地址列表 */}
+      <div className="space-y-1">
+        {addresses.map((address, i) => (
+          <div
+            key={i}
+            className="flex items-center gap-2 text-xs bg-gray-100 dark:bg-gray-700 px-2 py-1.5 rounded"
+          >
+            <span className="text-gray-400 font-mono w-10 flex-shrink-0">[{i}]</span>
+            <div className="flex-1 min-w-0">
+              <AddressDisplay
+                address={address}
+                addressLabels={addressLabels}
+                onAddLabel={onAddLabel}
+                idlConfigs={idlConfigs}
+              />
+            </div>
+            {i >= Number(data.lastExtendedSlotStartIndex) && data.lastExtendedSlot !== '0' && (
+              <span
+                className="px-1.5 py-0.5 text-[10px] bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded flex-shrink-0"
+                title="在 Last Extended Slot 中新增，该 slot 结束前不可用于交易"
+              >
+                最近扩展
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
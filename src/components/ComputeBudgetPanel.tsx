@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import type { ParsedTransaction } from '../types';
+import { analyzeComputeBudget, LAMPORTS_PER_SIGNATURE } from '../utils/computeBudgetDecoder';
+
+interface ComputeBudgetPanelProps {
+  transaction: ParsedTransaction;
+}
+
+// 格式化 lamports 为 SOL
+const formatSol = (lamports: number) => (lamports / 1e9).toFixed(9);
+
+export function ComputeBudgetPanel({ transaction }: ComputeBudgetPanelProps) {
+  const summary = useMemo(() => analyzeComputeBudget(transaction), [transaction]);
+
+  const usagePercent =
+    summary.computeUnitsConsumed !== null && summary.computeUnitLimit > 0
+      ? Math.min((summary.computeUnitsConsumed / summary.computeUnitLimit) * 100, 100)
+      : null;
+
+  // 实际优先费与按 CU price × limit 计算的预期值之差（默认 limit 为估算值时可能不为 0）
+  const feeDiff = summary.priorityFee - summary.expectedPriorityFee;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+        Compute Budget
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">CU 限额:</span>
+          <span className="ml-2 font-mono">{summary.computeUnitLimit.toLocaleString()}</span>
+          {summary.isDefaultLimit && (
+            <span className="ml-2 text-xs text-gray-400" title="未设置 SetComputeUnitLimit，按每条指令 200,000 CU 估算">
+              (默认)
+            </span>
+          )}
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">CU 价格:</span>
+          <span className="ml-2 font-mono">
+            {summary.computeUnitPrice.toLocaleString()} micro-lamports
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">实际消耗:</span>
+          <span className="ml-2 font-mono">
+            {summary.computeUnitsConsumed !== null
+              ? summary.computeUnitsConsumed.toLocaleString()
+              : 'N/A'}
+          </span>
+          {usagePercent !== null && (
+            <span className="ml-2 text-xs text-gray-400">({usagePercent.toFixed(1)}%)</span>
+          )}
+        </div>
+        {summary.heapFrameBytes !== null && (
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">Heap Frame:</span>
+            <span className="ml-2 font-mono">{summary.heapFrameBytes.toLocaleString()} bytes</span>
+          </div>
+        )}
+        {summary.loadedAccountsDataSizeLimit !== null && (
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">账户数据上限:</span>
+            <span className="ml-2 font-mono">
+              {summary.loadedAccountsDataSizeLimit.toLocaleString()} bytes
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* CU 使用率 */}
+      {usagePercent !== null && (
+        <div className="mt-3 h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+          <div
+            className={`h-full ${usagePercent > 90 ? 'bg-red-500' : usagePercent > 60 ? 'bg-yellow-500' : 'bg-green-500'}`}
+            style={{ width: `${usagePercent}%` }}
+          />
+        </div>
+      )}
+
+      {/* 手续费构成 */}
+      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">基础费用:</span>
+          <span className="ml-2 font-mono">{formatSol(summary.baseFee)} SOL</span>
+          <span className="ml-2 text-xs text-gray-400">
+            ({transaction.signatureCount}
+            {summary.precompileSignatureCount > 0 && ` + ${summary.precompileSignatureCount} 预编译`} ×{' '}
+            {LAMPORTS_PER_SIGNATURE})
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">优先费:</span>
+          <span className="ml-2 font-mono" title="总手续费 - 基础费用">{formatSol(summary.priorityFee)} SOL</span>
+        </div>
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">预期优先费:</span>
+          <span className="ml-2 font-mono" title="CU 价格 × CU 限额">{formatSol(summary.expectedPriorityFee)} SOL</span>
+        </div>
+        {summary.unusedPriorityFee !== null && summary.unusedPriorityFee > 0 && (
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">未使用 CU 的优先费:</span>
+            <span className="ml-2 font-mono text-orange-600 dark:text-orange-400">
+              {formatSol(summary.unusedPriorityFee)} SOL
+            </span>
+          </div>
+        )}
+        {feeDiff !== 0 && (
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">差额:</span>
+            <span className="ml-2 font-mono text-yellow-600 dark:text-yellow-400" title="优先费 - 预期优先费">
+              {formatSol(feeDiff)} SOL
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
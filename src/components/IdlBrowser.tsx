@@ -0,0 +1,406 @@
+import { useMemo, useState } from 'react';
+import type { Idl } from '@coral-xyz/anchor';
+import type { IdlConfig, IdlType, IdlTypeDef } from '../types';
+import { getDiscriminatorStrategyLabel, getEffectiveIdl } from '../utils/discriminator';
+import { getIdlVersionLabel } from '../utils/idlNormalizer';
+import { computeFieldsLayout, formatTypeSize } from '../utils/idlLayout';
+import type { FieldLayout } from '../utils/idlLayout';
+import { findTypeDef, flattenInstructionAccounts, normalizeDefinedFields } from '../utils/instructionBuilder';
+import { describePdaSeeds } from '../utils/pda';
+
+interface IdlBrowserProps {
+  config: IdlConfig;
+  onClose: () => void;
+}
+
+type Section = 'instructions' | 'accounts' | 'events' | 'types' | 'errors' | 'constants';
+
+interface Selection {
+  section: Section;
+  name?: string;
+}
+
+const SECTION_LABELS: Record<Section, string> = {
+  instructions: '指令',
+  accounts: '账户',
+  events: '事件',
+  types: '类型',
+  errors: '错误',
+  constants: '常量',
+};
+
+// 只有列表、没有单项详情的分组
+const TABLE_SECTIONS: Section[] = ['errors', 'constants'];
+
+const toHex = (bytes: number[] | undefined) =>
+  bytes?.length ? Buffer.from(bytes).toString('hex') : '(无)';
+
+/**
+ * 类型中是否引用了指定的自定义类型
+ */
+function referencesType(type: IdlType, name: string): boolean {
+  if (typeof type === 'string') return false;
+  if ('option' in type) return referencesType(type.option, name);
+  if ('coption' in type) return referencesType(type.coption, name);
+  if ('vec' in type) return referencesType(type.vec, name);
+  if ('array' in type) return referencesType(type.array[0], name);
+  if ('defined' in type) return type.defined.name === name;
+  return false;
+}
+
+function typeDefFields(typeDef: IdlTypeDef) {
+  if (typeDef.type.kind === 'struct') return normalizeDefinedFields(typeDef.type.fields);
+  if (typeDef.type.kind === 'enum') return typeDef.type.variants.flatMap((v) => normalizeDefinedFields(v.fields));
+  return [{ name: '', type: typeDef.type.alias }];
+}
+
+/**
+ * 引用了指定类型的指令与类型
+ */
+function findTypeReferences(idl: Idl, name: string): Selection[] {
+  const instructions = idl.instructions
+    .filter((ix) => ix.args.some((arg) => referencesType(arg.type, name)))
+    .map((ix) => ({ section: 'instructions' as const, name: ix.name }));
+  const types = (idl.types ?? [])
+    .filter((t) => t.name !== name && typeDefFields(t).some((f) => referencesType(f.type, name)))
+    .map((t) => ({ section: 'types' as const, name: t.name }));
+  return [...instructions, ...types];
+}
+
+export function IdlBrowser({ config, onClose }: IdlBrowserProps) {
+  const idl = useMemo(() => getEffectiveIdl(config), [config]);
+  const [selection, setSelection] = useState<Selection>({ section: 'instructions', name: idl.instructions[0]?.name });
+  const [filter, setFilter] = useState('');
+
+  const accountNames = new Set((idl.accounts ?? []).map((a) => a.name));
+  const eventNames = new Set((idl.events ?? []).map((e) => e.name));
+
+  // 自定义类型优先跳转到同名的账户 / 事件
+  const openType = (name: string) => {
+    const section: Section = accountNames.has(name) ? 'accounts' : eventNames.has(name) ? 'events' : 'types';
+    setSelection({ section, name });
+  };
+
+  const sectionNames: Record<Section, string[]> = {
+    instructions: idl.instructions.map((ix) => ix.name),
+    accounts: (idl.accounts ?? []).map((a) => a.name),
+    events: (idl.events ?? []).map((e) => e.name),
+    types: (idl.types ?? []).filter((t) => !accountNames.has(t.name) && !eventNames.has(t.name)).map((t) => t.name),
+    errors: (idl.errors ?? []).map((e) => e.name),
+    constants: (idl.constants ?? []).map((c) => c.name),
+  };
+  const keyword = filter.trim().toLowerCase();
+  const visibleNames = sectionNames[selection.section].filter((n) => n.toLowerCase().includes(keyword));
+
+  // 类型显示，自定义类型可点击跳转
+  const renderType = (type: IdlType): React.ReactNode => {
+    if (typeof type === 'string') return type;
+    if ('option' in type) return <>Option&lt;{renderType(type.option)}&gt;</>;
+    if ('coption' in type) return <>COption&lt;{renderType(type.coption)}&gt;</>;
+    if ('vec' in type) return <>Vec&lt;{renderType(type.vec)}&gt;</>;
+    if ('array' in type) {
+      const [inner, len] = type.array;
+      return <>[{renderType(inner)}; {typeof len === 'number' ? len : len.generic}]</>;
+    }
+    if ('defined' in type) {
+      return (
+        <button onClick={() => openType(type.defined.name)} className="text-blue-600 dark:text-blue-400 hover:underline">
+          {type.defined.name}
+        </button>
+      );
+    }
+    return type.generic;
+  };
+
+  const renderLayout = (fields: FieldLayout[]) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-3 font-normal">偏移</th>
+          <th className="py-1 pr-3 font-normal">字段</th>
+          <th className="py-1 pr-3 font-normal">类型</th>
+          <th className="py-1 font-normal">字节</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {fields.map((field) => (
+          <tr key={field.name} className="border-t border-gray-100 dark:border-gray-700">
+            <td className="py-1 pr-3 text-gray-500">{field.offset ?? '-'}</td>
+            <td className="py-1 pr-3">{field.name}</td>
+            <td className="py-1 pr-3">{renderType(field.type)}</td>
+            <td className="py-1 text-gray-500">{formatTypeSize(field.size)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderReferences = (name: string) => {
+    const references = findTypeReferences(idl, name);
+    if (references.length === 0) return null;
+    return (
+      <div>
+        <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">被引用 ({references.length})</div>
+        <div className="flex flex-wrap gap-1">
+          {references.map((ref) => (
+            <button
+              key={`${ref.section}:${ref.name}`}
+              onClick={() => (ref.section === 'types' ? openType(ref.name!) : setSelection(ref))}
+              className="px-1.5 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {SECTION_LABELS[ref.section]}: {ref.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderInstruction = (name: string) => {
+    const ix = idl.instructions.find((i) => i.name === name);
+    if (!ix) return null;
+    const args = computeFieldsLayout(idl, ix.args, ix.discriminator?.length ?? 0);
+    return (
+      <div className="space-y-4">
+        <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+          <div>Discriminator: <span className="font-mono">{toHex(ix.discriminator)}</span></div>
+          <div>数据长度: <span className="font-mono">{formatTypeSize(args.size)}</span> 字节</div>
+          {ix.docs?.map((doc, i) => <div key={i}>{doc}</div>)}
+        </div>
+        <div>
+          <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">参数 ({ix.args.length})</div>
+          {ix.args.length > 0 ? renderLayout(args.fields) : <div className="text-xs text-gray-500">无</div>}
+        </div>
+        <div>
+          <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">账户</div>
+          <div className="space-y-1">
+            {flattenInstructionAccounts(ix.accounts).map((account, i) => (
+              <div key={account.name} className="text-xs p-1.5 rounded bg-gray-50 dark:bg-gray-900">
+                <div className="flex items-center gap-1.5 flex-wrap">
+                  <span className="text-gray-500 font-mono">#{i}</span>
+                  <span className="font-mono">{account.name}</span>
+                  {account.signer && (
+                    <span className="px-1 rounded bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300">signer</span>
+                  )}
+                  {account.writable && (
+                    <span className="px-1 rounded bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300">writable</span>
+                  )}
+                  {account.optional && (
+                    <span className="px-1 rounded bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300">optional</span>
+                  )}
+                  {account.pda !== undefined && (
+                    <span className="px-1 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300">pda</span>
+                  )}
+                </div>
+                {account.address && <div className="mt-0.5 font-mono text-gray-500 break-all">{account.address}</div>}
+                {account.pda !== undefined && (
+                  <div className="mt-0.5 font-mono text-gray-500 break-all">
+                    seeds: [{describePdaSeeds(account.pda).join(', ')}]
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // 账户 / 事件：discriminator + 同名类型的布局
+  const renderDataItem = (section: 'accounts' | 'events', name: string) => {
+    const item = (section === 'accounts' ? idl.accounts : idl.events)?.find((i) => i.name === name);
+    if (!item) return null;
+    const typeDef = findTypeDef(idl, name);
+    const layout = typeDef?.type.kind === 'struct'
+      ? computeFieldsLayout(idl, normalizeDefinedFields(typeDef.type.fields), item.discriminator?.length ?? 0)
+      : null;
+    return (
+      <div className="space-y-4">
+        <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+          <div>Discriminator: <span className="font-mono">{toHex(item.discriminator)}</span></div>
+          {layout && (
+            <div>
+              {section === 'accounts' ? '账户大小' : '数据长度'}: <span className="font-mono">{formatTypeSize(layout.size)}</span> 字节
+            </div>
+          )}
+          {typeDef?.docs?.map((doc, i) => <div key={i}>{doc}</div>)}
+        </div>
+        {layout ? renderLayout(layout.fields) : <div className="text-xs text-gray-500">未找到类型定义</div>}
+        {renderReferences(name)}
+      </div>
+    );
+  };
+
+  const renderTypeDef = (name: string) => {
+    const typeDef = findTypeDef(idl, name);
+    if (!typeDef) return null;
+    const { type } = typeDef;
+    return (
+      <div className="space-y-4">
+        <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+          <div>种类: {type.kind}</div>
+          {typeDef.docs?.map((doc, i) => <div key={i}>{doc}</div>)}
+        </div>
+        {type.kind === 'struct' && renderLayout(computeFieldsLayout(idl, normalizeDefinedFields(type.fields)).fields)}
+        {type.kind === 'enum' && (
+          <div className="space-y-1">
+            {type.variants.map((variant, i) => (
+              <div key={variant.name} className="text-xs font-mono">
+                <span className="text-gray-500">{i}</span> {variant.name}
+                {variant.fields && (
+                  <span className="text-gray-500">
+                    {' { '}
+                    {normalizeDefinedFields(variant.fields).map((field, j) => (
+                      <span key={field.name}>
+                        {j > 0 && ', '}
+                        {field.name}: {renderType(field.type)}
+                      </span>
+                    ))}
+                    {' }'}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {type.kind === 'type' && <div className="text-xs font-mono">= {renderType(type.alias)}</div>}
+        {renderReferences(name)}
+      </div>
+    );
+  };
+
+  const renderErrors = () => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-3 font-normal">Code</th>
+          <th className="py-1 pr-3 font-normal">名称</th>
+          <th className="py-1 font-normal">信息</th>
+        </tr>
+      </thead>
+      <tbody>
+        {(idl.errors ?? [])
+          .filter((e) => e.name.toLowerCase().includes(keyword))
+          .map((e) => (
+            <tr key={e.code} className="border-t border-gray-100 dark:border-gray-700">
+              <td className="py-1 pr-3 font-mono">{e.code} <span className="text-gray-500">(0x{e.code.toString(16)})</span></td>
+              <td className="py-1 pr-3 font-mono">{e.name}</td>
+              <td className="py-1 text-gray-600 dark:text-gray-400">{e.msg}</td>
+            </tr>
+          ))}
+      </tbody>
+    </table>
+  );
+
+  const renderConstants = () => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-3 font-normal">名称</th>
+          <th className="py-1 pr-3 font-normal">类型</th>
+          <th className="py-1 font-normal">值</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {(idl.constants ?? [])
+          .filter((c) => c.name.toLowerCase().includes(keyword))
+          .map((c) => (
+            <tr key={c.name} className="border-t border-gray-100 dark:border-gray-700">
+              <td className="py-1 pr-3">{c.name}</td>
+              <td className="py-1 pr-3">{renderType(c.type)}</td>
+              <td className="py-1 break-all">{c.value}</td>
+            </tr>
+          ))}
+      </tbody>
+    </table>
+  );
+
+  const renderDetail = () => {
+    const { section, name } = selection;
+    if (section === 'errors') return renderErrors();
+    if (section === 'constants') return renderConstants();
+    if (!name) return <div className="text-sm text-gray-500">从左侧选择一项</div>;
+    if (section === 'instructions') return renderInstruction(name);
+    if (section === 'accounts' || section === 'events') return renderDataItem(section, name);
+    return renderTypeDef(name);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-5xl h-[85vh] mx-4 overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between flex-shrink-0">
+          <div>
+            <h3 className="text-lg font-medium">{config.name}</h3>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {getIdlVersionLabel(config.originalVersion)} · {getDiscriminatorStrategyLabel(config.discriminatorStrategy)}
+              {idl.address && <span className="font-mono"> · {idl.address}</span>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            关闭
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-4 pt-3 flex-shrink-0 flex-wrap">
+          {(Object.keys(SECTION_LABELS) as Section[]).map((section) => (
+            <button
+              key={section}
+              onClick={() => setSelection({ section, name: sectionNames[section][0] })}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                selection.section === section
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {SECTION_LABELS[section]} ({sectionNames[section].length})
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex min-h-0 p-4 gap-4">
+          {!TABLE_SECTIONS.includes(selection.section) && (
+            <div className="w-56 flex-shrink-0 flex flex-col min-h-0">
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="搜索..."
+                className="w-full px-2 py-1 mb-2 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+              />
+              <div className="flex-1 overflow-y-auto space-y-0.5">
+                {visibleNames.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setSelection({ section: selection.section, name })}
+                    className={`w-full text-left px-2 py-1 text-xs font-mono rounded truncate ${
+                      selection.name === name
+                        ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto min-w-0">
+            {TABLE_SECTIONS.includes(selection.section) && (
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="搜索..."
+                className="w-56 px-2 py-1 mb-2 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+              />
+            )}
+            {selection.name && !TABLE_SECTIONS.includes(selection.section) && (
+              <h4 className="text-sm font-mono font-medium mb-3">{selection.name}</h4>
+            )}
+            {renderDetail()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import type { IdlConfig } from '../types';
+import { diffIdls } from '../utils/idlDiff';
+import type { IdlDiffCategory, IdlDiffItem } from '../utils/idlDiff';
+import { getEffectiveIdl } from '../utils/discriminator';
+import { getIdlRevisionConfigs } from '../utils/idlRevision';
+
+interface IdlDiffViewerProps {
+  idlConfigs: IdlConfig[];
+  onClose: () => void;
+}
+
+interface DiffOption {
+  key: string;
+  label: string;
+  config: IdlConfig;
+}
+
+const CATEGORY_LABELS: Record<IdlDiffCategory, string> = {
+  instruction: '指令',
+  account: '账户类型',
+  event: '事件',
+  type: '自定义类型',
+  error: '错误码',
+};
+
+const KIND_LABELS: Record<IdlDiffItem['kind'], string> = {
+  added: '新增',
+  removed: '删除',
+  renamed: '改名',
+  changed: '修改',
+};
+
+const selectClassName =
+  'w-full px-2 py-1 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+export function IdlDiffViewer({ idlConfigs, onClose }: IdlDiffViewerProps) {
+  // 每个配置的当前版本与历史版本都可参与比较
+  const options = useMemo<DiffOption[]>(
+    () =>
+      idlConfigs.flatMap((config) =>
+        getIdlRevisionConfigs(config).map((revisionConfig, i) => ({
+          key: `${config.id}:${i}`,
+          label: `${config.name} · ${revisionConfig.revisionLabel}`,
+          config: revisionConfig,
+        }))
+      ),
+    [idlConfigs]
+  );
+  const [beforeKey, setBeforeKey] = useState(options[1]?.key ?? options[0]?.key ?? '');
+  const [afterKey, setAfterKey] = useState(options[0]?.key ?? '');
+
+  const before = options.find((o) => o.key === beforeKey);
+  const after = options.find((o) => o.key === afterKey);
+
+  const { items, error } = useMemo(() => {
+    if (!before || !after) return { items: [], error: null };
+    try {
+      return { items: diffIdls(getEffectiveIdl(before.config), getEffectiveIdl(after.config)), error: null };
+    } catch (e) {
+      return { items: [], error: e instanceof Error ? e.message : '比较失败' };
+    }
+  }, [before, after]);
+
+  const breakingCount = items.filter((item) => item.breaking).length;
+  const categories = (Object.keys(CATEGORY_LABELS) as IdlDiffCategory[]).filter((category) =>
+    items.some((item) => item.category === category)
+  );
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-sm">IDL 对比</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+          关闭
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <label className="block text-gray-600 dark:text-gray-400 mb-1">旧版本</label>
+          <select value={beforeKey} onChange={(e) => setBeforeKey(e.target.value)} className={selectClassName}>
+            {options.map((option) => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-600 dark:text-gray-400 mb-1">新版本</label>
+          <select value={afterKey} onChange={(e) => setAfterKey(e.target.value)} className={selectClassName}>
+            {options.map((option) => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+
+      {!error && before && after && (
+        items.length === 0 ? (
+          <div className="text-gray-500 dark:text-gray-400">两个 IDL 结构一致</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300">
+                破坏性 {breakingCount}
+              </span>
+              <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300">
+                兼容 {items.length - breakingCount}
+              </span>
+            </div>
+
+            {categories.map((category) => (
+              <div key={category} className="space-y-1">
+                <div className="font-medium text-gray-700 dark:text-gray-300">{CATEGORY_LABELS[category]}</div>
+                {items
+                  .filter((item) => item.category === category)
+                  .map((item, i) => (
+                    <div
+                      key={`${item.path}-${i}`}
+                      className="p-1.5 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="flex items-center gap-1.5">
+                        <span
+                          className={`px-1 rounded flex-shrink-0 ${
+                            item.breaking
+                              ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300'
+                              : 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300'
+                          }`}
+                        >
+                          {item.breaking ? '破坏性' : '兼容'}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">{KIND_LABELS[item.kind]}</span>
+                        <span className="font-mono truncate" title={item.path}>{item.path}</span>
+                      </div>
+                      <div className="mt-0.5 text-gray-600 dark:text-gray-400 break-all">{item.message}</div>
+                    </div>
+                  ))}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
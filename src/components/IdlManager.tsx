@@ -1,19 +1,28 @@
 import { useState } from 'react';
-import type { IdlConfig } from '../types';
+import type { DiscriminatorStrategy, IdlConfig } from '../types';
 import {
   detectIdlVersion,
   normalizeIdl,
   validateIdl,
   getIdlName,
+  getIdlVersionLabel,
 } from '../utils/idlNormalizer';
 import { isValidSolanaAddress } from '../utils/addressResolver';
+import type { OnchainIdl } from '../utils/onchainIdl';
+import { getDiscriminatorStrategyLabel } from '../utils/discriminator';
+import { fillMissingDiscriminators, lintIdlConfig } from '../utils/idlLint';
+import type { IdlLintIssue } from '../utils/idlLint';
+import { IdlRevisions } from './IdlRevisions';
+import { IdlDiffViewer } from './IdlDiffViewer';
+import { IdlBrowser } from './IdlBrowser';
 
 interface IdlManagerProps {
   idlConfigs: IdlConfig[];
   onIdlConfigsChange: (configs: IdlConfig[]) => void;
+  onFetchOnchainIdl?: (programId: string) => Promise<OnchainIdl | null>;
 }
 
-export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps) {
+export function IdlManager({ idlConfigs, onIdlConfigsChange, onFetchOnchainIdl }: IdlManagerProps) {
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [idlInput, setIdlInput] = useState('');
@@ -21,66 +30,113 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
   const [programIdsInput, setProgramIdsInput] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [detectedVersion, setDetectedVersion] = useState<string | null>(null);
+  const [strategyInput, setStrategyInput] = useState<DiscriminatorStrategy>({ kind: 'anchor' });
+  const [fetchProgramId, setFetchProgramId] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [browsingId, setBrowsingId] = useState<string | null>(null);
+  const [lintIssues, setLintIssues] = useState<IdlLintIssue[]>([]);
+  const [lintedInput, setLintedInput] = useState<string | null>(null); // 已展示检查结果的输入，再次保存时忽略问题
 
   const resetForm = () => {
     setIdlInput('');
     setNameInput('');
     setProgramIdsInput('');
     setError(null);
+    setLintIssues([]);
+    setLintedInput(null);
     setDetectedVersion(null);
+    setStrategyInput({ kind: 'anchor' });
+    setFetchProgramId('');
     setIsAdding(false);
     setEditingId(null);
   };
 
-  const handleIdlInputChange = (value: string) => {
+  // programIds 为当前的 Program 地址输入（同一次事件中刚设置的值还未反映到 state）
+  const handleIdlInputChange = (value: string, programIds = programIdsInput) => {
     setIdlInput(value);
     setError(null);
+    setLintIssues([]);
     setDetectedVersion(null);
 
     if (!value.trim()) return;
 
+    let parsed;
     try {
-      const parsed = JSON.parse(value);
-      const validation = validateIdl(parsed);
-      
-      if (!validation.valid) {
-        setError(validation.error || '无效的 IDL');
-        return;
-      }
+      parsed = JSON.parse(value);
+    } catch {
+      setError('JSON 格式错误');
+      return;
+    }
 
-      const version = detectIdlVersion(parsed);
-      setDetectedVersion(version === 'legacy' ? '旧版 (≤0.29)' : '新版 (≥0.30)');
-      
-      // 自动填充名称
-      if (!nameInput) {
-        setNameInput(getIdlName(parsed));
+    const validation = validateIdl(parsed);
+    if (!validation.valid) {
+      setError(validation.error || '无效的 IDL');
+      return;
+    }
+
+    const version = detectIdlVersion(parsed);
+    setDetectedVersion(getIdlVersionLabel(version));
+
+    // Shank / Codama / 旧版 IDL 需要转换，转换失败时显示具体原因
+    let normalized;
+    try {
+      normalized = normalizeIdl(parsed);
+    } catch (e) {
+      setError(`IDL 转换失败: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    // 自动填充名称
+    if (!nameInput) {
+      setNameInput(getIdlName(parsed));
+    }
+
+    // 自动填充 Program 地址（从 IDL 的 address 或 metadata.address 字段）
+    if (!programIds) {
+      const addresses: string[] = [];
+
+      // 检查顶层 address 字段（新版 Anchor IDL，Codama 转换后同样有 address）
+      const { address } = normalized;
+      if (typeof address === 'string' && isValidSolanaAddress(address)) {
+        addresses.push(address);
       }
 
-      // 自动填充 Program 地址（从 IDL 的 address 或 metadata.address 字段）
-      if (!programIdsInput) {
-        const addresses: string[] = [];
-        
-        // 检查顶层 address 字段（新版 Anchor IDL）
-        if (typeof parsed.address === 'string' && isValidSolanaAddress(parsed.address)) {
-          addresses.push(parsed.address);
-        }
-        
-        // 检查 metadata.address 字段
-        if (parsed.metadata && typeof parsed.metadata.address === 'string' && isValidSolanaAddress(parsed.metadata.address)) {
-          if (!addresses.includes(parsed.metadata.address)) {
-            addresses.push(parsed.metadata.address);
-          }
+      // 检查 metadata.address 字段
+      if (parsed.metadata && typeof parsed.metadata.address === 'string' && isValidSolanaAddress(parsed.metadata.address)) {
+        if (!addresses.includes(parsed.metadata.address)) {
+          addresses.push(parsed.metadata.address);
         }
+      }
 
-        if (addresses.length > 0) {
-          setProgramIdsInput(addresses.join('\n'));
-        }
+      if (addresses.length > 0) {
+        setProgramIdsInput(addresses.join('\n'));
       }
-    } catch {
-      setError('JSON 格式错误');
     }
   };
 
+  // 从链上 IDL 账户读取并填入表单
+  const handleFetchOnchain = async () => {
+    if (!onFetchOnchainIdl) return;
+    const programId = fetchProgramId.trim();
+    if (!isValidSolanaAddress(programId)) {
+      setError('无效的 Program 地址');
+      return;
+    }
+
+    setFetching(true);
+    setError(null);
+    const result = await onFetchOnchainIdl(programId);
+    setFetching(false);
+    if (!result) {
+      setError('链上未找到可用的 IDL');
+      return;
+    }
+    const programIds = programIdsInput || programId;
+    setProgramIdsInput(programIds);
+    handleIdlInputChange(JSON.stringify(result.idl, null, 2), programIds);
+  };
+
   const handleSave = () => {
     try {
       const parsed = JSON.parse(idlInput);
@@ -109,33 +165,45 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
         return;
       }
 
-      const version = detectIdlVersion(parsed);
-      const normalizedIdl = normalizeIdl(parsed);
+      if (strategyInput.kind === 'prefix' && !(strategyInput.length >= 1 && strategyInput.length <= 8)) {
+        setError('Discriminator 前缀长度需在 1-8 之间');
+        return;
+      }
+      const discriminatorStrategy = strategyInput.kind === 'anchor' ? undefined : strategyInput;
+
+      const existing = idlConfigs.find((config) => config.id === editingId);
+      const savedConfig: IdlConfig = {
+        ...existing,
+        id: existing?.id ?? Date.now().toString(),
+        name: nameInput || getIdlName(parsed),
+        idl: normalizeIdl(parsed),
+        originalVersion: detectIdlVersion(parsed),
+        programIds,
+        discriminatorStrategy,
+      };
 
-      if (editingId) {
+      // 补全缺失的 discriminator 并检查，有问题时先展示，再次保存才忽略
+      const { idl, filled } = fillMissingDiscriminators(savedConfig);
+      savedConfig.idl = idl;
+      const issues = lintIdlConfig(savedConfig, idlConfigs);
+      const inputKey = JSON.stringify([idlInput, programIdsInput, strategyInput]);
+      if (issues.length > 0 && lintedInput !== inputKey) {
+        setLintIssues([
+          ...(filled.length > 0
+            ? [{ severity: 'info' as const, message: `已按 Anchor sighash 补全 discriminator: ${filled.join(', ')}` }]
+            : []),
+          ...issues,
+        ]);
+        setLintedInput(inputKey);
+        return;
+      }
+
+      if (existing) {
         // 编辑模式
-        const updated = idlConfigs.map((config) =>
-          config.id === editingId
-            ? {
-                ...config,
-                name: nameInput || getIdlName(parsed),
-                idl: normalizedIdl,
-                originalVersion: version,
-                programIds,
-              }
-            : config
-        );
-        onIdlConfigsChange(updated);
+        onIdlConfigsChange(idlConfigs.map((config) => (config.id === existing.id ? savedConfig : config)));
       } else {
         // 新增模式
-        const newConfig: IdlConfig = {
-          id: Date.now().toString(),
-          name: nameInput || getIdlName(parsed),
-          idl: normalizedIdl,
-          originalVersion: version,
-          programIds,
-        };
-        onIdlConfigsChange([...idlConfigs, newConfig]);
+        onIdlConfigsChange([...idlConfigs, savedConfig]);
       }
 
       resetForm();
@@ -149,9 +217,8 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
     setIdlInput(JSON.stringify(config.idl, null, 2));
     setNameInput(config.name);
     setProgramIdsInput(config.programIds.join('\n'));
-    setDetectedVersion(
-      config.originalVersion === 'legacy' ? '旧版 (≤0.29)' : '新版 (≥0.30)'
-    );
+    setDetectedVersion(getIdlVersionLabel(config.originalVersion));
+    setStrategyInput(config.discriminatorStrategy ?? { kind: 'anchor' });
     setIsAdding(true);
   };
 
@@ -161,24 +228,44 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
     }
   };
 
+  const browsingConfig = idlConfigs.find((c) => c.id === browsingId);
+
+  // 至少有两个 IDL（含历史版本）时才能对比
+  const canCompare = idlConfigs.reduce((count, c) => count + 1 + (c.revisions?.length ?? 0), 0) >= 2;
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
           IDL 管理
         </h3>
-        {!isAdding && (
-          <button
-            onClick={() => setIsAdding(true)}
-            className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
-          >
-            + 添加 IDL
-          </button>
+        {!isAdding && !isComparing && (
+          <div className="flex gap-1">
+            {canCompare && (
+              <button
+                onClick={() => setIsComparing(true)}
+                className="px-2 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+              >
+                对比
+              </button>
+            )}
+            <button
+              onClick={() => setIsAdding(true)}
+              className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+            >
+              + 添加 IDL
+            </button>
+          </div>
         )}
       </div>
 
+      {/* IDL 对比 */}
+      {isComparing && !isAdding && (
+        <IdlDiffViewer idlConfigs={idlConfigs} onClose={() => setIsComparing(false)} />
+      )}
+
       {/* IDL 列表 */}
-      {idlConfigs.length > 0 && !isAdding && (
+      {idlConfigs.length > 0 && !isAdding && !isComparing && (
         <div className="space-y-2">
           {idlConfigs.map((config) => (
             <div
@@ -188,6 +275,15 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
               <div className="flex items-center justify-between mb-2">
                 <span className="font-medium text-sm">{config.name}</span>
                 <div className="flex gap-1">
+                  <button
+                    onClick={() => setBrowsingId(config.id)}
+                    title="浏览"
+                    className="p-1 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                    </svg>
+                  </button>
                   <button
                     onClick={() => handleEdit(config)}
                     className="p-1 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900 rounded"
@@ -207,7 +303,10 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
                 </div>
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
-                <div>版本: {config.originalVersion === 'legacy' ? '旧版' : '新版'}</div>
+                <div>版本: {getIdlVersionLabel(config.originalVersion)}</div>
+                {config.discriminatorStrategy && (
+                  <div>Discriminator: {getDiscriminatorStrategyLabel(config.discriminatorStrategy)}</div>
+                )}
                 <div>关联地址 ({config.programIds.length}):</div>
                 <div className="pl-2 space-y-0.5">
                   {config.programIds.map((id) => (
@@ -216,12 +315,21 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
                     </div>
                   ))}
                 </div>
+                <IdlRevisions
+                  config={config}
+                  onChange={(updated) =>
+                    onIdlConfigsChange(idlConfigs.map((c) => (c.id === updated.id ? updated : c)))
+                  }
+                />
               </div>
             </div>
           ))}
         </div>
       )}
 
+      {/* IDL 浏览 */}
+      {browsingConfig && <IdlBrowser config={browsingConfig} onClose={() => setBrowsingId(null)} />}
+
       {/* 添加/编辑表单 */}
       {isAdding && (
         <div className="space-y-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -238,6 +346,30 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
             />
           </div>
 
+          {onFetchOnchainIdl && !editingId && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                从链上获取
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={fetchProgramId}
+                  onChange={(e) => setFetchProgramId(e.target.value)}
+                  placeholder="Program 地址"
+                  className="flex-1 min-w-0 px-2 py-1.5 text-xs font-mono border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                />
+                <button
+                  onClick={handleFetchOnchain}
+                  disabled={fetching || !fetchProgramId.trim()}
+                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors flex-shrink-0"
+                >
+                  {fetching ? '获取中...' : '获取'}
+                </button>
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
               IDL JSON
@@ -269,16 +401,68 @@ export function IdlManager({ idlConfigs, onIdlConfigsChange }: IdlManagerProps)
             />
           </div>
 
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              Discriminator 策略
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={strategyInput.kind}
+                onChange={(e) => {
+                  const kind = e.target.value as DiscriminatorStrategy['kind'];
+                  setStrategyInput(kind === 'prefix' ? { kind, length: 1 } : { kind });
+                }}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+              >
+                <option value="anchor">IDL 中的 discriminator (Anchor)</option>
+                <option value="u8">u8 枚举索引</option>
+                <option value="u32">u32 LE 枚举索引 (bincode)</option>
+                <option value="prefix">自定义前缀长度</option>
+              </select>
+              {strategyInput.kind === 'prefix' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={strategyInput.length}
+                  onChange={(e) => setStrategyInput({ kind: 'prefix', length: Number(e.target.value) })}
+                  className="w-16 px-2 py-1.5 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600"
+                />
+              )}
+            </div>
+          </div>
+
           {error && (
             <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
           )}
 
+          {/* IDL 检查结果 */}
+          {lintIssues.length > 0 && (
+            <div className="space-y-1 p-2 text-xs bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700">
+              <div className="font-medium text-gray-700 dark:text-gray-300">IDL 检查</div>
+              {lintIssues.map((issue, i) => (
+                <div
+                  key={i}
+                  className={`break-all ${
+                    issue.severity === 'error'
+                      ? 'text-red-600 dark:text-red-400'
+                      : issue.severity === 'warning'
+                        ? 'text-amber-600 dark:text-amber-400'
+                        : 'text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {issue.severity === 'error' ? '✗' : issue.severity === 'warning' ? '⚠' : 'ℹ'} {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="flex gap-2">
             <button
               onClick={handleSave}
               className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
             >
-              {editingId ? '更新' : '添加'}
+              {lintIssues.length > 0 ? '忽略问题并保存' : editingId ? '更新' : '添加'}
             </button>
             <button
               onClick={resetForm}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import type { IdlConfig, IdlRevision } from '../types';
+import { detectIdlVersion, normalizeIdl, validateIdl } from '../utils/idlNormalizer';
+import { formatRevisionRange } from '../utils/idlRevision';
+
+interface IdlRevisionsProps {
+  config: IdlConfig;
+  onChange: (config: IdlConfig) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-xs border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600';
+
+// 解析 slot 输入，空字符串为不限
+const parseSlot = (text: string): number | undefined | null => {
+  if (!text.trim()) return undefined;
+  return /^\d+$/.test(text.trim()) ? Number(text.trim()) : null;
+};
+
+export function IdlRevisions({ config, onChange }: IdlRevisionsProps) {
+  const revisions = config.revisions ?? [];
+  const [isAdding, setIsAdding] = useState(false);
+  const [labelInput, setLabelInput] = useState('');
+  const [fromSlotInput, setFromSlotInput] = useState('');
+  const [toSlotInput, setToSlotInput] = useState('');
+  const [idlInput, setIdlInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setLabelInput('');
+    setFromSlotInput('');
+    setToSlotInput('');
+    setIdlInput('');
+    setError(null);
+    setIsAdding(false);
+  };
+
+  const handleSave = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(idlInput);
+    } catch {
+      setError('JSON 格式错误');
+      return;
+    }
+    const validation = validateIdl(parsed);
+    if (!validation.valid) {
+      setError(validation.error || '无效的 IDL');
+      return;
+    }
+
+    const fromSlot = parseSlot(fromSlotInput);
+    const toSlot = parseSlot(toSlotInput);
+    if (fromSlot === null || toSlot === null) {
+      setError('slot 必须是非负整数');
+      return;
+    }
+    if (fromSlot === undefined && toSlot === undefined) {
+      setError('请至少填写起始或结束 slot');
+      return;
+    }
+    if (fromSlot !== undefined && toSlot !== undefined && fromSlot >= toSlot) {
+      setError('起始 slot 必须小于结束 slot');
+      return;
+    }
+
+    const revision: IdlRevision = {
+      id: Date.now().toString(),
+      label: labelInput.trim() || `r${revisions.length + 1}`,
+      idl: normalizeIdl(parsed),
+      originalVersion: detectIdlVersion(parsed),
+      fromSlot,
+      toSlot,
+    };
+    onChange({ ...config, revisions: [...revisions, revision] });
+    resetForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('确定要删除这个历史版本吗？')) {
+      onChange({ ...config, revisions: revisions.filter((r) => r.id !== id) });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span>历史版本 ({revisions.length}):</span>
+        {!isAdding && (
+          <button onClick={() => setIsAdding(true)} className="text-blue-600 dark:text-blue-400 hover:underline">
+            + 添加
+          </button>
+        )}
+      </div>
+
+      {revisions.length > 0 && (
+        <div className="pl-2 space-y-0.5">
+          {revisions.map((revision) => (
+            <div key={revision.id} className="flex items-center gap-2">
+              <span className="font-medium text-gray-700 dark:text-gray-300 truncate">{revision.label}</span>
+              <span className="font-mono truncate">{formatRevisionRange(revision)}</span>
+              <button
+                onClick={() => handleDelete(revision.id)}
+                className="ml-auto text-red-500 hover:text-red-700 flex-shrink-0"
+              >
+                删除
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdding && (
+        <div className="space-y-2 p-2 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={labelInput}
+            onChange={(e) => setLabelInput(e.target.value)}
+            placeholder="版本标签（如 v1.2.0）"
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={fromSlotInput}
+              onChange={(e) => setFromSlotInput(e.target.value)}
+              placeholder="起始 slot（含）"
+              className={`${inputClassName} font-mono`}
+            />
+            <input
+              type="text"
+              value={toSlotInput}
+              onChange={(e) => setToSlotInput(e.target.value)}
+              placeholder="结束 slot（不含）"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <textarea
+            value={idlInput}
+            onChange={(e) => setIdlInput(e.target.value)}
+            placeholder="粘贴该版本的 IDL JSON..."
+            rows={4}
+            className={`${inputClassName} font-mono resize-y`}
+          />
+          <button
+            onClick={() => setIdlInput(JSON.stringify(config.idl, null, 2))}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            使用当前 IDL
+          </button>
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              添加
+            </button>
+            <button
+              onClick={resetForm}
+              className="px-2 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
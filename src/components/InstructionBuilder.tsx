@@ -0,0 +1,553 @@
+import { useState } from 'react';
+import type { Idl } from '@coral-xyz/anchor';
+import bs58 from 'bs58';
+import type { AddressLabel, IdlConfig, IdlDefinedFields, IdlType, SimulationResult } from '../types';
+import {
+  buildInstructionMessage,
+  defaultArgValue,
+  defaultFieldsValue,
+  encodeInstructionData,
+  findTypeDef,
+  flattenInstructionAccounts,
+  formatIdlType,
+  normalizeDefinedFields,
+} from '../utils/instructionBuilder';
+import type { ArgFormValue } from '../utils/instructionBuilder';
+import { getEffectiveIdl } from '../utils/discriminator';
+import { copyToClipboard } from '../utils/clipboard';
+import { SimulationPanel } from './SimulationPanel';
+
+interface InstructionBuilderProps {
+  idlConfigs: IdlConfig[];
+  addressLabels: AddressLabel[];
+  onAddLabel?: (address: string, label: string) => void;
+  onFetchBlockhash: () => Promise<string | null>;
+  onSimulate: (serializedTransaction: string, accountAddresses?: string[]) => Promise<SimulationResult | null>;
+  loading: boolean;
+  error: string | null;
+}
+
+// 单个账户的输入状态
+interface AccountInput {
+  pubkey: string;
+  isSigner: boolean;
+  isWritable: boolean;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-xs font-mono border rounded bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+// 复制按钮
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={async () => {
+        await copyToClipboard(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      }}
+      className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 flex-shrink-0"
+    >
+      {copied ? '已复制' : '复制'}
+    </button>
+  );
+}
+
+// 按 IDL 类型渲染的参数输入
+function ArgInput({
+  type,
+  value,
+  onChange,
+  idl,
+}: {
+  type: IdlType;
+  value: ArgFormValue;
+  onChange: (value: ArgFormValue) => void;
+  idl: Idl;
+}) {
+  if (typeof type === 'string') {
+    if (type === 'bool') {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="rounded"
+        />
+      );
+    }
+    return (
+      <input
+        type="text"
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={type === 'bytes' ? 'hex (0x...) 或 base64' : type}
+        className={inputClassName}
+      />
+    );
+  }
+
+  if ('option' in type || 'coption' in type) {
+    const inner = 'option' in type ? type.option : type.coption;
+    const option = value as { some: boolean; value: ArgFormValue };
+    return (
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={option.some}
+            onChange={(e) => onChange({ ...option, some: e.target.checked })}
+            className="rounded"
+          />
+          Some
+        </label>
+        {option.some && (
+          <ArgInput
+            type={inner}
+            value={option.value}
+            onChange={(v) => onChange({ ...option, value: v })}
+            idl={idl}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if ('vec' in type || 'array' in type) {
+    const inner = 'vec' in type ? type.vec : type.array[0];
+    const items = Array.isArray(value) ? value : [];
+    const isVec = 'vec' in type;
+    return (
+      <div className="space-y-1 pl-2 border-l border-gray-200 dark:border-gray-700">
+        {items.map((item, i) => (
+          <div key={i} className="flex items-start gap-2">
+            <span className="text-xs text-gray-400 font-mono pt-1 w-6 flex-shrink-0">[{i}]</span>
+            <div className="flex-1">
+              <ArgInput
+                type={inner}
+                value={item}
+                onChange={(v) => onChange(items.map((it, j) => (j === i ? v : it)))}
+                idl={idl}
+              />
+            </div>
+            {isVec && (
+              <button
+                onClick={() => onChange(items.filter((_, j) => j !== i))}
+                className="text-xs text-red-500 hover:text-red-700 pt-1"
+              >
+                删除
+              </button>
+            )}
+          </div>
+        ))}
+        {isVec && (
+          <button
+            onClick={() => onChange([...items, defaultArgValue(inner, idl)])}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            + 添加
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if ('defined' in type) {
+    const typeDef = findTypeDef(idl, type.defined.name);
+    if (!typeDef) {
+      return <span className="text-xs text-red-500">未定义的类型 {type.defined.name}</span>;
+    }
+    const record = value as { [key: string]: ArgFormValue };
+
+    if (typeDef.type.kind === 'type') {
+      return <ArgInput type={typeDef.type.alias} value={value} onChange={onChange} idl={idl} />;
+    }
+
+    if (typeDef.type.kind === 'enum') {
+      const variants = typeDef.type.variants;
+      const variant = variants.find((v) => v.name === record.variant);
+      return (
+        <div className="space-y-1">
+          <select
+            value={record.variant as string}
+            onChange={(e) => {
+              const next = variants.find((v) => v.name === e.target.value);
+              onChange({ variant: e.target.value, fields: defaultFieldsValue(next?.fields, idl) });
+            }}
+            className={inputClassName}
+          >
+            {variants.map((v) => (
+              <option key={v.name} value={v.name}>
+                {v.name}
+              </option>
+            ))}
+          </select>
+          {variant?.fields && variant.fields.length > 0 && (
+            <FieldsInput
+              fields={variant.fields}
+              value={record.fields as { [key: string]: ArgFormValue }}
+              onChange={(fields) => onChange({ ...record, fields })}
+              idl={idl}
+            />
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <FieldsInput
+        fields={typeDef.type.fields}
+        value={record}
+        onChange={onChange}
+        idl={idl}
+      />
+    );
+  }
+
+  return <span className="text-xs text-gray-500">暂不支持泛型参数</span>;
+}
+
+// struct / enum 变体字段输入
+function FieldsInput({
+  fields,
+  value,
+  onChange,
+  idl,
+}: {
+  fields: IdlDefinedFields | undefined;
+  value: { [key: string]: ArgFormValue };
+  onChange: (value: { [key: string]: ArgFormValue }) => void;
+  idl: Idl;
+}) {
+  return (
+    <div className="space-y-1 pl-2 border-l border-gray-200 dark:border-gray-700">
+      {normalizeDefinedFields(fields).map((field) => (
+        <div key={field.name}>
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            {field.name} <span className="text-gray-400 font-mono">{formatIdlType(field.type)}</span>
+          </div>
+          <ArgInput
+            type={field.type}
+            value={value[field.name]}
+            onChange={(v) => onChange({ ...value, [field.name]: v })}
+            idl={idl}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function InstructionBuilder({
+  idlConfigs,
+  addressLabels,
+  onAddLabel,
+  onFetchBlockhash,
+  onSimulate,
+  loading,
+  error,
+}: InstructionBuilderProps) {
+  const [configId, setConfigId] = useState(idlConfigs[0]?.id ?? '');
+  const [programId, setProgramId] = useState(idlConfigs[0]?.programIds[0] ?? '');
+  const [instructionName, setInstructionName] = useState('');
+  const [args, setArgs] = useState<Record<string, ArgFormValue>>({});
+  const [accounts, setAccounts] = useState<AccountInput[]>([]);
+  const [feePayer, setFeePayer] = useState('');
+  const [recentBlockhash, setRecentBlockhash] = useState('');
+  const [output, setOutput] = useState<{
+    data: Buffer;
+    message: { base58: string; base64: string } | null;
+  } | null>(null);
+  const [buildError, setBuildError] = useState<string | null>(null);
+
+  const config = idlConfigs.find((c) => c.id === configId);
+  const idl = config ? getEffectiveIdl(config) : undefined;
+  const ixDef = idl?.instructions.find((ix) => ix.name === instructionName);
+  const builderAccounts = ixDef ? flattenInstructionAccounts(ixDef.accounts) : [];
+
+  // 切换指令时重置参数与账户
+  const selectInstruction = (name: string) => {
+    setInstructionName(name);
+    setOutput(null);
+    setBuildError(null);
+    const def = idl?.instructions.find((ix) => ix.name === name);
+    if (!def || !idl) {
+      setArgs({});
+      setAccounts([]);
+      return;
+    }
+    setArgs(Object.fromEntries(def.args.map((arg) => [arg.name, defaultArgValue(arg.type, idl)])));
+    setAccounts(
+      flattenInstructionAccounts(def.accounts).map((account) => ({
+        pubkey: account.address ?? '',
+        isSigner: account.signer,
+        isWritable: account.writable,
+      }))
+    );
+  };
+
+  const selectConfig = (id: string) => {
+    setConfigId(id);
+    setProgramId(idlConfigs.find((c) => c.id === id)?.programIds[0] ?? '');
+    setInstructionName('');
+    setArgs({});
+    setAccounts([]);
+    setOutput(null);
+  };
+
+  const updateAccount = (index: number, patch: Partial<AccountInput>) => {
+    setAccounts((prev) => prev.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  };
+
+  const handleFetchBlockhash = async () => {
+    const blockhash = await onFetchBlockhash();
+    if (blockhash) setRecentBlockhash(blockhash);
+  };
+
+  const handleBuild = () => {
+    if (!idl || !ixDef) return;
+    setBuildError(null);
+    try {
+      const data = encodeInstructionData(idl, ixDef.name, args);
+
+      // Anchor 约定：未提供的可选账户使用程序地址占位
+      const keys = accounts.map((account, i) => {
+        const pubkey = account.pubkey.trim() || (builderAccounts[i]?.optional ? programId : '');
+        if (!pubkey) throw new Error(`账户 ${builderAccounts[i]?.name} 未填写`);
+        return { ...account, pubkey };
+      });
+
+      const payer = feePayer.trim() || keys.find((k) => k.isSigner)?.pubkey || '';
+      const message =
+        payer && recentBlockhash.trim()
+          ? buildInstructionMessage({
+              programId,
+              data,
+              accounts: keys,
+              feePayer: payer,
+              recentBlockhash: recentBlockhash.trim(),
+            })
+          : null;
+
+      setOutput({ data, message });
+    } catch (e) {
+      setOutput(null);
+      setBuildError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  if (idlConfigs.length === 0) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">构建指令</h2>
+        <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          请先在 IDL 管理中添加 IDL
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">构建指令</h2>
+
+      {/* 选择 IDL / 程序 / 指令 */}
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">IDL</label>
+          <select value={configId} onChange={(e) => selectConfig(e.target.value)} className={inputClassName}>
+            {idlConfigs.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Program ID</label>
+          <select value={programId} onChange={(e) => setProgramId(e.target.value)} className={inputClassName}>
+            {config?.programIds.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">指令</label>
+          <select
+            value={instructionName}
+            onChange={(e) => selectInstruction(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">选择指令...</option>
+            {idl?.instructions.map((ix) => (
+              <option key={ix.name} value={ix.name}>
+                {ix.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {ixDef && idl && (
+        <div className="space-y-4">
+          {/* 参数 */}
+          {ixDef.args.length > 0 && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                参数 ({ixDef.args.length})
+              </h3>
+              <div className="space-y-3">
+                {ixDef.args.map((arg) => (
+                  <div key={arg.name}>
+                    <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                      {arg.name}{' '}
+                      <span className="text-gray-400 font-mono">{formatIdlType(arg.type)}</span>
+                    </div>
+                    <ArgInput
+                      type={arg.type}
+                      value={args[arg.name]}
+                      onChange={(v) => setArgs((prev) => ({ ...prev, [arg.name]: v }))}
+                      idl={idl}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 账户 */}
+          {builderAccounts.length > 0 && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                账户 ({builderAccounts.length})
+              </h3>
+              <div className="space-y-2">
+                {builderAccounts.map((account, i) => (
+                  <div key={account.name} className="flex items-center gap-2">
+                    <span className="text-xs text-gray-600 dark:text-gray-400 w-40 flex-shrink-0 truncate" title={account.name}>
+                      {account.name}
+                      {account.optional && <span className="ml-1 text-gray-400">(可选)</span>}
+                    </span>
+                    <input
+                      type="text"
+                      value={accounts[i]?.pubkey ?? ''}
+                      onChange={(e) => updateAccount(i, { pubkey: e.target.value })}
+                      placeholder={account.optional ? '留空则使用程序地址' : '账户地址'}
+                      className={inputClassName}
+                    />
+                    <label className="flex items-center gap-1 text-[10px] text-gray-500 flex-shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={accounts[i]?.isSigner ?? false}
+                        onChange={(e) => updateAccount(i, { isSigner: e.target.checked })}
+                        className="rounded"
+                      />
+                      Signer
+                    </label>
+                    <label className="flex items-center gap-1 text-[10px] text-gray-500 flex-shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={accounts[i]?.isWritable ?? false}
+                        onChange={(e) => updateAccount(i, { isWritable: e.target.checked })}
+                        className="rounded"
+                      />
+                      Writable
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 交易消息参数 */}
+          <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">交易消息</h3>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400 w-40 flex-shrink-0">Fee Payer</span>
+              <input
+                type="text"
+                value={feePayer}
+                onChange={(e) => setFeePayer(e.target.value)}
+                placeholder="留空则使用第一个签名账户"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-600 dark:text-gray-400 w-40 flex-shrink-0">Recent Blockhash</span>
+              <input
+                type="text"
+                value={recentBlockhash}
+                onChange={(e) => setRecentBlockhash(e.target.value)}
+                placeholder="留空则只生成指令数据"
+                className={inputClassName}
+              />
+              <button
+                onClick={handleFetchBlockhash}
+                disabled={loading}
+                className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 flex-shrink-0"
+              >
+                获取最新
+              </button>
+            </div>
+          </div>
+
+          <button
+            onClick={handleBuild}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            生成
+          </button>
+
+          {(buildError || error) && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+              {buildError || error}
+            </div>
+          )}
+
+          {/* 输出 */}
+          {output && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">输出</h3>
+              {[
+                { label: '指令数据 (hex)', value: output.data.toString('hex') },
+                { label: '指令数据 (base58)', value: bs58.encode(output.data) },
+                ...(output.message
+                  ? [
+                      { label: '交易消息 (base58)', value: output.message.base58 },
+                      { label: '交易消息 (base64)', value: output.message.base64 },
+                    ]
+                  : []),
+              ].map(({ label, value }) => (
+                <div key={label}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{label}</span>
+                    <CopyButton text={value} />
+                  </div>
+                  <div className="p-2 bg-white dark:bg-gray-900 rounded text-xs font-mono break-all">
+                    {value}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* 模拟生成的交易 */}
+          {output?.message && (
+            <SimulationPanel
+              key={output.message.base64}
+              serializedTransaction={output.message.base64}
+              onSimulate={onSimulate}
+              loading={loading}
+              addressLabels={addressLabels}
+              onAddLabel={onAddLabel}
+              idlConfigs={idlConfigs}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { DecodedInstruction, AddressLabel, TokenAccountMarkers, AddressColorMap, IdlConfig } from '../types';
 import { getKnownProgramName, getAddressLabel } from '../utils/addressResolver';
+import { getInstructionElementId } from '../utils/logParser';
 import { AddressDisplay } from './AddressDisplay';
 
 interface InstructionCardProps {
@@ -16,6 +17,14 @@ interface InstructionCardProps {
   onSetAddressColor?: (address: string, color: string | null) => void;
   // IDL 配置（用于自动标签）
   idlConfigs?: IdlConfig[];
+  // 整笔交易的 CU 消耗（用于火焰图比例）
+  computeUnitsTotal?: number;
+  // 交易错误指向该指令
+  failed?: boolean;
+  // DOM id 前缀（同一页面存在多组指令时区分）
+  scope?: string;
+  // 从链上获取该 Program 的 IDL
+  onFetchIdl?: (programId: string) => void;
 }
 
 // 可折叠的 JSON 值组件
@@ -165,10 +174,16 @@ export function InstructionCard({
   addressColors,
   onSetAddressColor,
   idlConfigs,
+  computeUnitsTotal,
+  failed,
+  scope,
+  onFetchIdl,
 }: InstructionCardProps) {
   const [expanded, setExpanded] = useState(!isInner);
   const [showRawData, setShowRawData] = useState(false);
   const [showAllAccounts, setShowAllAccounts] = useState(false);
+  // 指令数据视图：本地解码 / 节点 jsonParsed
+  const [dataView, setDataView] = useState<'local' | 'rpc'>('local');
 
   // 优先级: 用户自定义标签 > IDL programId 标签 > 已知程序名称
   const resolvedLabel = getAddressLabel(instruction.programId, addressLabels, idlConfigs);
@@ -182,13 +197,31 @@ export function InstructionCard({
     ? instruction.accounts
     : instruction.accounts.slice(0, ACCOUNT_DISPLAY_LIMIT);
 
+  // CU 火焰图位置（相对整笔交易）
+  const showComputeBar =
+    instruction.computeUnits !== undefined && computeUnitsTotal !== undefined && computeUnitsTotal > 0;
+  const computeBarLeft = showComputeBar
+    ? ((instruction.computeUnitsOffset ?? 0) / computeUnitsTotal) * 100
+    : 0;
+  const computeBarWidth = showComputeBar
+    ? Math.max((instruction.computeUnits! / computeUnitsTotal) * 100, 0.5)
+    : 0;
+
+  // 本地未解码时默认展示节点解析结果
+  const rpcParsed = instruction.rpcParsed;
+  const rpcDiscrepancies = instruction.rpcDiscrepancies ?? [];
+  const activeDataView = rpcParsed && (dataView === 'rpc' || !instruction.data) ? 'rpc' : 'local';
+
   // 确定卡片样式（事件使用紫色主题）
   const isEvent = instruction.isEvent;
   
   return (
     <div
+      id={getInstructionElementId(index, isInner ? innerIndex : null, scope)}
       className={`border rounded-lg overflow-hidden ${
-        isEvent
+        failed
+          ? 'border-red-400 dark:border-red-600 ring-1 ring-red-400 dark:ring-red-600 bg-white dark:bg-gray-800'
+          : isEvent
           ? 'border-purple-300 dark:border-purple-700 bg-purple-50 dark:bg-purple-900/20'
           : isInner
           ? 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50'
@@ -237,17 +270,103 @@ export function InstructionCard({
           </span>
         )}
 
+        {instruction.extensionName && (
+          <span className="flex items-center gap-1 flex-shrink-0">
+            <span className="text-gray-400 text-xs">›</span>
+            <span className="px-2 py-0.5 text-xs font-medium bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded">
+              {instruction.extensionName}
+            </span>
+          </span>
+        )}
+
+        {instruction.idlRevision && (
+          <span
+            className={`px-1.5 py-0.5 text-[10px] font-medium rounded flex-shrink-0 ${
+              instruction.idlRevisionFallback
+                ? 'bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-300'
+                : 'bg-violet-100 dark:bg-violet-900 text-violet-700 dark:text-violet-300'
+            }`}
+            title={
+              instruction.idlRevisionFallback
+                ? `按 slot 选择的 IDL 版本解析失败，使用 "${instruction.idlRevision}" 解析成功`
+                : '按交易 slot 选择的 IDL 历史版本'
+            }
+          >
+            IDL {instruction.idlRevision}
+            {instruction.idlRevisionFallback && ' (回退)'}
+          </span>
+        )}
+
+        {instruction.isNative && (
+          <span
+            className="px-1.5 py-0.5 text-[10px] font-medium bg-teal-100 dark:bg-teal-900 text-teal-700 dark:text-teal-300 rounded flex-shrink-0"
+            title="由内置原生程序解码器解析"
+          >
+            NATIVE
+          </span>
+        )}
+
         <span className="text-xs text-gray-600 dark:text-gray-400 truncate" title={instruction.programId}>
           {programLabel || `${instruction.programId.slice(0, 8)}...`}
         </span>
 
-        {!instruction.data && !instruction.name && (
+        {rpcParsed && (
+          <span
+            className={`px-1.5 py-0.5 text-[10px] font-medium rounded flex-shrink-0 ${
+              rpcDiscrepancies.length > 0
+                ? 'bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-300'
+                : instruction.data
+                ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+                : 'bg-sky-100 dark:bg-sky-900 text-sky-700 dark:text-sky-300'
+            }`}
+            title={
+              rpcDiscrepancies.length > 0
+                ? rpcDiscrepancies.join('\n')
+                : instruction.data
+                ? '与 RPC jsonParsed 结果一致'
+                : '本地未解码，使用 RPC jsonParsed 结果'
+            }
+          >
+            {rpcDiscrepancies.length > 0
+              ? `RPC ≠ ${rpcDiscrepancies.length}`
+              : instruction.data
+              ? 'RPC ✓'
+              : 'RPC'}
+          </span>
+        )}
+
+        {failed && (
+          <span className="px-1.5 py-0.5 text-[10px] font-medium bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded flex-shrink-0">
+            FAILED
+          </span>
+        )}
+
+        {!instruction.data && !instruction.name && !rpcParsed && (
           <span className="px-2 py-0.5 text-xs bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 rounded flex-shrink-0">
             未解析
           </span>
         )}
+
+        {instruction.computeUnits !== undefined && (
+          <span className="ml-auto text-xs text-gray-500 dark:text-gray-400 font-mono flex-shrink-0">
+            {instruction.computeUnits.toLocaleString()} CU
+          </span>
+        )}
       </div>
 
+      {/* CU 火焰图 */}
+      {showComputeBar && (
+        <div
+          className="relative h-1 bg-gray-100 dark:bg-gray-700"
+          title={`${instruction.computeUnits!.toLocaleString()} / ${computeUnitsTotal!.toLocaleString()} CU`}
+        >
+          <div
+            className="absolute top-0 h-full bg-orange-400 dark:bg-orange-500"
+            style={{ left: `${computeBarLeft}%`, width: `${computeBarWidth}%` }}
+          />
+        </div>
+      )}
+
       {/* Body */}
       {expanded && (
         <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 space-y-3">
@@ -323,6 +442,38 @@ export function InstructionCard({
                           WRITABLE
                         </span>
                       )}
+                      {acc.lookupTable && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] bg-cyan-100 dark:bg-cyan-900 text-cyan-700 dark:text-cyan-300 rounded flex-shrink-0"
+                          title={`地址查找表 ${acc.lookupTable}[${acc.lookupIndex}]`}
+                        >
+                          ALT #{acc.lookupIndex}
+                        </span>
+                      )}
+                      {acc.pda?.status === 'match' && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 rounded flex-shrink-0 max-w-[200px] truncate"
+                          title={`seeds: ${acc.pda.seeds.join(', ')}\nbump: ${acc.pda.bump}`}
+                        >
+                          PDA ✓ (seeds: {acc.pda.seeds.join(', ')})
+                        </span>
+                      )}
+                      {acc.pda?.status === 'mismatch' && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded flex-shrink-0"
+                          title={`seeds: ${acc.pda.seeds.join(', ')}\n推导地址: ${acc.pda.expected}`}
+                        >
+                          PDA mismatch
+                        </span>
+                      )}
+                      {acc.pda?.status === 'unverifiable' && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 rounded flex-shrink-0"
+                          title={`无法校验 PDA: ${acc.pda.reason}`}
+                        >
+                          PDA ?
+                        </span>
+                      )}
                     </div>
                   );
                 })}
@@ -346,14 +497,42 @@ export function InstructionCard({
           )}
 
           {/* Instruction Data */}
-          {instruction.data && (
+          {(instruction.data || rpcParsed) && (
             <div>
-              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
-                Instruction Data
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                  Instruction Data
+                </span>
+                {rpcParsed && instruction.data && (
+                  <div className="flex gap-0.5 p-0.5 bg-gray-200 dark:bg-gray-700 rounded">
+                    {(['local', 'rpc'] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDataView(view);
+                        }}
+                        className={`px-1.5 py-0.5 text-[10px] rounded transition-colors ${
+                          activeDataView === view
+                            ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                            : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                        }`}
+                      >
+                        {view === 'local' ? '本地解码' : 'RPC jsonParsed'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {activeDataView === 'rpc' && rpcParsed && (
+                  <span className="text-[10px] text-gray-500 font-mono">
+                    {rpcParsed.program}
+                    {rpcParsed.type && ` · ${rpcParsed.type}`}
+                  </span>
+                )}
               </div>
               <div className="text-xs bg-gray-900 text-gray-100 p-3 rounded max-h-64 overflow-y-auto font-mono">
                 <JsonValue
-                  value={instruction.data}
+                  value={activeDataView === 'rpc' ? rpcParsed?.info : instruction.data}
                   addressLabels={addressLabels}
                   onAddLabel={onAddLabel}
                   defaultExpanded={true}
@@ -365,6 +544,20 @@ export function InstructionCard({
             </div>
           )}
 
+          {/* 与 RPC 解析结果的差异 */}
+          {rpcDiscrepancies.length > 0 && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <div className="text-xs font-medium text-amber-800 dark:text-amber-200 mb-1">
+                与 RPC jsonParsed 结果不一致 ({rpcDiscrepancies.length})
+              </div>
+              <ul className="text-xs text-amber-700 dark:text-amber-300 font-mono space-y-0.5">
+                {rpcDiscrepancies.map((d, i) => (
+                  <li key={i}>{d}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* 解析失败提示 */}
           {!instruction.data && instruction.decodeError && (
             <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
@@ -385,10 +578,21 @@ export function InstructionCard({
           )}
 
           {/* 无 IDL 提示 */}
-          {!instruction.data && !instruction.decodeError && !instruction.hasIdl && (
+          {!instruction.data && !instruction.decodeError && !instruction.hasIdl && !rpcParsed && (
             <div className="p-3 bg-gray-100 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
-              <div className="text-xs text-gray-600 dark:text-gray-400">
-                未配置该 Program 的 IDL，无法解析指令数据
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <span>未配置该 Program 的 IDL，无法解析指令数据</span>
+                {onFetchIdl && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onFetchIdl(instruction.programId);
+                    }}
+                    className="text-blue-600 dark:text-blue-400 hover:underline flex-shrink-0"
+                  >
+                    从链上获取 IDL
+                  </button>
+                )}
               </div>
             </div>
           )}
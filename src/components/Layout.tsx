@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import type { IdlConfig, AddressLabel } from '../types';
+import type { OnchainIdl } from '../utils/onchainIdl';
 import { RpcConfig } from './RpcConfig';
 import { IdlManager } from './IdlManager';
 import { AddressLabels } from './AddressLabels';
@@ -11,6 +12,7 @@ interface LayoutProps {
   onTestConnection: () => Promise<boolean>;
   idlConfigs: IdlConfig[];
   onIdlConfigsChange: (configs: IdlConfig[]) => void;
+  onFetchOnchainIdl?: (programId: string) => Promise<OnchainIdl | null>;
   addressLabels: AddressLabel[];
   onAddressLabelsChange: (labels: AddressLabel[]) => void;
   children: React.ReactNode;
@@ -22,6 +24,7 @@ export function Layout({
   onTestConnection,
   idlConfigs,
   onIdlConfigsChange,
+  onFetchOnchainIdl,
   addressLabels,
   onAddressLabelsChange,
   children,
@@ -125,6 +128,7 @@ export function Layout({
                   <IdlManager
                     idlConfigs={idlConfigs}
                     onIdlConfigsChange={onIdlConfigsChange}
+                    onFetchOnchainIdl={onFetchOnchainIdl}
                   />
                 </div>
               )}
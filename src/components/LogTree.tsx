@@ -0,0 +1,154 @@
+import { useState, useMemo } from 'react';
+import type { DecodedEvent, AddressLabel, IdlConfig } from '../types';
+import { getKnownProgramName, getAddressLabel } from '../utils/addressResolver';
+import { parseInvocationsFromLogs, getInstructionElementId } from '../utils/logParser';
+import type { LogInvocation } from '../utils/logParser';
+
+interface LogTreeProps {
+  logs: string[];
+  events: DecodedEvent[];
+  addressLabels: AddressLabel[];
+  idlConfigs?: IdlConfig[];
+  scope?: string; // 指令卡片 DOM id 前缀
+}
+
+// 滚动到对应的指令卡片
+const scrollToInstruction = (invocation: LogInvocation, scope?: string) => {
+  const id = getInstructionElementId(invocation.instructionIndex, invocation.innerIndex, scope);
+  document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+// 日志行颜色
+const getLogClassName = (log: string) => {
+  if (log.includes('Error') || log.includes('failed')) return 'text-red-400';
+  if (log.startsWith('Program data:')) return 'text-purple-300';
+  if (log.startsWith('Program return:')) return 'text-cyan-300';
+  return 'text-gray-300';
+};
+
+function LogTreeNode({
+  invocations,
+  index,
+  events,
+  addressLabels,
+  idlConfigs,
+  scope,
+}: {
+  invocations: LogInvocation[];
+  index: number;
+  events: DecodedEvent[];
+  addressLabels: AddressLabel[];
+  idlConfigs?: IdlConfig[];
+  scope?: string;
+}) {
+  const invocation = invocations[index];
+  const [expanded, setExpanded] = useState(invocation.depth === 1 || invocation.success === false);
+
+  const programLabel =
+    getAddressLabel(invocation.programId, addressLabels, idlConfigs) ||
+    getKnownProgramName(invocation.programId) ||
+    `${invocation.programId.slice(0, 8)}...`;
+  const position =
+    invocation.innerIndex === null
+      ? `#${invocation.instructionIndex}`
+      : `${invocation.instructionIndex}.${invocation.innerIndex}`;
+  const logCount = invocation.entries.filter((e) => e.type === 'log').length;
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-2 py-0.5 cursor-pointer hover:bg-gray-800 rounded px-1 -ml-1"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <svg
+          className={`w-3 h-3 text-gray-500 transition-transform flex-shrink-0 ${expanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-gray-500 flex-shrink-0">{position}</span>
+        <span className="text-blue-300 truncate" title={invocation.programId}>
+          {programLabel}
+        </span>
+        {invocation.success === true && <span className="text-green-400 flex-shrink-0">✓</span>}
+        {invocation.success === false && (
+          <span className="text-red-400 flex-shrink-0 truncate" title={invocation.error}>
+            ✗ {invocation.error}
+          </span>
+        )}
+        {invocation.computeUnits !== undefined && (
+          <span className="text-orange-300 flex-shrink-0">
+            {invocation.computeUnits.toLocaleString()} CU
+          </span>
+        )}
+        {!expanded && logCount > 0 && (
+          <span className="text-gray-500 flex-shrink-0">({logCount} logs)</span>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            scrollToInstruction(invocation, scope);
+          }}
+          className="ml-auto text-blue-400 hover:underline flex-shrink-0"
+          title="跳转到对应指令"
+        >
+          → 指令
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="ml-4 border-l border-gray-700 pl-2">
+          {invocation.entries.map((entry, i) => {
+            if (entry.type === 'invocation') {
+              return (
+                <LogTreeNode
+                  key={i}
+                  invocations={invocations}
+                  index={entry.index}
+                  events={events}
+                  addressLabels={addressLabels}
+                  idlConfigs={idlConfigs}
+                  scope={scope}
+                />
+              );
+            }
+            const event = entry.eventIndex !== undefined ? events[entry.eventIndex] : undefined;
+            return (
+              <div key={i} className={`whitespace-pre-wrap break-all ${getLogClassName(entry.text)}`}>
+                {event?.name && (
+                  <span className="mr-2 px-1 bg-purple-800 text-purple-200 rounded">{event.name}</span>
+                )}
+                {entry.text}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LogTree({ logs, events, addressLabels, idlConfigs, scope }: LogTreeProps) {
+  const invocations = useMemo(() => parseInvocationsFromLogs(logs), [logs]);
+  const roots = invocations
+    .map((invocation, index) => ({ invocation, index }))
+    .filter(({ invocation }) => invocation.parent === null);
+
+  return (
+    <div className="p-3 bg-gray-900 rounded-lg overflow-x-auto text-xs font-mono space-y-0.5">
+      {roots.map(({ index }) => (
+        <LogTreeNode
+          key={index}
+          invocations={invocations}
+          index={index}
+          events={events}
+          addressLabels={addressLabels}
+          idlConfigs={idlConfigs}
+          scope={scope}
+        />
+      ))}
+    </div>
+  );
+}
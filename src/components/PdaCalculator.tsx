@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import type { Idl } from '@coral-xyz/anchor';
+import type { AddressLabel, IdlConfig } from '../types';
+import { findIdlByProgramId } from '../utils/instructionDecoder';
+import { formatIdlType } from '../utils/instructionBuilder';
+import { derivePda, encodeSeedInput, findPdaTemplateMatches, formatSeedBytes } from '../utils/pda';
+import type { PdaTemplateMatch, SeedInput, SeedInputType } from '../utils/pda';
+import { AddressDisplay } from './AddressDisplay';
+
+interface PdaCalculatorProps {
+  idlConfigs: IdlConfig[];
+  addressLabels: AddressLabel[];
+  onAddLabel?: (address: string, label: string) => void;
+}
+
+// seed 输入行（idlArg 为 "指令名.参数名"）
+type SeedRow = SeedInput & { idlArg?: string };
+
+const SEED_TYPES: { value: SeedInputType; label: string }[] = [
+  { value: 'string', label: 'string' },
+  { value: 'pubkey', label: 'pubkey' },
+  { value: 'u8', label: 'u8' },
+  { value: 'u16', label: 'u16' },
+  { value: 'u32', label: 'u32' },
+  { value: 'u64', label: 'u64' },
+  { value: 'hex', label: 'hex' },
+  { value: 'idl', label: 'IDL 参数' },
+];
+
+const inputClassName =
+  'w-full px-2 py-1 text-xs font-mono border rounded bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export function PdaCalculator({ idlConfigs, addressLabels, onAddLabel }: PdaCalculatorProps) {
+  const [programId, setProgramId] = useState(idlConfigs[0]?.programIds[0] ?? '');
+  const [seeds, setSeeds] = useState<SeedRow[]>([{ type: 'string', value: '' }]);
+  const [target, setTarget] = useState('');
+  const [candidates, setCandidates] = useState('');
+  const [searchResult, setSearchResult] = useState<{
+    matches: PdaTemplateMatch[];
+    truncated: string[];
+  } | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const idlConfig = findIdlByProgramId(programId.trim(), idlConfigs);
+  const idl = idlConfig?.idl as Idl | undefined;
+  const idlArgs =
+    idl?.instructions.flatMap((ix) =>
+      ix.args.map((arg) => ({ key: `${ix.name}.${arg.name}`, type: arg.type }))
+    ) ?? [];
+
+  const updateSeed = (index: number, patch: Partial<SeedRow>) => {
+    setSeeds((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  // 实时计算每个 seed 的字节与 PDA
+  const encoded = seeds.map((seed) => {
+    try {
+      return { bytes: encodeSeedInput(seed), error: null };
+    } catch (e) {
+      return { bytes: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+  let derived: { address: string; bump: number } | null = null;
+  let deriveError: string | null = null;
+  if (programId.trim() && encoded.every((e) => e.bytes)) {
+    try {
+      derived = derivePda(encoded.map((e) => e.bytes!), programId.trim());
+    } catch (e) {
+      deriveError = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const handleSearch = () => {
+    setSearchError(null);
+    setSearchResult(null);
+    if (!idl) {
+      setSearchError('该 Program ID 没有对应的 IDL');
+      return;
+    }
+    const values = candidates
+      .split(/[\s,]+/)
+      .map((v) => v.trim())
+      .filter(Boolean);
+    try {
+      setSearchResult(findPdaTemplateMatches(idl, programId.trim(), target.trim(), values));
+    } catch (e) {
+      setSearchError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">PDA 计算</h2>
+
+      {/* Program ID */}
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Program ID
+          {idlConfig && <span className="ml-2 text-blue-600 dark:text-blue-400">{idlConfig.name}</span>}
+        </label>
+        <input
+          type="text"
+          list="pda-program-ids"
+          value={programId}
+          onChange={(e) => setProgramId(e.target.value)}
+          placeholder="程序地址"
+          className={inputClassName}
+        />
+        <datalist id="pda-program-ids">
+          {idlConfigs.flatMap((c) =>
+            c.programIds.map((id) => (
+              <option key={`${c.id}-${id}`} value={id}>
+                {c.name}
+              </option>
+            ))
+          )}
+        </datalist>
+      </div>
+
+      {/* Seeds */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Seeds ({seeds.length})</h3>
+        <div className="space-y-2">
+          {seeds.map((seed, i) => {
+            const isInt = ['u16', 'u32', 'u64'].includes(seed.type);
+            return (
+              <div key={i} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-400 w-6 flex-shrink-0">#{i}</span>
+                  <select
+                    value={seed.type}
+                    onChange={(e) => updateSeed(i, { type: e.target.value as SeedInputType })}
+                    className={`${inputClassName} w-28 flex-shrink-0`}
+                  >
+                    {SEED_TYPES.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                  {isInt && (
+                    <select
+                      value={seed.bigEndian ? 'be' : 'le'}
+                      onChange={(e) => updateSeed(i, { bigEndian: e.target.value === 'be' })}
+                      className={`${inputClassName} w-16 flex-shrink-0`}
+                    >
+                      <option value="le">LE</option>
+                      <option value="be">BE</option>
+                    </select>
+                  )}
+                  {seed.type === 'idl' && (
+                    <select
+                      value={seed.idlArg ?? ''}
+                      onChange={(e) => {
+                        const arg = idlArgs.find((a) => a.key === e.target.value);
+                        updateSeed(i, { idlArg: e.target.value, idlType: arg?.type });
+                      }}
+                      className={`${inputClassName} w-56 flex-shrink-0`}
+                    >
+                      <option value="">{idl ? '选择参数...' : '无对应 IDL'}</option>
+                      {idlArgs.map((arg) => (
+                        <option key={arg.key} value={arg.key}>
+                          {arg.key}: {formatIdlType(arg.type)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    value={seed.value}
+                    onChange={(e) => updateSeed(i, { value: e.target.value })}
+                    placeholder={seed.type === 'hex' ? '0x...' : seed.type}
+                    className={inputClassName}
+                  />
+                  <button
+                    onClick={() => setSeeds((prev) => prev.filter((_, j) => j !== i))}
+                    className="text-xs text-red-500 hover:text-red-700 flex-shrink-0"
+                  >
+                    删除
+                  </button>
+                </div>
+                <div className="ml-8 text-[10px] font-mono">
+                  {encoded[i].bytes ? (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {encoded[i].bytes!.length} bytes: {formatSeedBytes(encoded[i].bytes!)}
+                    </span>
+                  ) : (
+                    <span className="text-red-500">{encoded[i].error}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <button
+          onClick={() => setSeeds((prev) => [...prev, { type: 'string', value: '' }])}
+          disabled={seeds.length >= 16}
+          className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          + 添加 seed
+        </button>
+      </div>
+
+      {/* 推导结果 */}
+      {(derived || deriveError) && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">推导结果</h3>
+          {derived ? (
+            <div className="space-y-1 text-sm">
+              <AddressDisplay
+                address={derived.address}
+                addressLabels={addressLabels}
+                onAddLabel={onAddLabel}
+                idlConfigs={idlConfigs}
+              />
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">Bump:</span>
+                <span className="ml-2 font-mono">{derived.bump}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-red-600 dark:text-red-400">{deriveError}</div>
+          )}
+        </div>
+      )}
+
+      {/* 模板匹配 */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          匹配 IDL 中的 PDA 模板
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          将候选值代入 IDL 中各账户的 pda seeds，找出能推导出目标地址的模板
+        </p>
+        <input
+          type="text"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder="目标地址"
+          className={inputClassName}
+        />
+        <textarea
+          value={candidates}
+          onChange={(e) => setCandidates(e.target.value)}
+          placeholder="候选值（公钥、整数或字符串），每行一个"
+          rows={4}
+          className={inputClassName}
+        />
+        <button
+          onClick={handleSearch}
+          disabled={!target.trim() || !programId.trim()}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          查找
+        </button>
+
+        {searchError && <div className="text-sm text-red-600 dark:text-red-400">{searchError}</div>}
+        {searchResult && (
+          <div className="space-y-1 text-xs">
+            {searchResult.matches.length === 0 ? (
+              <div className="text-gray-500 dark:text-gray-400">未找到匹配的模板</div>
+            ) : (
+              searchResult.matches.map((match, i) => (
+                <div key={i} className="px-2 py-1.5 bg-green-50 dark:bg-green-900/30 rounded">
+                  <span className="font-medium text-green-700 dark:text-green-300">
+                    {match.template.instruction}.{match.template.account}
+                  </span>
+                  <span className="ml-2 font-mono text-gray-600 dark:text-gray-400">
+                    seeds: {match.seeds.join(', ')}
+                  </span>
+                  <span className="ml-2 text-gray-500">bump: {match.bump}</span>
+                </div>
+              ))
+            )}
+            {searchResult.truncated.length > 0 && (
+              <div className="text-yellow-600 dark:text-yellow-400">
+                组合过多已跳过（可减少候选值后重试）: {searchResult.truncated.join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useMemo } from 'react';
+import type { AddressLabel, IdlConfig, DecodedRawTransaction, SimulationResult } from '../types';
+import { decodeRawTransaction } from '../utils/rawTransaction';
+import { InstructionCard } from './InstructionCard';
+import { AddressDisplay } from './AddressDisplay';
+import { SimulationPanel } from './SimulationPanel';
+
+interface RawTransactionDecoderProps {
+  onFetchLookupTables: (addresses: string[]) => Promise<Map<string, string[]> | null>;
+  onSimulate: (serializedTransaction: string, accountAddresses?: string[]) => Promise<SimulationResult | null>;
+  loading: boolean;
+  error: string | null;
+  addressLabels: AddressLabel[];
+  onAddLabel?: (address: string, label: string) => void;
+  idlConfigs: IdlConfig[];
+}
+
+export function RawTransactionDecoder({
+  onFetchLookupTables,
+  onSimulate,
+  loading,
+  error,
+  addressLabels,
+  onAddLabel,
+  idlConfigs,
+}: RawTransactionDecoderProps) {
+  const [input, setInput] = useState('');
+  const [decodedInput, setDecodedInput] = useState('');
+  const [fetchLookupTables, setFetchLookupTables] = useState(false);
+  const [lookupTables, setLookupTables] = useState<Map<string, string[]> | undefined>();
+  const [showAccounts, setShowAccounts] = useState(true);
+
+  // 解码结果（IDL / 标签变化时自动重新解码）
+  const { decoded, decodeError } = useMemo((): {
+    decoded: DecodedRawTransaction | null;
+    decodeError: string | null;
+  } => {
+    if (!decodedInput) return { decoded: null, decodeError: null };
+    try {
+      return {
+        decoded: decodeRawTransaction(decodedInput, idlConfigs, addressLabels, lookupTables),
+        decodeError: null,
+      };
+    } catch (e) {
+      return { decoded: null, decodeError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [decodedInput, idlConfigs, addressLabels, lookupTables]);
+
+  const handleDecode = async () => {
+    const text = input.trim();
+    if (!text) return;
+    setLookupTables(undefined);
+    setDecodedInput(text);
+
+    // 用户选择获取查找表时才发起 RPC 请求
+    if (fetchLookupTables) {
+      try {
+        const preview = decodeRawTransaction(text, [], []);
+        const addresses = preview.addressTableLookups.map((lookup) => lookup.accountKey);
+        if (addresses.length > 0) {
+          const tables = await onFetchLookupTables(addresses);
+          if (tables) setLookupTables(tables);
+        }
+      } catch {
+        // 解码错误由 decodeError 展示
+      }
+    }
+  };
+
+  const unresolvedCount = decoded?.accounts.filter((account) => !account.resolved).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+        离线解码
+      </h2>
+
+      {/* 输入 */}
+      <div className="space-y-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="粘贴 base64 / base58 编码的交易或消息（legacy / v0）..."
+          rows={5}
+          className="w-full px-3 py-2 text-sm font-mono border rounded-lg bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-y break-all"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={fetchLookupTables}
+              onChange={(e) => setFetchLookupTables(e.target.checked)}
+              className="rounded"
+            />
+            通过 RPC 获取地址查找表
+          </label>
+          <button
+            onClick={handleDecode}
+            disabled={loading || !input.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? '获取中...' : '解码'}
+          </button>
+        </div>
+      </div>
+
+      {/* 错误提示 */}
+      {(decodeError || error) && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          {decodeError || error}
+        </div>
+      )}
+
+      {decoded && (
+        <div className="space-y-4">
+          {/* 基本信息 */}
+          <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+              {decoded.kind === 'transaction' ? '交易信息' : '消息信息'}
+            </h3>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">版本:</span>
+                <span className="ml-2 font-mono">{decoded.version === 'legacy' ? 'legacy' : `v${decoded.version}`}</span>
+              </div>
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">编码:</span>
+                <span className="ml-2 font-mono">{decoded.encoding}</span>
+              </div>
+              <div className="col-span-2">
+                <span className="text-gray-500 dark:text-gray-400">Recent Blockhash:</span>
+                <span className="ml-2 font-mono break-all">{decoded.recentBlockhash}</span>
+              </div>
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">所需签名:</span>
+                <span className="ml-2 font-mono">{decoded.header.numRequiredSignatures}</span>
+              </div>
+              {decoded.kind === 'transaction' && (
+                <div>
+                  <span className="text-gray-500 dark:text-gray-400">已签名:</span>
+                  <span className="ml-2 font-mono">
+                    {decoded.signatures.filter((sig) => sig !== null).length} / {decoded.signatures.length}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {decoded.signatures.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-1">
+                {decoded.signatures.map((sig, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs font-mono">
+                    <span className="text-gray-400 w-6">#{i}</span>
+                    {sig ? (
+                      <span className="break-all text-gray-700 dark:text-gray-300">{sig}</span>
+                    ) : (
+                      <span className="text-yellow-600 dark:text-yellow-400">未签名</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 地址查找表 */}
+          {decoded.addressTableLookups.length > 0 && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                地址查找表 ({decoded.addressTableLookups.length})
+                {unresolvedCount > 0 && (
+                  <span className="ml-2 text-xs font-normal text-yellow-600 dark:text-yellow-400">
+                    {unresolvedCount} 个地址未解析
+                  </span>
+                )}
+              </h3>
+              <div className="space-y-2 text-sm">
+                {decoded.addressTableLookups.map((lookup) => (
+                  <div key={lookup.accountKey}>
+                    <AddressDisplay
+                      address={lookup.accountKey}
+                      addressLabels={addressLabels}
+                      onAddLabel={onAddLabel}
+                      idlConfigs={idlConfigs}
+                    />
+                    <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">
+                      可写: [{lookup.writableIndexes.join(', ')}] 只读: [{lookup.readonlyIndexes.join(', ')}]
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 账户列表 */}
+          <div>
+            <button
+              onClick={() => setShowAccounts(!showAccounts)}
+              className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              <svg
+                className={`w-4 h-4 transition-transform ${showAccounts ? 'rotate-90' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              账户 ({decoded.accounts.length})
+            </button>
+
+            {showAccounts && (
+              <div className="mt-2 space-y-1">
+                {decoded.accounts.map((account, i) => (
+                  <div
+                    key={i}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-800 rounded"
+                  >
+                    <span className="text-xs text-gray-400 font-mono w-6 flex-shrink-0">{i}</span>
+                    {account.resolved ? (
+                      <AddressDisplay
+                        address={account.pubkey}
+                        addressLabels={addressLabels}
+                        onAddLabel={onAddLabel}
+                        idlConfigs={idlConfigs}
+                      />
+                    ) : (
+                      <span className="font-mono text-xs text-gray-400 italic">{account.pubkey}</span>
+                    )}
+                    <span className="ml-auto flex items-center gap-1 flex-shrink-0">
+                      {account.isSigner && (
+                        <span className="px-1.5 py-0.5 text-[10px] font-medium bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300 rounded">
+                          Signer
+                        </span>
+                      )}
+                      {account.isWritable && (
+                        <span className="px-1.5 py-0.5 text-[10px] font-medium bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300 rounded">
+                          Writable
+                        </span>
+                      )}
+                      {account.lookupTable && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] font-medium bg-cyan-100 dark:bg-cyan-900 text-cyan-700 dark:text-cyan-300 rounded"
+                          title={`${account.lookupTable}[${account.lookupIndex}]`}
+                        >
+                          ALT #{account.lookupIndex}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 指令列表 */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              指令 ({decoded.instructions.length})
+            </h3>
+            <div className="space-y-2">
+              {decoded.instructions.map((ix, index) => (
+                <InstructionCard
+                  key={index}
+                  instruction={ix}
+                  index={index}
+                  addressLabels={addressLabels}
+                  onAddLabel={onAddLabel}
+                  idlConfigs={idlConfigs}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* 交易模拟 */}
+          <SimulationPanel
+            key={decodedInput}
+            serializedTransaction={decodedInput}
+            onSimulate={onSimulate}
+            loading={loading}
+            addressLabels={addressLabels}
+            onAddLabel={onAddLabel}
+            idlConfigs={idlConfigs}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
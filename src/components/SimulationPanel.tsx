@@ -0,0 +1,257 @@
+import { useState, useMemo } from 'react';
+import type { SimulationResult, AddressLabel, IdlConfig } from '../types';
+import { InstructionCard } from './InstructionCard';
+import { EventCard } from './EventCard';
+import { AddressDisplay } from './AddressDisplay';
+import { LogTree } from './LogTree';
+import { TransactionErrorPanel } from './TransactionErrorPanel';
+
+interface SimulationPanelProps {
+  serializedTransaction: string; // base64 / base58 交易或消息
+  onSimulate: (serializedTransaction: string, accountAddresses?: string[]) => Promise<SimulationResult | null>;
+  loading: boolean;
+  addressLabels: AddressLabel[];
+  onAddLabel?: (address: string, label: string) => void;
+  idlConfigs: IdlConfig[];
+}
+
+// 模拟结果的指令卡片 DOM id 前缀（避免与查询结果冲突）
+const SIMULATION_SCOPE = 'simulation';
+
+export function SimulationPanel({
+  serializedTransaction,
+  onSimulate,
+  loading,
+  addressLabels,
+  onAddLabel,
+  idlConfigs,
+}: SimulationPanelProps) {
+  const [accountInput, setAccountInput] = useState('');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  const handleSimulate = async () => {
+    const addresses = accountInput
+      .split(/[\s,]+/)
+      .map((a) => a.trim())
+      .filter(Boolean);
+    setSimulating(true);
+    try {
+      setResult(await onSimulate(serializedTransaction, addresses));
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  // 顶层指令 CU 消耗合计（火焰图比例）
+  const computeUnitsTotal = useMemo(() => {
+    if (!result) return undefined;
+    const total = result.instructions.reduce((sum, ix) => sum + (ix.computeUnits ?? 0), 0);
+    return total > 0 ? total : undefined;
+  }, [result]);
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">交易模拟</h3>
+        <button
+          onClick={handleSimulate}
+          disabled={loading}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {simulating ? '模拟中...' : '模拟执行'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        通过 simulateTransaction 执行（替换 recent blockhash，不校验签名），不会发送交易
+      </p>
+      <textarea
+        value={accountInput}
+        onChange={(e) => setAccountInput(e.target.value)}
+        placeholder="需要返回模拟后状态的账户地址（可选，每行一个）"
+        rows={2}
+        className="w-full px-3 py-2 text-xs font-mono border rounded-lg bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-y"
+      />
+
+      {result && (
+        <div className="space-y-4 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">状态:</span>
+              <span
+                className={`ml-2 ${
+                  result.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                }`}
+              >
+                {result.success ? '成功' : '失败'}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Slot:</span>
+              <span className="ml-2 font-mono">{result.slot}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">CU 消耗:</span>
+              <span className="ml-2 font-mono">
+                {result.unitsConsumed !== null ? result.unitsConsumed.toLocaleString() : 'N/A'}
+              </span>
+            </div>
+          </div>
+
+          {result.error && (
+            <TransactionErrorPanel
+              error={result.error}
+              addressLabels={addressLabels}
+              idlConfigs={idlConfigs}
+              scope={SIMULATION_SCOPE}
+            />
+          )}
+
+          {/* 指令列表 */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              指令 ({result.instructions.length})
+            </h4>
+            <div className="space-y-2">
+              {result.instructions.map((ix, index) => {
+                const innerIxs = result.innerInstructions.find((inner) => inner.index === index);
+                return (
+                  <div key={index} className="space-y-2">
+                    <InstructionCard
+                      instruction={ix}
+                      index={index}
+                      addressLabels={addressLabels}
+                      onAddLabel={onAddLabel}
+                      idlConfigs={idlConfigs}
+                      computeUnitsTotal={computeUnitsTotal}
+                      failed={result.error?.instructionIndex === index}
+                      scope={SIMULATION_SCOPE}
+                    />
+                    {innerIxs && innerIxs.instructions.length > 0 && (
+                      <div className="ml-6 space-y-2">
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          内部指令 ({innerIxs.instructions.length})
+                        </div>
+                        {innerIxs.instructions.map((innerIx, innerIndex) => (
+                          <InstructionCard
+                            key={innerIndex}
+                            instruction={innerIx}
+                            index={index}
+                            innerIndex={innerIndex}
+                            addressLabels={addressLabels}
+                            onAddLabel={onAddLabel}
+                            isInner
+                            idlConfigs={idlConfigs}
+                            computeUnitsTotal={computeUnitsTotal}
+                            failed={
+                              result.error?.instructionIndex === index &&
+                              result.error.innerIndex === innerIndex
+                            }
+                            scope={SIMULATION_SCOPE}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 事件列表 */}
+          {result.events.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                事件 ({result.events.length})
+              </h4>
+              <div className="space-y-2">
+                {result.events.map((event, index) => (
+                  <EventCard
+                    key={index}
+                    event={event}
+                    index={index}
+                    addressLabels={addressLabels}
+                    onAddLabel={onAddLabel}
+                    idlConfigs={idlConfigs}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 返回数据 */}
+          {result.returnData && (
+            <div className="text-sm">
+              <span className="text-gray-500 dark:text-gray-400">返回数据:</span>
+              <span className="ml-2 text-xs text-gray-500" title={result.returnData.programId}>
+                {result.returnData.programId.slice(0, 8)}...
+              </span>
+              <span className="ml-2 font-mono text-xs break-all">{result.returnData.data}</span>
+            </div>
+          )}
+
+          {/* 模拟后的账户状态 */}
+          {result.accounts.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                模拟后账户状态 ({result.accounts.length})
+              </h4>
+              <div className="space-y-2">
+                {result.accounts.map((account, i) =>
+                  account ? (
+                    <div
+                      key={i}
+                      className="p-3 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm space-y-2"
+                    >
+                      <div className="flex items-center gap-2">
+                        <AddressDisplay
+                          address={account.address}
+                          addressLabels={addressLabels}
+                          onAddLabel={onAddLabel}
+                          idlConfigs={idlConfigs}
+                        />
+                        {account.accountType && (
+                          <span className="px-2 py-0.5 text-xs font-medium bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded">
+                            {account.accountType}
+                          </span>
+                        )}
+                        <span className="ml-auto text-xs font-mono text-gray-500">
+                          {(account.lamports / 1e9).toFixed(9)} SOL · {account.dataSize} bytes
+                        </span>
+                      </div>
+                      {account.parsedData && (
+                        <pre className="p-2 bg-gray-50 dark:bg-gray-800 rounded text-xs font-mono overflow-x-auto">
+                          {JSON.stringify(account.parsedData, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  ) : (
+                    <div key={i} className="px-3 py-2 text-xs text-gray-500 bg-white dark:bg-gray-900 rounded-lg">
+                      账户 #{i} 不存在
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* 日志 */}
+          {result.logs.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                日志 ({result.logs.length})
+              </h4>
+              <LogTree
+                logs={result.logs}
+                events={result.events}
+                addressLabels={addressLabels}
+                idlConfigs={idlConfigs}
+                scope={SIMULATION_SCOPE}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import type { DecodedTransactionError, AddressLabel, IdlConfig } from '../types';
+import { getKnownProgramName, getAddressLabel } from '../utils/addressResolver';
+import { getInstructionElementId } from '../utils/logParser';
+
+interface TransactionErrorPanelProps {
+  error: DecodedTransactionError;
+  addressLabels: AddressLabel[];
+  idlConfigs?: IdlConfig[];
+  scope?: string; // 指令卡片 DOM id 前缀
+}
+
+// 错误名称来源说明
+const SOURCE_LABELS: Record<DecodedTransactionError['source'], string> = {
+  idl: 'IDL',
+  native: '原生程序',
+  anchor: 'Anchor',
+  runtime: '运行时',
+  unknown: '未知',
+};
+
+export function TransactionErrorPanel({ error, addressLabels, idlConfigs, scope }: TransactionErrorPanelProps) {
+  const programLabel = error.programId
+    ? getAddressLabel(error.programId, addressLabels, idlConfigs) ||
+      getKnownProgramName(error.programId) ||
+      `${error.programId.slice(0, 8)}...`
+    : null;
+
+  const position =
+    error.instructionIndex === null
+      ? null
+      : error.innerIndex === null
+      ? `#${error.instructionIndex}`
+      : `${error.instructionIndex}.${error.innerIndex}`;
+
+  // 滚动到失败的指令卡片
+  const scrollToInstruction = () => {
+    if (error.instructionIndex === null) return;
+    document
+      .getElementById(getInstructionElementId(error.instructionIndex, error.innerIndex, scope))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-sm font-medium text-red-700 dark:text-red-300">交易错误</h3>
+        <span className="px-1.5 py-0.5 text-[10px] font-medium bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded">
+          {SOURCE_LABELS[error.source]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="text-gray-500 dark:text-gray-400">错误:</span>
+          <span className="ml-2 font-mono font-medium text-red-600 dark:text-red-400">{error.name}</span>
+          {error.code !== null && (
+            <span className="ml-2 text-xs text-gray-500 font-mono">
+              ({error.code} / 0x{error.code.toString(16)})
+            </span>
+          )}
+        </div>
+        {position && (
+          <div>
+            <span className="text-gray-500 dark:text-gray-400">失败指令:</span>
+            <button
+              onClick={scrollToInstruction}
+              className="ml-2 font-mono text-blue-600 dark:text-blue-400 hover:underline"
+              title="跳转到对应指令"
+            >
+              {position}
+            </button>
+            {programLabel && (
+              <span className="ml-2 text-gray-600 dark:text-gray-400" title={error.programId ?? undefined}>
+                {programLabel}
+              </span>
+            )}
+          </div>
+        )}
+        {error.message && (
+          <div className="col-span-2">
+            <span className="text-gray-500 dark:text-gray-400">信息:</span>
+            <span className="ml-2 text-gray-700 dark:text-gray-300">{error.message}</span>
+          </div>
+        )}
+        <div className="col-span-2">
+          <span className="text-gray-500 dark:text-gray-400">原始错误:</span>
+          <span className="ml-2 font-mono text-xs text-gray-500 break-all">{error.raw}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
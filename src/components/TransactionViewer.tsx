@@ -1,11 +1,20 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import type { ParsedTransaction, AddressLabel, IdlConfig, TokenAccountMarkers, AddressColorMap } from '../types';
+import type { ParsedTransaction, AddressLabel, IdlConfig, TokenAccountMarkers, AddressColorMap, SimulationResult, RpcParsedInstructions } from '../types';
 import { InstructionCard } from './InstructionCard';
 import { EventCard } from './EventCard';
 import { AddressDisplay } from './AddressDisplay';
+import { ComputeBudgetPanel } from './ComputeBudgetPanel';
+import { LogTree } from './LogTree';
+import { TransactionErrorPanel } from './TransactionErrorPanel';
+import { SimulationPanel } from './SimulationPanel';
+import { attachRpcParsed } from '../utils/rpcCrossCheck';
 
 interface TransactionViewerProps {
   onQuery: (signature: string) => Promise<ParsedTransaction | null>;
+  onSimulate?: (serializedTransaction: string, accountAddresses?: string[]) => Promise<SimulationResult | null>;
+  onFetchRpcParsed?: (signature: string) => Promise<RpcParsedInstructions | null>;
+  onInspectAccount?: (address: string) => void; // 跳转到账户查询
+  onFetchIdl?: (programId: string) => void; // 从链上获取 IDL
   loading: boolean;
   error: string | null;
   addressLabels: AddressLabel[];
@@ -14,10 +23,15 @@ interface TransactionViewerProps {
   history: string[];
   onAddHistory: (signature: string) => void;
   onClearHistory: () => void;
+  onQueryStart?: () => void; // 用户发起新的查询
 }
 
 export function TransactionViewer({
   onQuery,
+  onSimulate,
+  onFetchRpcParsed,
+  onInspectAccount,
+  onFetchIdl,
   loading,
   error,
   addressLabels,
@@ -26,10 +40,12 @@ export function TransactionViewer({
   history,
   onAddHistory,
   onClearHistory,
+  onQueryStart,
 }: TransactionViewerProps) {
   const [signature, setSignature] = useState('');
   const [transaction, setTransaction] = useState<ParsedTransaction | null>(null);
   const [showLogs, setShowLogs] = useState(false);
+  const [logView, setLogView] = useState<'tree' | 'raw'>('tree');
   const [showHistory, setShowHistory] = useState(false);
   const [showBalances, setShowBalances] = useState(false);
   const [showTokenBalances, setShowTokenBalances] = useState(false);
@@ -40,6 +56,7 @@ export function TransactionViewer({
   // 保存当前查询的签名，用于 IDL 变化时重新解析
   const currentSignatureRef = useRef<string | null>(null);
   const prevIdlConfigsLengthRef = useRef(idlConfigs.length);
+  const pendingRedecodeRef = useRef(false);
 
   // 设置地址颜色的回调
   const handleSetAddressColor = useCallback((address: string, color: string | null) => {
@@ -62,21 +79,27 @@ export function TransactionViewer({
   // 当 IDL 配置变化时，自动重新解析当前交易
   useEffect(() => {
     // 只在 IDL 数量增加时触发重新解析（新添加了 IDL）
-    if (idlConfigs.length > prevIdlConfigsLengthRef.current && currentSignatureRef.current && !loading) {
+    // 添加时可能仍在加载（如从链上获取 IDL），先记下，加载结束后再解析
+    if (idlConfigs.length > prevIdlConfigsLengthRef.current) {
+      pendingRedecodeRef.current = true;
+    }
+    prevIdlConfigsLengthRef.current = idlConfigs.length;
+    if (pendingRedecodeRef.current && currentSignatureRef.current && !loading) {
+      pendingRedecodeRef.current = false;
       const sig = currentSignatureRef.current;
       onQuery(sig).then((result) => {
-        if (result) {
+        if (result && currentSignatureRef.current === sig) {
           setTransaction(result);
         }
       });
     }
-    prevIdlConfigsLengthRef.current = idlConfigs.length;
   }, [idlConfigs.length, onQuery, loading]);
 
   const handleQuery = async () => {
     if (!signature.trim()) return;
     const sig = signature.trim();
     currentSignatureRef.current = sig;
+    onQueryStart?.();
     // 查询新交易时清除颜色高亮
     setAddressColors(new Map());
     const result = await onQuery(sig);
@@ -90,10 +113,22 @@ export function TransactionViewer({
     setSignature(sig);
     setShowHistory(false);
     currentSignatureRef.current = sig;
+    onQueryStart?.();
     const result = await onQuery(sig);
     setTransaction(result);
   };
 
+  // 获取节点的 jsonParsed 结果并与本地解码对比
+  const handleCrossCheck = async () => {
+    if (!transaction || !onFetchRpcParsed) return;
+    const parsed = await onFetchRpcParsed(transaction.signature);
+    if (parsed) {
+      setTransaction((current) =>
+        current?.signature === transaction.signature ? attachRpcParsed(current, parsed) : current
+      );
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleQuery();
@@ -137,6 +172,13 @@ export function TransactionViewer({
     return { mints, tokenAccounts, mintToTokenAccounts };
   }, [transaction]);
 
+  // 顶层指令 CU 消耗合计（火焰图比例）
+  const computeUnitsTotal = useMemo(() => {
+    if (!transaction) return undefined;
+    const total = transaction.instructions.reduce((sum, ix) => sum + (ix.computeUnits ?? 0), 0);
+    return total > 0 ? total : undefined;
+  }, [transaction]);
+
   // 格式化 SOL 余额
   const formatSol = (lamports: number) => {
     return (lamports / 1e9).toFixed(9);
@@ -302,6 +344,84 @@ export function TransactionViewer({
             </div>
           </div>
 
+          {/* 交易错误 */}
+          {transaction.error && (
+            <TransactionErrorPanel
+              error={transaction.error}
+              addressLabels={addressLabels}
+              idlConfigs={idlConfigs}
+            />
+          )}
+
+          {/* Compute Budget 分析 */}
+          <ComputeBudgetPanel transaction={transaction} />
+
+          {/* 地址查找表 */}
+          {transaction.addressTableLookups.length > 0 && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                Address Lookup Tables ({transaction.addressTableLookups.length})
+              </h3>
+              <div className="space-y-3">
+                {transaction.addressTableLookups.map((lookup) => (
+                  <div key={lookup.accountKey}>
+                    <div className="flex items-center gap-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <AddressDisplay
+                          address={lookup.accountKey}
+                          addressLabels={addressLabels}
+                          onAddLabel={onAddLabel}
+                          addressColors={addressColors}
+                          onSetAddressColor={handleSetAddressColor}
+                          idlConfigs={idlConfigs}
+                        />
+                      </div>
+                      {onInspectAccount && (
+                        <button
+                          onClick={() => onInspectAccount(lookup.accountKey)}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline flex-shrink-0"
+                        >
+                          查看查找表 →
+                        </button>
+                      )}
+                    </div>
+                    <div className="mt-1 ml-4 space-y-0.5">
+                      {transaction.accounts.map((account, idx) =>
+                        account.lookupTable === lookup.accountKey ? (
+                          <div key={idx} className="flex items-center gap-2 text-xs">
+                            <span className="text-gray-400 font-mono w-12 flex-shrink-0">[{account.lookupIndex}]</span>
+                            <div className="flex-1 min-w-0">
+                              <AddressDisplay
+                                address={account.pubkey}
+                                addressLabels={addressLabels}
+                                onAddLabel={onAddLabel}
+                                addressColors={addressColors}
+                                onSetAddressColor={handleSetAddressColor}
+                                idlConfigs={idlConfigs}
+                              />
+                            </div>
+                            <span className="text-gray-400 flex-shrink-0" title="在交易账户列表中的位置">
+                              #{idx}
+                            </span>
+                            <span
+                              className={`px-1.5 py-0.5 text-[10px] rounded flex-shrink-0 ${
+                                account.isWritable
+                                  ? 'bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300'
+                                  : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                              }`}
+                            >
+                              {account.isWritable ? 'WRITABLE' : 'READONLY'}
+                            </span>
+                          </div>
+                        ) : null
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* SOL 余额变化 */}
           {transaction.preBalances.length > 0 && (
             <div>
@@ -337,10 +457,12 @@ export function TransactionViewer({
                         const post = transaction.postBalances[idx];
                         const change = getBalanceChange(pre, post);
                         const account = transaction.accountKeys[idx];
+                        const source = transaction.accounts[idx];
                         return (
                           <tr key={idx} className="hover:bg-gray-50 dark:hover:bg-gray-800">
                             <td className="px-2 py-1.5 text-gray-400">{idx}</td>
                             <td className="px-2 py-1.5">
+                            <div className="flex items-center gap-2">
                             <AddressDisplay
                               address={account}
                               addressLabels={addressLabels}
@@ -349,6 +471,15 @@ export function TransactionViewer({
                               onSetAddressColor={handleSetAddressColor}
                               idlConfigs={idlConfigs}
                             />
+                            {source?.lookupTable && (
+                              <span
+                                className="px-1.5 py-0.5 text-[10px] bg-cyan-100 dark:bg-cyan-900 text-cyan-700 dark:text-cyan-300 rounded flex-shrink-0"
+                                title={`地址查找表 ${source.lookupTable}[${source.lookupIndex}]`}
+                              >
+                                ALT #{source.lookupIndex}
+                              </span>
+                            )}
+                            </div>
                             </td>
                             <td className="px-2 py-1.5 text-right font-mono">{formatSol(pre)}</td>
                             <td className="px-2 py-1.5 text-right font-mono">{formatSol(post)}</td>
@@ -496,9 +627,21 @@ export function TransactionViewer({
 
           {/* 指令列表 */}
           <div>
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              指令 ({transaction.instructions.length})
-            </h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                指令 ({transaction.instructions.length})
+              </h3>
+              {onFetchRpcParsed && (
+                <button
+                  onClick={handleCrossCheck}
+                  disabled={loading}
+                  className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors disabled:opacity-50"
+                  title="获取节点 jsonParsed 结果，与本地解码逐字段对比"
+                >
+                  RPC 交叉校验
+                </button>
+              )}
+            </div>
             <div className="space-y-2">
               {transaction.instructions.map((ix, index) => {
                 // 查找对应的内部指令
@@ -517,6 +660,9 @@ export function TransactionViewer({
                       addressColors={addressColors}
                       onSetAddressColor={handleSetAddressColor}
                       idlConfigs={idlConfigs}
+                      computeUnitsTotal={computeUnitsTotal}
+                      failed={transaction.error?.instructionIndex === index}
+                      onFetchIdl={onFetchIdl}
                     />
 
                     {/* 内部指令 */}
@@ -538,6 +684,12 @@ export function TransactionViewer({
                             addressColors={addressColors}
                             onSetAddressColor={handleSetAddressColor}
                             idlConfigs={idlConfigs}
+                            computeUnitsTotal={computeUnitsTotal}
+                            failed={
+                              transaction.error?.instructionIndex === index &&
+                              transaction.error.innerIndex === innerIndex
+                            }
+                            onFetchIdl={onFetchIdl}
                           />
                         ))}
                       </div>
@@ -597,27 +749,67 @@ export function TransactionViewer({
               </button>
 
               {showLogs && (
-                <div className="mt-2 p-3 bg-gray-900 rounded-lg overflow-x-auto">
-                  <pre className="text-xs text-gray-300 font-mono whitespace-pre-wrap">
-                    {transaction.logs.map((log, i) => (
-                      <div
-                        key={i}
-                        className={`${
-                          log.includes('Error') || log.includes('failed')
-                            ? 'text-red-400'
-                            : log.includes('success')
-                            ? 'text-green-400'
-                            : ''
+                <div className="mt-2 space-y-2">
+                  <div className="flex gap-1 p-0.5 bg-gray-200 dark:bg-gray-700 rounded w-fit">
+                    {(['tree', 'raw'] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setLogView(view)}
+                        className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                          logView === view
+                            ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                            : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
                         }`}
                       >
-                        {log}
-                      </div>
+                        {view === 'tree' ? '调用树' : '原始日志'}
+                      </button>
                     ))}
-                  </pre>
+                  </div>
+
+                  {logView === 'tree' ? (
+                    <LogTree
+                      logs={transaction.logs}
+                      events={transaction.events}
+                      addressLabels={addressLabels}
+                      idlConfigs={idlConfigs}
+                    />
+                  ) : (
+                    <div className="p-3 bg-gray-900 rounded-lg overflow-x-auto">
+                      <pre className="text-xs text-gray-300 font-mono whitespace-pre-wrap">
+                        {transaction.logs.map((log, i) => (
+                          <div
+                            key={i}
+                            className={`${
+                              log.includes('Error') || log.includes('failed')
+                                ? 'text-red-400'
+                                : log.includes('success')
+                                ? 'text-green-400'
+                                : ''
+                            }`}
+                          >
+                            {log}
+                          </div>
+                        ))}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           )}
+
+          {/* 交易模拟 */}
+          {onSimulate && transaction.rawTransaction && (
+            <SimulationPanel
+              key={transaction.signature}
+              serializedTransaction={transaction.rawTransaction}
+              onSimulate={onSimulate}
+              loading={loading}
+              addressLabels={addressLabels}
+              onAddLabel={onAddLabel}
+              idlConfigs={idlConfigs}
+            />
+          )}
         </div>
       )}
 
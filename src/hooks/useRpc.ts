@@ -6,8 +6,11 @@ import type {
   AddressLabel,
   ParsedTransaction,
   ParsedAccountData,
+  DecodedInstruction,
   DecodedInnerInstruction,
   TokenBalance,
+  SimulationResult,
+  RpcParsedInstructions,
 } from '../types';
 import {
   parseInstruction,
@@ -15,6 +18,21 @@ import {
   serializeBigInt,
   parseEventsFromLogs,
 } from '../utils/instructionDecoder';
+import { buildTokenDecimalsMap } from '../utils/tokenProgramDecoder';
+import { attachComputeUnits, parseInvocationsFromLogs } from '../utils/logParser';
+import { decodeTransactionError } from '../utils/transactionError';
+import { toRpcParsedInstruction } from '../utils/rpcCrossCheck';
+import { collectRpcParsedDecimals, rebuildRpcParsedInstruction } from '../utils/rpcParsedInstruction';
+import { BPF_LOADER_UPGRADEABLE_PROGRAM_ID, decodeBpfLoaderAccount } from '../utils/bpfLoaderDecoder';
+import { decodeOnchainIdl, getAnchorIdlAddress, getMetadataIdlAddress } from '../utils/onchainIdl';
+import type { ConfirmIdlUrl, OnchainIdl } from '../utils/onchainIdl';
+import {
+  annotateLookupAccounts,
+  decodeRawTransaction,
+  resolveMessageAccounts,
+  serializeTransaction,
+  toVersionedTransaction,
+} from '../utils/rawTransaction';
 
 interface UseRpcOptions {
   rpcUrl: string;
@@ -28,9 +46,34 @@ interface UseRpcReturn {
   error: string | null;
   getTransaction: (signature: string) => Promise<ParsedTransaction | null>;
   getAccountInfo: (address: string) => Promise<ParsedAccountData | null>;
+  getAddressLookupTables: (addresses: string[]) => Promise<Map<string, string[]> | null>;
+  fetchOnchainIdl: (programId: string, confirmUrl?: ConfirmIdlUrl) => Promise<OnchainIdl | null>;
+  simulateTransaction: (
+    serializedTransaction: string,
+    accountAddresses?: string[]
+  ) => Promise<SimulationResult | null>;
+  getLatestBlockhash: () => Promise<string | null>;
+  getRpcParsedInstructions: (signature: string) => Promise<RpcParsedInstructions | null>;
   testConnection: () => Promise<boolean>;
 }
 
+/**
+ * 获取地址查找表内容：表地址 -> 地址列表（不存在的表会被忽略）
+ */
+async function fetchLookupTables(
+  connection: Connection,
+  addresses: string[]
+): Promise<Map<string, string[]>> {
+  const tables = new Map<string, string[]>();
+  for (const address of addresses) {
+    const { value } = await connection.getAddressLookupTable(new PublicKey(address));
+    if (value) {
+      tables.set(address, value.state.addresses.map((k) => k.toBase58()));
+    }
+  }
+  return tables;
+}
+
 export function useRpc({
   rpcUrl,
   idlConfigs,
@@ -94,28 +137,53 @@ export function useRpc({
           return null;
         }
 
-        // 获取账户密钥列表
+        // 获取账户密钥列表（v0 交易的查找表账户使用节点返回的 loadedAddresses）
         const message = tx.transaction.message;
-        const accountKeys: string[] = [];
-
-        // 静态账户
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const msg = message as any;
-        if ('staticAccountKeys' in message) {
-          const staticKeys = msg.staticAccountKeys as PublicKey[];
-          accountKeys.push(...staticKeys.map((k: PublicKey) => k.toBase58()));
-        } else if ('accountKeys' in message) {
-          const keys = msg.accountKeys as PublicKey[];
-          accountKeys.push(...keys.map((k: PublicKey) => k.toBase58()));
-        }
+        const loadedAddresses = tx.meta?.loadedAddresses;
+        const { accounts, addressTableLookups } = resolveMessageAccounts(
+          message,
+          undefined,
+          loadedAddresses
+            ? {
+                writable: loadedAddresses.writable.map((k) => k.toBase58()),
+                readonly: loadedAddresses.readonly.map((k) => k.toBase58()),
+              }
+            : undefined
+        );
+        const accountKeys = accounts.map((account) => account.pubkey);
 
-        // 地址查找表账户（v0 交易）
-        if (tx.meta?.loadedAddresses) {
-          accountKeys.push(
-            ...tx.meta.loadedAddresses.writable.map((k) => k.toBase58()),
-            ...tx.meta.loadedAddresses.readonly.map((k) => k.toBase58())
-          );
-        }
+        // 提取 token balances
+        const preTokenBalances: TokenBalance[] = (tx.meta?.preTokenBalances || []).map((tb) => ({
+          accountIndex: tb.accountIndex,
+          mint: tb.mint,
+          owner: tb.owner,
+          programId: tb.programId,
+          uiTokenAmount: {
+            amount: tb.uiTokenAmount.amount,
+            decimals: tb.uiTokenAmount.decimals,
+            uiAmount: tb.uiTokenAmount.uiAmount,
+            uiAmountString: tb.uiTokenAmount.uiAmountString,
+          },
+        }));
+
+        const postTokenBalances: TokenBalance[] = (tx.meta?.postTokenBalances || []).map((tb) => ({
+          accountIndex: tb.accountIndex,
+          mint: tb.mint,
+          owner: tb.owner,
+          programId: tb.programId,
+          uiTokenAmount: {
+            amount: tb.uiTokenAmount.amount,
+            decimals: tb.uiTokenAmount.decimals,
+            uiAmount: tb.uiTokenAmount.uiAmount,
+            uiAmountString: tb.uiTokenAmount.uiAmountString,
+          },
+        }));
+
+        // Token 数量按 mint decimals 缩放
+        const tokenDecimals = buildTokenDecimalsMap(
+          [...preTokenBalances, ...postTokenBalances],
+          accountKeys
+        );
 
         // 解析指令
         // compiledInstructions 的 data 是 Uint8Array，需要转成 base58
@@ -129,7 +197,10 @@ export function useRpc({
             accountKeys,
             ix.accountKeyIndexes,
             idlConfigsRef.current,
-            addressLabelsRef.current
+            addressLabelsRef.current,
+            false,
+            tokenDecimals,
+            tx.slot
           );
         });
 
@@ -152,7 +223,9 @@ export function useRpc({
                   ix.accounts,
                   idlConfigsRef.current,
                   addressLabelsRef.current,
-                  true // tryParseAsEvent
+                  true, // tryParseAsEvent
+                  tokenDecimals,
+                  tx.slot
                 );
               }),
             };
@@ -160,45 +233,38 @@ export function useRpc({
           }
         }
 
-        // 提取 token balances
-        const preTokenBalances: TokenBalance[] = (tx.meta?.preTokenBalances || []).map((tb) => ({
-          accountIndex: tb.accountIndex,
-          mint: tb.mint,
-          owner: tb.owner,
-          programId: tb.programId,
-          uiTokenAmount: {
-            amount: tb.uiTokenAmount.amount,
-            decimals: tb.uiTokenAmount.decimals,
-            uiAmount: tb.uiTokenAmount.uiAmount,
-            uiAmountString: tb.uiTokenAmount.uiAmountString,
-          },
-        }));
-
-        const postTokenBalances: TokenBalance[] = (tx.meta?.postTokenBalances || []).map((tb) => ({
-          accountIndex: tb.accountIndex,
-          mint: tb.mint,
-          owner: tb.owner,
-          programId: tb.programId,
-          uiTokenAmount: {
-            amount: tb.uiTokenAmount.amount,
-            decimals: tb.uiTokenAmount.decimals,
-            uiAmount: tb.uiTokenAmount.uiAmount,
-            uiAmountString: tb.uiTokenAmount.uiAmountString,
-          },
-        }));
-
         // 从日志中解析事件（CPI 事件已在内部指令解析时处理）
         const logMessages = tx.meta?.logMessages || [];
-        const events = parseEventsFromLogs(logMessages, idlConfigsRef.current);
+        const events = parseEventsFromLogs(logMessages, idlConfigsRef.current, tx.slot);
+
+        // 将日志中的 CU 消耗关联到各条指令，并标注查找表账户来源
+        const withComputeUnits = attachComputeUnits(
+          instructions,
+          innerInstructions,
+          parseInvocationsFromLogs(logMessages)
+        );
+        const annotated = annotateLookupAccounts(
+          withComputeUnits.instructions,
+          withComputeUnits.innerInstructions,
+          accounts
+        );
 
         const result: ParsedTransaction = {
           signature,
           slot: tx.slot,
           blockTime: tx.blockTime ?? null,
           success: tx.meta?.err === null,
+          error: decodeTransactionError(
+            tx.meta?.err ?? null,
+            instructions,
+            logMessages,
+            idlConfigsRef.current,
+            tx.slot
+          ),
           fee: tx.meta?.fee || 0,
-          instructions,
-          innerInstructions,
+          signatureCount: tx.transaction.signatures.length,
+          instructions: annotated.instructions,
+          innerInstructions: annotated.innerInstructions,
           events,
           logs: logMessages,
           preBalances: tx.meta?.preBalances || [],
@@ -206,6 +272,9 @@ export function useRpc({
           preTokenBalances,
           postTokenBalances,
           accountKeys,
+          accounts,
+          addressTableLookups,
+          rawTransaction: serializeTransaction(message, tx.transaction.signatures),
         };
 
         return serializeBigInt(result) as ParsedTransaction;
@@ -240,11 +309,18 @@ export function useRpc({
         }
 
         const owner = accountInfo.owner.toBase58();
-        const { accountType, data: parsedData } = decodeAccountData(
-          owner,
-          accountInfo.data,
-          idlConfigsRef.current
-        );
+        const decoded = decodeAccountData(owner, accountInfo.data, idlConfigsRef.current);
+        const { accountType } = decoded;
+        let parsedData = decoded.data;
+
+        // 可升级程序：继续读取 ProgramData 账户（升级权限、部署 slot、ELF）
+        if (owner === BPF_LOADER_UPGRADEABLE_PROGRAM_ID && accountType === 'Program' && parsedData) {
+          const programDataInfo = await connection.getAccountInfo(
+            new PublicKey(parsedData.programDataAddress as string)
+          );
+          const programData = programDataInfo ? decodeBpfLoaderAccount(programDataInfo.data) : null;
+          parsedData = { ...parsedData, programData: programData?.data ?? null };
+        }
 
         const result: ParsedAccountData = {
           address,
@@ -272,12 +348,303 @@ export function useRpc({
     [connection]
   );
 
+  const getAddressLookupTables = useCallback(
+    async (addresses: string[]): Promise<Map<string, string[]> | null> => {
+      if (!connection) {
+        setError('未配置 RPC 地址');
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        return await fetchLookupTables(connection, addresses);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`获取地址查找表失败: ${msg}`);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [connection]
+  );
+
+  const fetchOnchainIdl = useCallback(
+    async (programId: string, confirmUrl?: ConfirmIdlUrl): Promise<OnchainIdl | null> => {
+      if (!connection) {
+        setError('未配置 RPC 地址');
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        // 优先使用 program-metadata 中的 IDL，其次是 Anchor IDL 账户
+        const metadataAddress = getMetadataIdlAddress(programId);
+        const anchorAddress = await getAnchorIdlAddress(programId);
+        const [metadataAccount, anchorAccount] = await connection.getMultipleAccountsInfo([
+          new PublicKey(metadataAddress),
+          new PublicKey(anchorAddress),
+        ]);
+
+        // 一处解码失败时继续尝试另一处，都失败才报告
+        const failures: string[] = [];
+        const candidates = [
+          { account: metadataAccount, source: 'program-metadata' as const, address: metadataAddress },
+          { account: anchorAccount, source: 'anchor' as const, address: anchorAddress },
+        ];
+        for (const { account, source, address } of candidates) {
+          if (!account) continue;
+          try {
+            return { idl: await decodeOnchainIdl(account.data, source, confirmUrl), source, address };
+          } catch (e) {
+            failures.push(`${source}: ${e instanceof Error ? e.message : String(e)}`);
+          }
+        }
+        setError(failures.length > 0 ? `获取链上 IDL 失败: ${failures.join('; ')}` : '链上未找到该 Program 的 IDL');
+        return null;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`获取链上 IDL 失败: ${msg}`);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [connection]
+  );
+
+  const simulateTransaction = useCallback(
+    async (
+      serializedTransaction: string,
+      accountAddresses: string[] = []
+    ): Promise<SimulationResult | null> => {
+      if (!connection) {
+        setError('未配置 RPC 地址');
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const transaction = toVersionedTransaction(serializedTransaction);
+
+        // v0 交易需要查找表内容才能还原完整账户列表
+        const lookupTables = await fetchLookupTables(
+          connection,
+          transaction.message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58())
+        );
+        const decoded = decodeRawTransaction(
+          serializedTransaction,
+          idlConfigsRef.current,
+          addressLabelsRef.current,
+          lookupTables
+        );
+        const accountKeys = decoded.accounts.map((account) => account.pubkey);
+
+        const { context, value } = await connection.simulateTransaction(transaction, {
+          replaceRecentBlockhash: true,
+          sigVerify: false,
+          innerInstructions: true,
+          accounts:
+            accountAddresses.length > 0
+              ? { encoding: 'base64', addresses: accountAddresses }
+              : undefined,
+        });
+
+        // 模拟返回的内部指令为 jsonParsed 格式：已知程序只有节点解析结果，
+        // 还原为原始账户与数据后与其他指令一样交给本地解码器解析
+        const simulatedInner = value.innerInstructions || [];
+        const rpcParsedInner = simulatedInner.flatMap((inner) =>
+          inner.instructions.map((ix) => ('parsed' in ix ? toRpcParsedInstruction(ix) : null))
+        );
+        // 模拟结果没有 token balances，decimals 取自节点解析的 *Checked / InitializeMint 指令
+        const tokenDecimals = collectRpcParsedDecimals(
+          rpcParsedInner.filter((rpc): rpc is NonNullable<typeof rpc> => rpc !== null)
+        );
+        // 内部指令的账户按消息中的账户列表定位（不在列表中的追加到副本末尾）
+        const innerAccountKeys = [...accountKeys];
+        const decodeInner = (programId: string, data: string, pubkeys: string[]) =>
+          parseInstruction(
+            programId,
+            data,
+            innerAccountKeys,
+            pubkeys.map((pubkey) => {
+              const index = innerAccountKeys.indexOf(pubkey);
+              return index >= 0 ? index : innerAccountKeys.push(pubkey) - 1;
+            }),
+            idlConfigsRef.current,
+            addressLabelsRef.current,
+            true, // tryParseAsEvent
+            tokenDecimals
+          );
+
+        const innerInstructions: DecodedInnerInstruction[] = simulatedInner.map((inner) => ({
+          index: inner.index,
+          instructions: inner.instructions.map((ix): DecodedInstruction => {
+            const programId = ix.programId.toBase58();
+            if (!('parsed' in ix)) {
+              return decodeInner(programId, ix.data, ix.accounts.map((k) => k.toBase58()));
+            }
+            const rpcParsed = toRpcParsedInstruction(ix) ?? undefined;
+            const rebuilt = rpcParsed ? rebuildRpcParsedInstruction(rpcParsed) : null;
+            if (rebuilt) {
+              return { ...decodeInner(programId, bs58.encode(rebuilt.data), rebuilt.accounts), rpcParsed };
+            }
+            // 无法还原的指令只展示节点解析结果
+            return {
+              programId,
+              name: rpcParsed?.type ?? ix.program,
+              data: null,
+              accounts: [],
+              hasIdl: false,
+              rpcParsed,
+            };
+          }),
+        }));
+
+        const logs = value.logs || [];
+        const events = parseEventsFromLogs(logs, idlConfigsRef.current);
+        const withComputeUnits = attachComputeUnits(
+          decoded.instructions,
+          innerInstructions,
+          parseInvocationsFromLogs(logs)
+        );
+        const annotated = annotateLookupAccounts(
+          withComputeUnits.instructions,
+          withComputeUnits.innerInstructions,
+          decoded.accounts
+        );
+
+        // 模拟后的账户状态
+        const accounts = (value.accounts || []).map((info, i): ParsedAccountData | null => {
+          if (!info) return null;
+          const data = Buffer.from(info.data[0] ?? '', 'base64');
+          const { accountType, data: parsedData } = decodeAccountData(
+            info.owner,
+            data,
+            idlConfigsRef.current
+          );
+          return {
+            address: accountAddresses[i],
+            owner: info.owner,
+            lamports: info.lamports,
+            executable: info.executable,
+            rentEpoch: info.rentEpoch ?? null,
+            dataSize: data.length,
+            accountType,
+            parsedData: parsedData as Record<string, unknown> | null,
+            rawData: info.data[0],
+          };
+        });
+
+        const result: SimulationResult = {
+          slot: context.slot,
+          success: value.err === null,
+          error: decodeTransactionError(
+            value.err,
+            decoded.instructions,
+            logs,
+            idlConfigsRef.current
+          ),
+          unitsConsumed: value.unitsConsumed ?? null,
+          instructions: annotated.instructions,
+          innerInstructions: annotated.innerInstructions,
+          events,
+          logs,
+          accountKeys,
+          returnData: value.returnData
+            ? { programId: value.returnData.programId, data: value.returnData.data[0] }
+            : null,
+          accounts,
+        };
+
+        return serializeBigInt(result) as SimulationResult;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`模拟交易失败: ${msg}`);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [connection]
+  );
+
+  const getLatestBlockhash = useCallback(async (): Promise<string | null> => {
+    if (!connection) {
+      setError('未配置 RPC 地址');
+      return null;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { blockhash } = await connection.getLatestBlockhash();
+      return blockhash;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(`获取 blockhash 失败: ${msg}`);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [connection]);
+
+  const getRpcParsedInstructions = useCallback(
+    async (signature: string): Promise<RpcParsedInstructions | null> => {
+      if (!connection) {
+        setError('未配置 RPC 地址');
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const tx = await connection.getParsedTransaction(signature, {
+          maxSupportedTransactionVersion: 0,
+        });
+
+        if (!tx) {
+          setError('交易不存在');
+          return null;
+        }
+
+        return {
+          instructions: tx.transaction.message.instructions.map(toRpcParsedInstruction),
+          innerInstructions: (tx.meta?.innerInstructions || []).map((inner) => ({
+            index: inner.index,
+            instructions: inner.instructions.map(toRpcParsedInstruction),
+          })),
+        };
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`获取 jsonParsed 交易失败: ${msg}`);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [connection]
+  );
+
   return {
     connection,
     loading,
     error,
     getTransaction,
     getAccountInfo,
+    getAddressLookupTables,
+    fetchOnchainIdl,
+    simulateTransaction,
+    getLatestBlockhash,
+    getRpcParsedInstructions,
     testConnection,
   };
 }
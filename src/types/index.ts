@@ -1,15 +1,44 @@
 import type { Idl } from '@coral-xyz/anchor';
 
-// IDL 版本类型
-export type IdlVersion = 'legacy' | 'modern';
+// Anchor IDL 子类型（@coral-xyz/anchor 只导出了 Idl）
+export type IdlInstruction = Idl['instructions'][number];
+export type IdlInstructionAccountItem = IdlInstruction['accounts'][number];
+export type IdlField = IdlInstruction['args'][number];
+export type IdlType = IdlField['type'];
+export type IdlTypeDef = NonNullable<Idl['types']>[number];
+export type IdlDefinedFields = NonNullable<Extract<IdlTypeDef['type'], { kind: 'struct' }>['fields']>;
+
+// IDL 版本类型（shank / codama 为非 Anchor 格式，保存前会转换为新版）
+export type IdlVersion = 'legacy' | 'modern' | 'shank' | 'codama';
+
+// Discriminator 策略（作用于指令、账户与事件）
+// anchor: 使用 IDL 中的 discriminator；u8 / u32: 按定义顺序的枚举索引；prefix: 取 IDL discriminator 的前 N 字节
+export type DiscriminatorStrategy =
+  | { kind: 'anchor' }
+  | { kind: 'u8' }
+  | { kind: 'u32' }
+  | { kind: 'prefix'; length: number };
+
+// IDL 历史版本：程序升级前的 IDL，按 slot 范围选择
+export interface IdlRevision {
+  id: string;
+  label: string;
+  idl: Idl;
+  originalVersion: IdlVersion;
+  fromSlot?: number; // 生效起始 slot（含），缺省为不限
+  toSlot?: number;   // 失效 slot（不含，通常为下一次部署的 slot），缺省为不限
+}
 
 // IDL 配置：一个 IDL 可对应多个 Program 地址
 export interface IdlConfig {
   id: string;
   name: string;
-  idl: Idl;
+  idl: Idl; // 当前版本（不在任何历史版本 slot 范围内时使用）
   originalVersion: IdlVersion;
   programIds: string[];
+  discriminatorStrategy?: DiscriminatorStrategy; // 缺省为 anchor
+  revisions?: IdlRevision[];
+  revisionLabel?: string; // 运行时字段：按 slot 选中历史版本时的版本标签，不持久化
 }
 
 // 地址标签
@@ -50,6 +79,27 @@ export interface DecodedInstruction {
   decodeError?: string;  // 解析失败的原因
   hasIdl?: boolean;      // 是否有对应的 IDL
   isEvent?: boolean;     // 是否是 CPI 事件
+  isNative?: boolean;    // 是否由内置原生程序解码器解析
+  extensionName?: string; // 扩展子指令名称（Token-2022 扩展指令）
+  computeUnits?: number;       // 日志中的 CU 消耗（包含 CPI）
+  computeUnitsOffset?: number; // 在整笔交易 CU 中的起始位置（火焰图）
+  rpcParsed?: RpcParsedInstruction; // 节点 jsonParsed 解析结果（交叉校验）
+  rpcDiscrepancies?: string[];      // 与本地解码结果的差异
+  idlRevision?: string;          // 解析所用的 IDL 历史版本
+  idlRevisionFallback?: boolean; // 按 slot 选中的版本解析失败，改用其他版本解析成功
+}
+
+// RPC jsonParsed 格式的指令解析结果
+export interface RpcParsedInstruction {
+  program: string;
+  type: string | null;
+  info: unknown; // parsed.info（Memo 等程序直接为字符串）
+}
+
+// 交易中由 RPC 解析的指令（未被节点解析的指令为 null）
+export interface RpcParsedInstructions {
+  instructions: (RpcParsedInstruction | null)[];
+  innerInstructions: { index: number; instructions: (RpcParsedInstruction | null)[] }[];
 }
 
 // 解析后的账户
@@ -59,6 +109,18 @@ export interface DecodedAccount {
   label?: string;
   isSigner?: boolean;
   isWritable?: boolean;
+  pda?: PdaVerification; // 根据 IDL pda seeds 的校验结果
+  lookupTable?: string;  // 来自地址查找表时的表地址
+  lookupIndex?: number;  // 在查找表中的索引
+}
+
+// PDA 校验结果
+export interface PdaVerification {
+  status: 'match' | 'mismatch' | 'unverifiable';
+  seeds: string[];    // seed 描述（常量 / arg:path / 账户名）
+  expected?: string;  // 推导出的地址（不匹配时）
+  bump?: number;
+  reason?: string;    // 无法校验的原因
 }
 
 // 解析后的内部指令
@@ -99,13 +161,27 @@ export interface TokenAccountMarkers {
   mintToTokenAccounts: Map<string, string[]>; // mint -> token accounts 映射
 }
 
+// 解码后的交易错误
+export interface DecodedTransactionError {
+  raw: string;                     // 原始 meta.err（JSON）
+  instructionIndex: number | null; // 失败的顶层指令（交易级错误为 null）
+  innerIndex: number | null;       // 实际抛出错误的内部指令（从日志推断）
+  programId: string | null;        // 抛出错误的程序
+  code: number | null;             // Custom(code)
+  name: string;
+  message: string | null;
+  source: 'idl' | 'native' | 'anchor' | 'runtime' | 'unknown'; // 错误名称来源
+}
+
 // 交易解析结果
 export interface ParsedTransaction {
   signature: string;
   slot: number;
   blockTime: number | null;
   success: boolean;
+  error: DecodedTransactionError | null; // 失败原因
   fee: number;
+  signatureCount: number; // 签名数量（用于计算基础手续费）
   instructions: DecodedInstruction[];
   innerInstructions: DecodedInnerInstruction[];
   events: DecodedEvent[];  // 解析后的事件
@@ -117,6 +193,58 @@ export interface ParsedTransaction {
   postTokenBalances: TokenBalance[];
   // 账户列表（用于余额索引映射）
   accountKeys: string[];
+  accounts: TransactionAccount[];                // 与 accountKeys 对应的账户来源
+  addressTableLookups: AddressTableLookup[];     // v0 交易使用的地址查找表
+  rawTransaction?: string; // base64 序列化交易（用于模拟）
+}
+
+// 地址查找表引用（v0 交易）
+export interface AddressTableLookup {
+  accountKey: string;        // 查找表账户地址
+  writableIndexes: number[];
+  readonlyIndexes: number[];
+}
+
+// 交易账户（静态账户或来自地址查找表）
+export interface TransactionAccount {
+  pubkey: string;            // 未解析的查找表地址为占位符
+  isSigner: boolean;
+  isWritable: boolean;
+  lookupTable?: string;      // 来自地址查找表时的表地址
+  lookupIndex?: number;      // 在查找表中的索引
+  resolved: boolean;         // 地址是否已知
+}
+
+// 离线解码的原始交易 / 消息
+export interface DecodedRawTransaction {
+  kind: 'transaction' | 'message';
+  encoding: 'base64' | 'base58';
+  version: 'legacy' | number;
+  signatures: (string | null)[]; // 未签名为 null（裸消息为空）
+  recentBlockhash: string;
+  header: {
+    numRequiredSignatures: number;
+    numReadonlySignedAccounts: number;
+    numReadonlyUnsignedAccounts: number;
+  };
+  accounts: TransactionAccount[];
+  addressTableLookups: AddressTableLookup[];
+  instructions: DecodedInstruction[];
+}
+
+// 交易模拟结果
+export interface SimulationResult {
+  slot: number;                    // 模拟所在 slot
+  success: boolean;
+  error: DecodedTransactionError | null;
+  unitsConsumed: number | null;
+  instructions: DecodedInstruction[];
+  innerInstructions: DecodedInnerInstruction[];
+  events: DecodedEvent[];
+  logs: string[];
+  accountKeys: string[];
+  returnData: { programId: string; data: string } | null; // data 为 base64
+  accounts: (ParsedAccountData | null)[]; // 请求的模拟后账户状态（按请求顺序）
 }
 
 // 解析后的账户数据
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AddressLookupTableProgram, PublicKey } from '@solana/web3.js';
+import {
+  decodeAddressLookupTableAccount,
+  decodeAddressLookupTableInstruction,
+} from './addressLookupTableDecoder';
+
+const keyBytes = (seed: number) => Buffer.alloc(32, seed);
+const key = (seed: number) => new PublicKey(keyBytes(seed));
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+
+const accountsOf = (keys: { pubkey: PublicKey }[]) => keys.map((k) => k.pubkey.toBase58());
+
+describe('decodeAddressLookupTableInstruction', () => {
+  it('decodes CreateLookupTable built by web3.js', () => {
+    const [ix] = AddressLookupTableProgram.createLookupTable({
+      authority: key(1),
+      payer: key(2),
+      recentSlot: 123_456,
+    });
+    const result = decodeAddressLookupTableInstruction(ix.data, { accounts: accountsOf(ix.keys) });
+    expect(result.name).toBe('CreateLookupTable');
+    expect(result.data).toMatchObject({ recentSlot: '123456' });
+    expect(result.accountNames).toEqual(['lookupTable', 'authority', 'payer', 'systemProgram']);
+  });
+
+  it('decodes ExtendLookupTable addresses', () => {
+    const ix = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: key(3),
+      authority: key(1),
+      payer: key(2),
+      addresses: [key(4), key(5)],
+    });
+    expect(decodeAddressLookupTableInstruction(ix.data, { accounts: accountsOf(ix.keys) })).toMatchObject({
+      name: 'ExtendLookupTable',
+      data: { newAddresses: [key(4).toBase58(), key(5).toBase58()] },
+    });
+  });
+
+  it('rejects an address count larger than the remaining data', () => {
+    const data = Buffer.concat([Buffer.from([2, 0, 0, 0]), u64(0xffffffffffffffffn), keyBytes(4)]);
+    const result = decodeAddressLookupTableInstruction(data, { accounts: [] });
+    expect(result.data).toBeNull();
+    expect(result.decodeError).toContain('超出剩余数据长度');
+  });
+
+  it('decodes instructions without arguments', () => {
+    const ix = AddressLookupTableProgram.closeLookupTable({
+      lookupTable: key(3),
+      authority: key(1),
+      recipient: key(2),
+    });
+    expect(decodeAddressLookupTableInstruction(ix.data, { accounts: accountsOf(ix.keys) }).name).toBe('CloseLookupTable');
+  });
+
+  it('reports data shorter than the u32 tag', () => {
+    expect(decodeAddressLookupTableInstruction(Buffer.from([2]), { accounts: [] }).decodeError).toBeDefined();
+  });
+});
+
+describe('decodeAddressLookupTableAccount', () => {
+  const meta = (hasAuthority: boolean, deactivationSlot: bigint) =>
+    Buffer.concat([
+      Buffer.from([1, 0, 0, 0]),
+      u64(deactivationSlot),
+      u64(42n),
+      Buffer.from([1, hasAuthority ? 1 : 0]),
+      hasAuthority ? keyBytes(1) : Buffer.alloc(32),
+      Buffer.alloc(2),
+    ]);
+
+  it('decodes an active lookup table', () => {
+    const data = Buffer.concat([meta(true, 0xffffffffffffffffn), keyBytes(4), keyBytes(5)]);
+    expect(decodeAddressLookupTableAccount(data)).toEqual({
+      accountType: 'AddressLookupTable',
+      data: {
+        authority: key(1).toBase58(),
+        deactivationSlot: null,
+        lastExtendedSlot: '42',
+        lastExtendedSlotStartIndex: 1,
+        addresses: [key(4).toBase58(), key(5).toBase58()],
+      },
+    });
+  });
+
+  it('decodes a frozen, deactivated lookup table', () => {
+    const result = decodeAddressLookupTableAccount(meta(false, 100n));
+    expect(result?.data).toMatchObject({ authority: null, deactivationSlot: '100', addresses: [] });
+  });
+
+  it('rejects data that is not a whole number of addresses', () => {
+    expect(decodeAddressLookupTableAccount(Buffer.concat([meta(true, 0n), Buffer.alloc(5)]))).toBeNull();
+  });
+});
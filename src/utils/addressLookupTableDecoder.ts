@@ -0,0 +1,103 @@
+import { BinaryReader } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeAccountDecodeResult,
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+} from './nativeInstruction';
+
+export const ADDRESS_LOOKUP_TABLE_PROGRAM_ID = 'AddressLookupTab1e1111111111111111111111111';
+
+// 查找表账户头部长度（地址列表从此处开始）
+const LOOKUP_TABLE_META_SIZE = 56;
+// deactivation_slot 为 u64::MAX 表示未停用
+const SLOT_MAX = 0xffffffffffffffffn;
+
+/**
+ * Address Lookup Table 指令布局（指令类型为 u32 LE，参数为 bincode）
+ */
+const ADDRESS_LOOKUP_TABLE_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  0: {
+    name: 'CreateLookupTable',
+    accounts: ['lookupTable', 'authority', 'payer', 'systemProgram'],
+    decode: (r) => ({ recentSlot: r.u64().toString(), bumpSeed: r.u8() }),
+  },
+  1: {
+    name: 'FreezeLookupTable',
+    accounts: ['lookupTable', 'authority'],
+  },
+  2: {
+    name: 'ExtendLookupTable',
+    accounts: ['lookupTable', 'authority', 'payer', 'systemProgram'],
+    decode: (r) => {
+      const count = r.u64();
+      // 先校验数量，避免异常数据导致超大分配
+      if (count * 32n > BigInt(r.remaining)) {
+        throw new Error(`地址数量 ${count} 超出剩余数据长度 (${r.remaining} 字节)`);
+      }
+      return { newAddresses: Array.from({ length: Number(count) }, () => r.pubkey()) };
+    },
+  },
+  3: {
+    name: 'DeactivateLookupTable',
+    accounts: ['lookupTable', 'authority'],
+  },
+  4: {
+    name: 'CloseLookupTable',
+    accounts: ['lookupTable', 'authority', 'recipient'],
+  },
+};
+
+/**
+ * 解码 Address Lookup Table 指令
+ */
+export function decodeAddressLookupTableInstruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 4) {
+    return { name: null, data: null, decodeError: '数据长度不足，无法读取 Address Lookup Table 指令类型' };
+  }
+  const reader = new BinaryReader(data);
+  const tag = reader.u32();
+  return decodeByTag(tag, ADDRESS_LOOKUP_TABLE_INSTRUCTIONS, reader, context, 'Address Lookup Table');
+}
+
+/**
+ * 解码地址查找表账户
+ * 布局：u32 类型 | u64 deactivation_slot | u64 last_extended_slot | u8 start_index |
+ *       Option<Pubkey> authority (1 + 32) | u16 padding | Pubkey[]
+ */
+export function decodeAddressLookupTableAccount(data: Buffer): NativeAccountDecodeResult | null {
+  if (data.length < LOOKUP_TABLE_META_SIZE) return null;
+  const reader = new BinaryReader(data);
+  const typeIndex = reader.u32();
+  if (typeIndex === 0) {
+    return { accountType: 'Uninitialized', data: {} };
+  }
+  if (typeIndex !== 1 || (data.length - LOOKUP_TABLE_META_SIZE) % 32 !== 0) return null;
+
+  const deactivationSlot = reader.u64();
+  const lastExtendedSlot = reader.u64();
+  const lastExtendedSlotStartIndex = reader.u8();
+  const hasAuthority = reader.u8() !== 0;
+  const authority = reader.pubkey();
+
+  const addressReader = new BinaryReader(data, LOOKUP_TABLE_META_SIZE);
+  const addresses: string[] = [];
+  while (addressReader.remaining >= 32) {
+    addresses.push(addressReader.pubkey());
+  }
+
+  return {
+    accountType: 'AddressLookupTable',
+    data: {
+      authority: hasAuthority ? authority : null, // null 表示已冻结
+      deactivationSlot: deactivationSlot === SLOT_MAX ? null : deactivationSlot.toString(), // null 表示未停用
+      lastExtendedSlot: lastExtendedSlot.toString(),
+      lastExtendedSlotStartIndex,
+      addresses,
+    },
+  };
+}
@@ -68,6 +68,8 @@ export const KNOWN_PROGRAMS: Record<string, string> = {
   'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb': 'Token-2022',
   'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL': 'Associated Token Program',
   'ComputeBudget111111111111111111111111111111': 'Compute Budget',
+  'AddressLookupTab1e1111111111111111111111111': 'Address Lookup Table Program',
+  'BPFLoaderUpgradeab1e11111111111111111111111': 'BPF Upgradeable Loader',
   'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr': 'Memo Program',
   'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo': 'Memo Program (Legacy)',
   'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s': 'Metaplex Token Metadata',
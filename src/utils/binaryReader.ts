@@ -0,0 +1,166 @@
+import bs58 from 'bs58';
+
+/**
+ * 顺序读取小端序二进制数据
+ * 用于解析原生程序（System / Token 等）的指令与账户数据
+ */
+export class BinaryReader {
+  private readonly buffer: Buffer;
+  private offset: number;
+
+  constructor(data: Buffer | Uint8Array, offset: number = 0) {
+    this.buffer = Buffer.from(data);
+    this.offset = offset;
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new RangeError(
+        `Unexpected end of buffer: 需要 ${length} 字节，剩余 ${this.remaining} 字节`
+      );
+    }
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    this.ensure(2);
+    const value = this.buffer.readInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): bigint {
+    this.ensure(8);
+    const value = this.buffer.readBigInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  f64(): number {
+    this.ensure(8);
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  u128(): bigint {
+    const low = this.u64();
+    const high = this.u64();
+    return (high << 64n) | low;
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  rest(): Buffer {
+    return this.bytes(this.remaining);
+  }
+
+  pubkey(): string {
+    return bs58.encode(this.bytes(32));
+  }
+
+  /**
+   * OptionalNonZeroPubkey（32 字节，全 0 表示 None），Token-2022 扩展使用此格式
+   */
+  optionalNonZeroPubkey(): string | null {
+    const bytes = this.bytes(32);
+    return bytes.every((b) => b === 0) ? null : bs58.encode(bytes);
+  }
+
+  /**
+   * bincode 字符串（u64 长度前缀），System Program 的 seed 使用此格式
+   */
+  bincodeString(): string {
+    const length = Number(this.u64());
+    return this.bytes(length).toString('utf8');
+  }
+
+  /**
+   * borsh 字符串（u32 长度前缀）
+   */
+  borshString(): string {
+    const length = this.u32();
+    return this.bytes(length).toString('utf8');
+  }
+
+  /**
+   * borsh Option<T>（1 字节标记）
+   */
+  option<T>(read: () => T): T | null {
+    return this.u8() === 0 ? null : read();
+  }
+
+  /**
+   * COption<T>（u32 标记，None 时值仍占用固定空间），SPL Token 账户状态使用此格式
+   */
+  coption<T>(read: () => T): T | null {
+    const tag = this.u32();
+    const value = read();
+    return tag === 0 ? null : value;
+  }
+}
+
+/**
+ * 将整数数量按小数位格式化（去除末尾的 0）
+ */
+export function formatUnits(amount: bigint | number | string, decimals: number): string {
+  const value = BigInt(amount);
+  if (decimals <= 0) return value.toString();
+
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const divisor = 10n ** BigInt(decimals);
+  const intPart = abs / divisor;
+  const fracPart = (abs % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+  const sign = negative ? '-' : '';
+  return fracPart ? `${sign}${intPart}.${fracPart}` : `${sign}${intPart}`;
+}
+
+/**
+ * 将 lamports 格式化为 SOL 显示
+ */
+export function formatLamports(lamports: bigint | number | string): string {
+  return `${formatUnits(lamports, 9)} SOL`;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { decodeBpfLoaderAccount, decodeBpfLoaderInstruction } from './bpfLoaderDecoder';
+
+const keyBytes = (seed: number) => Buffer.alloc(32, seed);
+const key = (seed: number) => new PublicKey(keyBytes(seed)).toBase58();
+
+const u32 = (value: number) => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+};
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+
+// sha256("abc")
+const ABC_SHA256 = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+describe('decodeBpfLoaderInstruction', () => {
+  it('decodes Write without returning the payload bytes', () => {
+    const data = Buffer.concat([u32(1), u32(1024), u64(3n), Buffer.from([1, 2, 3])]);
+    expect(decodeBpfLoaderInstruction(data, { accounts: [key(1), key(2)] })).toEqual({
+      name: 'Write',
+      data: { offset: 1024, length: 3 },
+      accountNames: ['buffer', 'authority'],
+    });
+  });
+
+  it('decodes DeployWithMaxDataLen', () => {
+    const data = Buffer.concat([u32(2), u64(2_000_000n)]);
+    expect(decodeBpfLoaderInstruction(data, { accounts: [] })).toMatchObject({
+      name: 'DeployWithMaxDataLen',
+      data: { maxDataLen: '2000000' },
+    });
+  });
+
+  it('decodes ExtendProgramChecked', () => {
+    const data = Buffer.concat([u32(9), u32(10_240)]);
+    expect(decodeBpfLoaderInstruction(data, { accounts: [] })).toMatchObject({
+      name: 'ExtendProgramChecked',
+      data: { additionalBytes: 10_240 },
+    });
+  });
+
+  it('reports a Write payload shorter than its declared length', () => {
+    const data = Buffer.concat([u32(1), u32(0), u64(10n), Buffer.from([1])]);
+    const result = decodeBpfLoaderInstruction(data, { accounts: [] });
+    expect(result.name).toBe('Write');
+    expect(result.decodeError).toBeDefined();
+  });
+
+  it('reports data shorter than the u32 tag', () => {
+    expect(decodeBpfLoaderInstruction(Buffer.from([1, 0]), { accounts: [] }).decodeError).toBeDefined();
+  });
+});
+
+describe('decodeBpfLoaderAccount', () => {
+  it('decodes a Program account', () => {
+    const data = Buffer.concat([u32(2), keyBytes(7)]);
+    expect(decodeBpfLoaderAccount(data)).toEqual({
+      accountType: 'Program',
+      data: { programDataAddress: key(7) },
+    });
+  });
+
+  it('hashes the ProgramData ELF without trailing padding', () => {
+    const data = Buffer.concat([
+      u32(3),
+      u64(99n),
+      Buffer.from([1]),
+      keyBytes(8),
+      Buffer.from('abc'),
+      Buffer.alloc(5),
+    ]);
+    expect(decodeBpfLoaderAccount(data)).toEqual({
+      accountType: 'ProgramData',
+      data: {
+        lastDeployedSlot: '99',
+        upgradeAuthority: key(8),
+        dataLength: 8,
+        elfSize: 3,
+        elfSha256: ABC_SHA256,
+      },
+    });
+  });
+
+  it('decodes a Buffer without authority at the fixed ELF offset', () => {
+    const data = Buffer.concat([u32(1), Buffer.from([0]), Buffer.alloc(32), Buffer.from('abc')]);
+    expect(decodeBpfLoaderAccount(data)?.data).toMatchObject({
+      authority: null,
+      elfSize: 3,
+      elfSha256: ABC_SHA256,
+    });
+  });
+
+  it('returns null for unknown state tags', () => {
+    expect(decodeBpfLoaderAccount(u32(4))).toBeNull();
+  });
+});
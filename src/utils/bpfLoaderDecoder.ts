@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { BinaryReader } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeAccountDecodeResult,
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+} from './nativeInstruction';
+
+export const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = 'BPFLoaderUpgradeab1e11111111111111111111111';
+
+// 账户头部长度（之后为 ELF 数据）
+const BUFFER_METADATA_SIZE = 37;
+const PROGRAM_DATA_METADATA_SIZE = 45;
+
+/**
+ * BPF Upgradeable Loader 指令布局（指令类型为 u32 LE，参数为 bincode）
+ */
+const BPF_LOADER_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  0: {
+    name: 'InitializeBuffer',
+    accounts: ['buffer', 'authority'],
+  },
+  1: {
+    name: 'Write',
+    accounts: ['buffer', 'authority'],
+    decode: (r) => {
+      const offset = r.u32();
+      const length = Number(r.u64());
+      r.bytes(length);
+      return { offset, length };
+    },
+  },
+  2: {
+    name: 'DeployWithMaxDataLen',
+    accounts: ['payer', 'programData', 'program', 'buffer', 'rentSysvar', 'clockSysvar', 'systemProgram', 'authority'],
+    decode: (r) => ({ maxDataLen: r.u64().toString() }),
+  },
+  3: {
+    name: 'Upgrade',
+    accounts: ['programData', 'program', 'buffer', 'spill', 'rentSysvar', 'clockSysvar', 'authority'],
+  },
+  4: {
+    name: 'SetAuthority',
+    accounts: ['account', 'currentAuthority', 'newAuthority'],
+  },
+  5: {
+    name: 'Close',
+    accounts: ['account', 'recipient', 'authority', 'program'],
+  },
+  6: {
+    name: 'ExtendProgram',
+    accounts: ['programData', 'program', 'systemProgram', 'payer'],
+    decode: (r) => ({ additionalBytes: r.u32() }),
+  },
+  7: {
+    name: 'SetAuthorityChecked',
+    accounts: ['account', 'currentAuthority', 'newAuthority'],
+  },
+  8: {
+    name: 'Migrate',
+    accounts: ['programData', 'program', 'authority'],
+  },
+  9: {
+    name: 'ExtendProgramChecked',
+    accounts: ['programData', 'program', 'authority', 'systemProgram', 'payer'],
+    decode: (r) => ({ additionalBytes: r.u32() }),
+  },
+};
+
+/**
+ * 解码 BPF Upgradeable Loader 指令
+ */
+export function decodeBpfLoaderInstruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 4) {
+    return { name: null, data: null, decodeError: '数据长度不足，无法读取 BPF Loader 指令类型' };
+  }
+  const reader = new BinaryReader(data);
+  const tag = reader.u32();
+  return decodeByTag(tag, BPF_LOADER_INSTRUCTIONS, reader, context, 'BPF Upgradeable Loader');
+}
+
+/**
+ * 去除末尾补零后的 ELF（ProgramData 按 max_data_len 分配空间）
+ */
+function trimElf(elf: Buffer): Buffer {
+  let end = elf.length;
+  while (end > 0 && elf[end - 1] === 0) end--;
+  return elf.subarray(0, end);
+}
+
+/**
+ * ELF 信息：大小与 SHA-256（与 solana-verify 的 program hash 一致，按去除补零后的数据计算）
+ */
+function elfFields(elf: Buffer): Record<string, unknown> {
+  const trimmed = trimElf(elf);
+  return {
+    dataLength: elf.length,
+    elfSize: trimmed.length,
+    elfSha256: createHash('sha256').update(trimmed).digest('hex'),
+  };
+}
+
+/**
+ * 解码 BPF Upgradeable Loader 账户（UpgradeableLoaderState 枚举，u32 标记）
+ */
+export function decodeBpfLoaderAccount(data: Buffer): NativeAccountDecodeResult | null {
+  if (data.length < 4) return null;
+  const reader = new BinaryReader(data);
+  const tag = reader.u32();
+
+  switch (tag) {
+    case 0:
+      return { accountType: 'Uninitialized', data: {} };
+    case 1: {
+      if (data.length < BUFFER_METADATA_SIZE) return null;
+      return {
+        accountType: 'Buffer',
+        data: {
+          authority: reader.option(() => reader.pubkey()),
+          ...elfFields(data.subarray(BUFFER_METADATA_SIZE)),
+        },
+      };
+    }
+    case 2:
+      return { accountType: 'Program', data: { programDataAddress: reader.pubkey() } };
+    case 3: {
+      if (data.length < PROGRAM_DATA_METADATA_SIZE) return null;
+      return {
+        accountType: 'ProgramData',
+        data: {
+          lastDeployedSlot: reader.u64().toString(),
+          upgradeAuthority: reader.option(() => reader.pubkey()), // null 表示不可升级
+          ...elfFields(data.subarray(PROGRAM_DATA_METADATA_SIZE)),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * 复制文本到剪贴板
+ * 非安全上下文或没有权限时 Clipboard API 不可用，回退到 execCommand
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // fallback
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    document.body.appendChild(textarea);
+    textarea.select();
+    document.execCommand('copy');
+    document.body.removeChild(textarea);
+  }
+}
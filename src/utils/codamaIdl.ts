@@ -0,0 +1,336 @@
+import type { Idl } from '@coral-xyz/anchor';
+import bs58 from 'bs58';
+import type { IdlDefinedFields, IdlField, IdlInstructionAccountItem, IdlType, IdlTypeDef } from '../types';
+import { addCOptionType, addGeneratedType, createGeneratedTypes, toPascalCase } from './idlTypeConverter';
+import type { GeneratedTypes } from './idlTypeConverter';
+import { encodeSeedValue } from './pda';
+
+/**
+ * Codama (Kinobi) 节点，只声明转换时用到的字段
+ */
+interface CodamaNode {
+  kind: string;
+  name?: string;
+  docs?: string[];
+  [key: string]: unknown;
+}
+
+interface CodamaProgramNode extends CodamaNode {
+  publicKey: string;
+  version?: string;
+  origin?: string;
+  accounts?: CodamaNode[];
+  instructions?: CodamaNode[];
+  definedTypes?: CodamaNode[];
+  errors?: { name: string; code: number; message?: string; docs?: string[] }[];
+}
+
+/**
+ * 是否为 Codama 根节点
+ */
+export function isCodamaIdl(idl: unknown): boolean {
+  return (idl as CodamaNode | null)?.kind === 'rootNode';
+}
+
+/**
+ * 获取 Codama 根节点中的 programNode
+ */
+export function getCodamaProgram(idl: unknown): CodamaProgramNode {
+  return (idl as { program: CodamaProgramNode }).program;
+}
+
+// numberTypeNode 的 format 与 Anchor 类型一致（shortU16 除外）
+const NUMBER_FORMATS = new Set([
+  'u8', 'u16', 'u32', 'u64', 'u128', 'i8', 'i16', 'i32', 'i64', 'i128', 'f32', 'f64',
+]);
+
+function unsupported(node: CodamaNode): never {
+  throw new Error(`不支持的 Codama 类型: ${node.kind}`);
+}
+
+function convertNumber(node: CodamaNode): IdlType {
+  const format = node.format as string;
+  if (!NUMBER_FORMATS.has(format) || node.endian === 'be') {
+    throw new Error(`不支持的 Codama 数字格式: ${format}${node.endian === 'be' ? ' (be)' : ''}`);
+  }
+  return format as IdlType;
+}
+
+// 只支持 borsh 布局的长度前缀（u32）
+function isU32Prefix(node: unknown): boolean {
+  const prefix = node as CodamaNode | undefined;
+  return prefix?.kind === 'numberTypeNode' && prefix.format === 'u32';
+}
+
+/**
+ * 将 Codama 类型节点转换为 Anchor 类型
+ * 内联 struct / tuple / enum 会提升为具名类型
+ */
+function convertType(node: CodamaNode, generated: GeneratedTypes, hint: string): IdlType {
+  switch (node.kind) {
+    case 'numberTypeNode':
+      return convertNumber(node);
+    case 'booleanTypeNode':
+      return (node.size as CodamaNode | undefined)?.format === 'u8' || !node.size ? 'bool' : unsupported(node);
+    case 'publicKeyTypeNode':
+      return 'pubkey';
+    case 'sizePrefixTypeNode': {
+      const inner = node.type as CodamaNode;
+      if (!isU32Prefix(node.prefix)) return unsupported(node);
+      if (inner.kind === 'stringTypeNode') return 'string';
+      if (inner.kind === 'bytesTypeNode') return 'bytes';
+      return unsupported(inner);
+    }
+    case 'fixedSizeTypeNode': {
+      const inner = node.type as CodamaNode;
+      if (inner.kind === 'stringTypeNode' || inner.kind === 'bytesTypeNode') {
+        return { array: ['u8', node.size as number] };
+      }
+      return unsupported(inner);
+    }
+    case 'arrayTypeNode':
+    case 'setTypeNode':
+      return convertCount(node.count as CodamaNode, convertType(node.item as CodamaNode, generated, `${hint}Item`));
+    case 'mapTypeNode': {
+      const entry = addGeneratedType(generated, `${hint}Entry`, {
+        kind: 'struct',
+        fields: [
+          convertType(node.key as CodamaNode, generated, `${hint}Key`),
+          convertType(node.value as CodamaNode, generated, `${hint}Value`),
+        ],
+      });
+      return convertCount(node.count as CodamaNode, entry);
+    }
+    case 'optionTypeNode': {
+      const item = convertType(node.item as CodamaNode, generated, hint);
+      const prefix = (node.prefix as CodamaNode | undefined)?.format ?? 'u8';
+      if (prefix === 'u8' && !node.fixed) return { option: item };
+      if (prefix === 'u32' && node.fixed) return addCOptionType(generated, hint, item);
+      return unsupported(node);
+    }
+    // 全零表示 None，布局与内部类型相同
+    case 'zeroableOptionTypeNode':
+      return convertType(node.item as CodamaNode, generated, hint);
+    case 'amountTypeNode':
+    case 'solAmountTypeNode':
+    case 'dateTimeTypeNode':
+      return convertType(node.number as CodamaNode, generated, hint);
+    case 'definedTypeLinkNode':
+      return { defined: { name: toPascalCase(node.name!) } };
+    case 'structTypeNode':
+    case 'tupleTypeNode':
+      return addGeneratedType(generated, hint, { kind: 'struct', fields: convertFields(node, generated, hint) });
+    case 'enumTypeNode':
+      return addGeneratedType(generated, hint, convertEnum(node, generated, hint));
+    default:
+      return unsupported(node);
+  }
+}
+
+function convertCount(count: CodamaNode, item: IdlType): IdlType {
+  if (count.kind === 'fixedCountNode') return { array: [item, count.value as number] };
+  if (count.kind === 'prefixedCountNode' && isU32Prefix(count.prefix)) return { vec: item };
+  return unsupported(count);
+}
+
+/**
+ * structTypeNode 转为具名字段，tupleTypeNode 转为 tuple 字段
+ */
+function convertFields(node: CodamaNode, generated: GeneratedTypes, hint: string): IdlDefinedFields {
+  if (node.kind === 'tupleTypeNode') {
+    return (node.items as CodamaNode[]).map((item, i) => convertType(item, generated, `${hint}${i}`));
+  }
+  return (node.fields as CodamaNode[]).map((field) => ({
+    name: field.name!,
+    ...(field.docs?.length ? { docs: field.docs } : {}),
+    type: convertType(field.type as CodamaNode, generated, `${hint}_${field.name}`),
+  }));
+}
+
+function convertEnum(node: CodamaNode, generated: GeneratedTypes, hint: string): IdlTypeDef['type'] {
+  const size = node.size as CodamaNode | undefined;
+  if (size && size.format !== 'u8') return unsupported(node);
+  const variants = (node.variants as CodamaNode[]).map((variant) => {
+    if (variant.kind === 'enumStructVariantTypeNode') {
+      return { name: variant.name!, fields: convertFields(variant.struct as CodamaNode, generated, `${hint}_${variant.name}`) };
+    }
+    if (variant.kind === 'enumTupleVariantTypeNode') {
+      return { name: variant.name!, fields: convertFields(variant.tuple as CodamaNode, generated, `${hint}_${variant.name}`) };
+    }
+    return { name: variant.name! };
+  });
+  return { kind: 'enum', variants };
+}
+
+/**
+ * 将值节点编码为字节（用于 discriminator 字段的默认值）
+ */
+function encodeValue(type: CodamaNode, value: CodamaNode): number[] {
+  if (value.kind === 'bytesValueNode') {
+    const data = value.data as string;
+    switch (value.encoding) {
+      case 'base16': return [...Buffer.from(data, 'hex')];
+      case 'base58': return [...bs58.decode(data)];
+      case 'base64': return [...Buffer.from(data, 'base64')];
+      default: return [...Buffer.from(data, 'utf8')];
+    }
+  }
+  if (value.kind === 'numberValueNode' && type.kind === 'numberTypeNode') {
+    return [...encodeSeedValue(type.format, value.number)];
+  }
+  if (value.kind === 'arrayValueNode') {
+    return (value.items as CodamaNode[]).flatMap((item) => encodeValue(type.item as CodamaNode, item));
+  }
+  throw new Error(`不支持的 discriminator 默认值: ${value.kind}`);
+}
+
+/**
+ * 开头连续带默认值的字段编码后的字节，以及各字段结束的偏移
+ */
+function encodeLeadingDefaults(fields: CodamaNode[]): { bytes: number[]; ends: number[] } {
+  const bytes: number[] = [];
+  const ends: number[] = [];
+  for (const field of fields) {
+    if (!field.defaultValue) break;
+    try {
+      bytes.push(...encodeValue(field.type as CodamaNode, field.defaultValue as CodamaNode));
+    } catch {
+      break;
+    }
+    ends.push(bytes.length);
+  }
+  return { bytes, ends };
+}
+
+/**
+ * 由 discriminator 节点确定数据开头的固定字节
+ * 支持 fieldDiscriminatorNode（含 offset）与 constantDiscriminatorNode；
+ * offset 之前的字节也须是带默认值的字段，否则无法按前缀匹配
+ * @returns discriminator 字节与剩余字段；无法确定时 discriminator 为 null
+ */
+function extractDiscriminator(
+  fields: CodamaNode[],
+  discriminators: CodamaNode[] | undefined
+): { discriminator: number[] | null; fields: CodamaNode[] } {
+  const leading = encodeLeadingDefaults(fields);
+  // 前 count 个字段组成 discriminator
+  const take = (count: number) => ({
+    discriminator: leading.bytes.slice(0, leading.ends[count - 1]),
+    fields: fields.slice(count),
+  });
+
+  const nodes = discriminators?.length
+    ? discriminators
+    : [{ kind: 'fieldDiscriminatorNode', name: 'discriminator', offset: 0 }];
+  for (const node of nodes) {
+    const offset = (node.offset as number | undefined) ?? 0;
+    if (node.kind === 'fieldDiscriminatorNode') {
+      const index = fields.findIndex((f) => f.name === node.name);
+      if (index < 0 || index >= leading.ends.length) continue;
+      if ((index === 0 ? 0 : leading.ends[index - 1]) !== offset) continue;
+      return take(index + 1);
+    }
+    if (node.kind === 'constantDiscriminatorNode') {
+      const constant = node.constant as CodamaNode;
+      let bytes: number[];
+      try {
+        bytes = encodeValue(constant.type as CodamaNode, constant.value as CodamaNode);
+      } catch {
+        continue;
+      }
+      const end = offset + bytes.length;
+      const count = leading.ends.indexOf(end) + 1;
+      // 常量由开头的默认值字段描述时，一并去掉这些字段
+      if (count > 0 && Buffer.from(leading.bytes.slice(offset, end)).equals(Buffer.from(bytes))) {
+        return take(count);
+      }
+      // 常量不在字段中时，只能位于数据开头
+      if (offset === 0) return { discriminator: bytes, fields };
+    }
+  }
+  return { discriminator: null, fields };
+}
+
+function convertAccounts(accounts: CodamaNode[]): IdlInstructionAccountItem[] {
+  return accounts.map((account) => ({
+    name: account.name!,
+    ...(account.docs?.length ? { docs: account.docs } : {}),
+    ...(account.isWritable === true ? { writable: true } : {}),
+    ...(account.isSigner === true ? { signer: true } : {}),
+    ...(account.isOptional ? { optional: true } : {}),
+  }));
+}
+
+/**
+ * 将 Codama 根节点转换为新版 Anchor IDL
+ * 账户 / 类型名转为 PascalCase，discriminator 取自开头带默认值的字段
+ */
+export function convertCodamaIdl(idl: unknown): Idl {
+  const program = getCodamaProgram(idl);
+  const definedTypes = program.definedTypes ?? [];
+  const accountNodes = program.accounts ?? [];
+  const generated = createGeneratedTypes([
+    ...definedTypes.map((t) => toPascalCase(t.name!)),
+    ...accountNodes.map((a) => toPascalCase(a.name!)),
+  ]);
+
+  const types: IdlTypeDef[] = definedTypes.map((def) => {
+    const name = toPascalCase(def.name!);
+    const node = def.type as CodamaNode;
+    let type: IdlTypeDef['type'];
+    if (node.kind === 'structTypeNode' || node.kind === 'tupleTypeNode') {
+      type = { kind: 'struct', fields: convertFields(node, generated, name) };
+    } else if (node.kind === 'enumTypeNode') {
+      type = convertEnum(node, generated, name);
+    } else {
+      type = { kind: 'type', alias: convertType(node, generated, name) };
+    }
+    return { name, ...(def.docs?.length ? { docs: def.docs } : {}), type };
+  });
+
+  const accounts = accountNodes.map((account) => {
+    const name = toPascalCase(account.name!);
+    const data = account.data as CodamaNode;
+    const { discriminator, fields } = extractDiscriminator(
+      data.fields as CodamaNode[],
+      account.discriminators as CodamaNode[] | undefined
+    );
+    types.push({
+      name,
+      ...(account.docs?.length ? { docs: account.docs } : {}),
+      type: { kind: 'struct', fields: convertFields({ ...data, fields }, generated, name) },
+    });
+    // 账户没有 discriminator 时为空，decodeAccountData 会跳过
+    return { name, discriminator: discriminator ?? [] };
+  });
+
+  // 没有 discriminator 的指令会匹配任意数据，不转换
+  const instructions = (program.instructions ?? []).flatMap((ix) => {
+    const { discriminator, fields } = extractDiscriminator(
+      ix.arguments as CodamaNode[],
+      ix.discriminators as CodamaNode[] | undefined
+    );
+    if (!discriminator?.length) return [];
+    return [{
+      name: ix.name!,
+      ...(ix.docs?.length ? { docs: ix.docs } : {}),
+      discriminator,
+      accounts: convertAccounts(ix.accounts as CodamaNode[]),
+      args: convertFields({ kind: 'structTypeNode', fields }, generated, ix.name!) as IdlField[],
+    }];
+  });
+
+  return {
+    address: program.publicKey,
+    metadata: {
+      name: program.name!,
+      version: program.version ?? '0.0.0',
+      spec: '0.1.0',
+      ...(program.origin ? { description: `Codama (${program.origin})` } : {}),
+    },
+    instructions,
+    accounts,
+    types: [...types, ...generated.types],
+    errors: (program.errors ?? []).map((e) => ({ code: e.code, name: e.name, msg: e.message })),
+  } as unknown as Idl;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import bs58 from 'bs58';
+import { ComputeBudgetProgram } from '@solana/web3.js';
+import type { TransactionInstruction } from '@solana/web3.js';
+import {
+  COMPUTE_BUDGET_PROGRAM_ID,
+  analyzeComputeBudget,
+  decodeComputeBudgetInstruction,
+} from './computeBudgetDecoder';
+import type { DecodedInstruction, ParsedTransaction } from '../types';
+
+const ED25519_PROGRAM_ID = 'Ed25519SigVerify111111111111111111111111111';
+const OTHER_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+const toDecoded = (ix: TransactionInstruction): DecodedInstruction => ({
+  programId: ix.programId.toBase58(),
+  name: null,
+  data: null,
+  accounts: [],
+  rawData: bs58.encode(ix.data),
+});
+
+const rawInstruction = (programId: string, data: number[]): DecodedInstruction => ({
+  programId,
+  name: null,
+  data: null,
+  accounts: [],
+  rawData: bs58.encode(Buffer.from(data)),
+});
+
+const buildTransaction = (
+  instructions: DecodedInstruction[],
+  overrides: Partial<ParsedTransaction> = {}
+): ParsedTransaction => ({
+  signature: '',
+  slot: 0,
+  blockTime: null,
+  success: true,
+  error: null,
+  fee: 5000,
+  signatureCount: 1,
+  instructions,
+  innerInstructions: [],
+  events: [],
+  logs: [],
+  preBalances: [],
+  postBalances: [],
+  preTokenBalances: [],
+  postTokenBalances: [],
+  accountKeys: [],
+  accounts: [],
+  addressTableLookups: [],
+  ...overrides,
+});
+
+describe('decodeComputeBudgetInstruction', () => {
+  it('decodes instructions built by web3.js', () => {
+    const limit = ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 });
+    expect(decodeComputeBudgetInstruction(limit.data, { accounts: [] })).toMatchObject({
+      name: 'SetComputeUnitLimit',
+      data: { units: 300_000 },
+    });
+
+    const price = ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 12_345n });
+    expect(decodeComputeBudgetInstruction(price.data, { accounts: [] })).toMatchObject({
+      name: 'SetComputeUnitPrice',
+      data: { microLamports: '12345' },
+    });
+
+    const heap = ComputeBudgetProgram.requestHeapFrame({ bytes: 64 * 1024 });
+    expect(decodeComputeBudgetInstruction(heap.data, { accounts: [] })).toMatchObject({
+      name: 'RequestHeapFrame',
+      data: { bytes: 65536 },
+    });
+  });
+
+  it('decodes SetLoadedAccountsDataSizeLimit', () => {
+    const data = Buffer.from([4, 0x00, 0x00, 0x01, 0x00]);
+    expect(decodeComputeBudgetInstruction(data, { accounts: [] })).toMatchObject({
+      name: 'SetLoadedAccountsDataSizeLimit',
+      data: { bytes: 65536 },
+    });
+  });
+
+  it('reports empty data', () => {
+    expect(decodeComputeBudgetInstruction(Buffer.alloc(0), { accounts: [] }).decodeError).toBe('指令数据为空');
+  });
+});
+
+describe('analyzeComputeBudget', () => {
+  it('derives the priority fee from the charged fee and keeps price × limit as the expectation', () => {
+    const transaction = buildTransaction(
+      [
+        toDecoded(ComputeBudgetProgram.setComputeUnitLimit({ units: 100_000 })),
+        toDecoded(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_500 })),
+        rawInstruction(OTHER_PROGRAM_ID, [1]),
+      ],
+      {
+        fee: 5150,
+        logs: [
+          `Program ${OTHER_PROGRAM_ID} invoke [1]`,
+          `Program ${OTHER_PROGRAM_ID} consumed 40000 of 100000 compute units`,
+          `Program ${OTHER_PROGRAM_ID} success`,
+        ],
+      }
+    );
+
+    expect(analyzeComputeBudget(transaction)).toMatchObject({
+      computeUnitLimit: 100_000,
+      isDefaultLimit: false,
+      computeUnitPrice: 1_500n,
+      baseFee: 5000,
+      priorityFee: 150,
+      expectedPriorityFee: 150,
+      computeUnitsConsumed: 40_000,
+      unusedPriorityFee: 90,
+    });
+  });
+
+  it('uses the default per-instruction limit and rounds the expected fee up', () => {
+    const transaction = buildTransaction(
+      [
+        toDecoded(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 })),
+        rawInstruction(OTHER_PROGRAM_ID, [1]),
+        rawInstruction(OTHER_PROGRAM_ID, [2]),
+      ],
+      { fee: 5001 }
+    );
+
+    expect(analyzeComputeBudget(transaction)).toMatchObject({
+      computeUnitLimit: 400_000,
+      isDefaultLimit: true,
+      priorityFee: 1,
+      expectedPriorityFee: 1,
+      computeUnitsConsumed: null,
+      unusedPriorityFee: null,
+    });
+  });
+
+  it('charges precompile signatures as part of the base fee', () => {
+    const transaction = buildTransaction([rawInstruction(ED25519_PROGRAM_ID, [2, 0])], { fee: 15_000 });
+
+    expect(analyzeComputeBudget(transaction)).toMatchObject({
+      precompileSignatureCount: 2,
+      baseFee: 15_000,
+      priorityFee: 0,
+    });
+  });
+
+  it('ignores truncated compute budget instructions', () => {
+    const transaction = buildTransaction([rawInstruction(COMPUTE_BUDGET_PROGRAM_ID, [2, 1])]);
+    expect(analyzeComputeBudget(transaction).isDefaultLimit).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import bs58 from 'bs58';
+import { BinaryReader, formatLamports } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+} from './nativeInstruction';
+import { parseInvocationsFromLogs, sumTopLevelComputeUnits } from './logParser';
+import type { ParsedTransaction } from '../types';
+
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+
+// 每个签名的基础费用（lamports）
+export const LAMPORTS_PER_SIGNATURE = 5000;
+// 未设置 CU limit 时每条指令的默认额度
+export const DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT = 200_000;
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// 签名验证预编译程序，数据首字节为签名数量，同样按签名收取基础费用
+const PRECOMPILE_PROGRAM_IDS = new Set([
+  'Ed25519SigVerify111111111111111111111111111',
+  'KeccakSecp256k11111111111111111111111111111',
+  'Secp256r1SigVerify1111111111111111111111111',
+]);
+
+/**
+ * Compute Budget 指令布局（指令类型为 u8，参数为 borsh）
+ */
+const COMPUTE_BUDGET_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  0: {
+    name: 'RequestUnitsDeprecated',
+    accounts: [],
+    decode: (r) => ({ units: r.u32(), additionalFee: formatLamports(r.u32()) }),
+  },
+  1: {
+    name: 'RequestHeapFrame',
+    accounts: [],
+    decode: (r) => ({ bytes: r.u32() }),
+  },
+  2: {
+    name: 'SetComputeUnitLimit',
+    accounts: [],
+    decode: (r) => ({ units: r.u32() }),
+  },
+  3: {
+    name: 'SetComputeUnitPrice',
+    accounts: [],
+    decode: (r) => ({ microLamports: r.u64().toString() }),
+  },
+  4: {
+    name: 'SetLoadedAccountsDataSizeLimit',
+    accounts: [],
+    decode: (r) => ({ bytes: r.u32() }),
+  },
+};
+
+/**
+ * 解码 Compute Budget 指令
+ */
+export function decodeComputeBudgetInstruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 1) {
+    return { name: null, data: null, decodeError: '指令数据为空' };
+  }
+  const reader = new BinaryReader(data);
+  const tag = reader.u8();
+  return decodeByTag(tag, COMPUTE_BUDGET_INSTRUCTIONS, reader, context, 'Compute Budget');
+}
+
+/**
+ * 交易的 Compute Budget 分析结果
+ */
+export interface ComputeBudgetSummary {
+  computeUnitLimit: number;
+  isDefaultLimit: boolean;       // 未设置 SetComputeUnitLimit，使用默认额度
+  computeUnitPrice: bigint;      // micro-lamports / CU
+  heapFrameBytes: number | null;
+  loadedAccountsDataSizeLimit: number | null;
+  computeUnitsConsumed: number | null; // 从日志解析的实际消耗
+  totalFee: number;
+  baseFee: number;
+  precompileSignatureCount: number;   // 预编译程序验证的签名数
+  priorityFee: number;                // 实际优先费 = 总手续费 - 基础费用
+  expectedPriorityFee: number;        // 按 CU price × CU limit 计算的优先费
+  unusedPriorityFee: number | null; // 未使用的 CU 对应的优先费
+}
+
+/**
+ * 分析交易的 CU 限额、CU 价格与手续费构成
+ */
+export function analyzeComputeBudget(transaction: ParsedTransaction): ComputeBudgetSummary {
+  let computeUnitLimit: number | null = null;
+  let computeUnitPrice = 0n;
+  let heapFrameBytes: number | null = null;
+  let loadedAccountsDataSizeLimit: number | null = null;
+  let otherInstructionCount = 0;
+  let precompileSignatureCount = 0;
+
+  for (const ix of transaction.instructions) {
+    if (PRECOMPILE_PROGRAM_IDS.has(ix.programId) && ix.rawData) {
+      try {
+        precompileSignatureCount += bs58.decode(ix.rawData)[0] ?? 0;
+      } catch {
+        // 数据无效，忽略
+      }
+    }
+    if (ix.programId !== COMPUTE_BUDGET_PROGRAM_ID) {
+      otherInstructionCount++;
+      continue;
+    }
+    if (!ix.rawData) continue;
+
+    try {
+      const reader = new BinaryReader(Buffer.from(bs58.decode(ix.rawData)));
+      switch (reader.u8()) {
+        case 1:
+          heapFrameBytes = reader.u32();
+          break;
+        case 2:
+          computeUnitLimit = reader.u32();
+          break;
+        case 3:
+          computeUnitPrice = reader.u64();
+          break;
+        case 4:
+          loadedAccountsDataSizeLimit = reader.u32();
+          break;
+      }
+    } catch {
+      // 数据不完整，忽略该指令
+    }
+  }
+
+  const isDefaultLimit = computeUnitLimit === null;
+  const limit = Math.min(
+    computeUnitLimit ?? otherInstructionCount * DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT,
+    MAX_COMPUTE_UNIT_LIMIT
+  );
+
+  // 实际优先费由链上收取的总手续费推出；预期值 = ceil(CU price * CU limit / 1_000_000)
+  const baseFee = (transaction.signatureCount + precompileSignatureCount) * LAMPORTS_PER_SIGNATURE;
+  const priorityFee = Math.max(transaction.fee - baseFee, 0);
+  const expectedPriorityFee = Number((computeUnitPrice * BigInt(limit) + 999_999n) / 1_000_000n);
+
+  const computeUnitsConsumed = sumTopLevelComputeUnits(parseInvocationsFromLogs(transaction.logs));
+  const unusedPriorityFee =
+    computeUnitsConsumed !== null
+      ? Number((computeUnitPrice * BigInt(Math.max(limit - computeUnitsConsumed, 0))) / 1_000_000n)
+      : null;
+
+  return {
+    computeUnitLimit: limit,
+    isDefaultLimit,
+    computeUnitPrice,
+    heapFrameBytes,
+    loadedAccountsDataSizeLimit,
+    computeUnitsConsumed,
+    totalFee: transaction.fee,
+    baseFee,
+    precompileSignatureCount,
+    priorityFee,
+    expectedPriorityFee,
+    unusedPriorityFee,
+  };
+}
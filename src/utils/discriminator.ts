@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import type { Idl } from '@coral-xyz/anchor';
+import type { DiscriminatorStrategy, IdlConfig } from '../types';
+
+/**
+ * 计算 8 字节 discriminator: sha256(preimage)[..8]
+ * Anchor 指令/账户/事件以及 SPL 接口指令都使用此规则
+ */
+export function computeDiscriminator(preimage: string): Buffer {
+  return createHash('sha256').update(preimage, 'utf8').digest().subarray(0, 8);
+}
+
+/**
+ * 转为 snake_case（与 Anchor 生成指令 sighash 时的规则一致）
+ */
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Anchor sighash discriminator
+ * 指令: sha256("global:<snake_name>")，账户: sha256("account:<Name>")，事件: sha256("event:<Name>")
+ */
+export function computeSighash(kind: 'instruction' | 'account' | 'event', name: string): number[] {
+  const preimage = kind === 'instruction' ? `global:${toSnakeCase(name)}` : `${kind}:${name}`;
+  return [...computeDiscriminator(preimage)];
+}
+
+type WithDiscriminator = { name: string; discriminator?: number[] };
+
+/**
+ * 按策略计算第 index 项的 discriminator
+ */
+function strategyDiscriminator(
+  strategy: Exclude<DiscriminatorStrategy, { kind: 'anchor' }>,
+  item: WithDiscriminator,
+  index: number
+): number[] {
+  switch (strategy.kind) {
+    case 'u8':
+      return [index];
+    case 'u32': {
+      const bytes = Buffer.alloc(4);
+      bytes.writeUInt32LE(index);
+      return [...bytes];
+    }
+    case 'prefix':
+      return Array.from({ length: strategy.length }, (_, i) => item.discriminator?.[i] ?? 0);
+  }
+}
+
+/**
+ * 按 discriminator 策略改写 IDL 中指令、账户、事件的 discriminator
+ * 改写后可直接交给 BorshCoder 编解码
+ */
+export function applyDiscriminatorStrategy(idl: Idl, strategy?: DiscriminatorStrategy): Idl {
+  if (!strategy || strategy.kind === 'anchor') return idl;
+
+  const rewrite = <T extends WithDiscriminator>(items: T[] | undefined): T[] | undefined =>
+    items?.map((item, index) => ({ ...item, discriminator: strategyDiscriminator(strategy, item, index) }));
+
+  return {
+    ...idl,
+    instructions: rewrite(idl.instructions)!,
+    accounts: rewrite(idl.accounts),
+    events: rewrite(idl.events),
+  };
+}
+
+/**
+ * 获取 IdlConfig 实际用于编解码的 IDL
+ */
+export function getEffectiveIdl(config: IdlConfig): Idl {
+  return applyDiscriminatorStrategy(config.idl, config.discriminatorStrategy);
+}
+
+/**
+ * Discriminator 策略的显示名称
+ */
+export function getDiscriminatorStrategyLabel(strategy: DiscriminatorStrategy = { kind: 'anchor' }): string {
+  switch (strategy.kind) {
+    case 'anchor':
+      return 'Anchor (8 字节)';
+    case 'u8':
+      return 'u8 枚举索引';
+    case 'u32':
+      return 'u32 LE 枚举索引';
+    case 'prefix':
+      return `前 ${strategy.length} 字节`;
+  }
+}
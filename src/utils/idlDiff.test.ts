@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Idl } from '@coral-xyz/anchor';
+import { diffIdls } from './idlDiff';
+
+const baseIdl = (overrides: Partial<Idl> = {}): Idl =>
+  ({
+    address: '11111111111111111111111111111111',
+    metadata: { name: 'vault', version: '0.1.0', spec: '0.1.0' },
+    instructions: [
+      {
+        name: 'deposit',
+        discriminator: [1, 1, 1, 1, 1, 1, 1, 1],
+        accounts: [{ name: 'vault', writable: true }, { name: 'owner', signer: true }],
+        args: [{ name: 'amount', type: 'u64' }],
+      },
+    ],
+    errors: [
+      { code: 6000, name: 'Overflow', msg: 'Overflow' },
+      { code: 6001, name: 'Paused', msg: 'Paused' },
+    ],
+    ...overrides,
+  }) as Idl;
+
+const withDeposit = (changes: Record<string, unknown>) =>
+  baseIdl({ instructions: [{ ...baseIdl().instructions[0], ...changes }] as Idl['instructions'] });
+
+describe('diffIdls', () => {
+  it('reports nothing for identical IDLs', () => {
+    expect(diffIdls(baseIdl(), baseIdl())).toEqual([]);
+  });
+
+  it('flags argument renames and type changes as breaking', () => {
+    expect(diffIdls(baseIdl(), withDeposit({ args: [{ name: 'lamports', type: 'u64' }] }))).toMatchObject([
+      { category: 'instruction', kind: 'renamed', path: 'deposit.args.lamports', breaking: true },
+    ]);
+    expect(diffIdls(baseIdl(), withDeposit({ args: [{ name: 'amount', type: 'u32' }] }))).toMatchObject([
+      { kind: 'changed', path: 'deposit.args.amount', breaking: true },
+    ]);
+  });
+
+  it('treats a trailing optional account as compatible', () => {
+    const accounts = [...(baseIdl().instructions[0].accounts), { name: 'referrer', optional: true }];
+    expect(diffIdls(baseIdl(), withDeposit({ accounts }))).toMatchObject([
+      { kind: 'added', breaking: false },
+    ]);
+  });
+
+  it('recognises an instruction rename that keeps the discriminator', () => {
+    expect(diffIdls(baseIdl(), withDeposit({ name: 'depositSol' }))).toMatchObject([
+      { category: 'instruction', kind: 'renamed', path: 'depositSol', breaking: false },
+    ]);
+  });
+
+  it('flags removed errors and changed error codes as breaking', () => {
+    const items = diffIdls(
+      baseIdl(),
+      baseIdl({ errors: [{ code: 6002, name: 'Overflow', msg: 'Overflow' }] })
+    );
+    expect(items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ category: 'error', kind: 'changed', path: 'Overflow', breaking: true }),
+        expect.objectContaining({ category: 'error', kind: 'removed', path: 'Paused', breaking: true }),
+      ])
+    );
+  });
+
+  it('keeps error message changes and new errors non-breaking', () => {
+    const errors = [
+      { code: 6000, name: 'Overflow', msg: 'Math overflow' },
+      { code: 6001, name: 'Paused', msg: 'Paused' },
+      { code: 6002, name: 'Closed', msg: 'Closed' },
+    ];
+    expect(diffIdls(baseIdl(), baseIdl({ errors })).every((item) => !item.breaking)).toBe(true);
+  });
+});
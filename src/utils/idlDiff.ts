@@ -0,0 +1,401 @@
+import type { Idl } from '@coral-xyz/anchor';
+import type { IdlField, IdlInstruction, IdlTypeDef } from '../types';
+import { flattenInstructionAccounts, formatIdlType, normalizeDefinedFields } from './instructionBuilder';
+import type { BuilderAccount } from './instructionBuilder';
+
+export type IdlDiffCategory = 'instruction' | 'account' | 'event' | 'type' | 'error';
+
+/**
+ * IDL 的一处结构差异
+ */
+export interface IdlDiffItem {
+  category: IdlDiffCategory;
+  kind: 'added' | 'removed' | 'renamed' | 'changed';
+  path: string;      // 如 "swap.args.amount"
+  message: string;
+  breaking: boolean; // 是否破坏已有客户端（编码、解析或调用方式改变）
+}
+
+type Named = { name: string; discriminator?: number[] };
+
+const discriminatorHex = (item: Named) =>
+  item.discriminator?.length ? `0x${Buffer.from(item.discriminator).toString('hex')}` : '';
+
+// 指令签名（参数类型 + 账户顺序），用于识别改名
+const instructionSignature = (ix: IdlInstruction) =>
+  JSON.stringify([ix.args.map((a) => a.type), flattenInstructionAccounts(ix.accounts).map((a) => a.name)]);
+
+/**
+ * 按名称匹配两侧条目，未匹配的条目再按 discriminator 或签名识别改名
+ */
+function matchByName<T extends Named>(
+  before: T[],
+  after: T[],
+  isSameItem: (a: T, b: T) => boolean
+): { pairs: [T, T][]; renamed: [T, T][]; removed: T[]; added: T[] } {
+  const pairs: [T, T][] = [];
+  const renamed: [T, T][] = [];
+  const afterByName = new Map(after.map((item) => [item.name, item]));
+  const unmatchedBefore: T[] = [];
+
+  for (const item of before) {
+    const match = afterByName.get(item.name);
+    if (match) {
+      pairs.push([item, match]);
+      afterByName.delete(item.name);
+    } else {
+      unmatchedBefore.push(item);
+    }
+  }
+
+  const added = [...afterByName.values()];
+  const removed: T[] = [];
+  for (const item of unmatchedBefore) {
+    const index = added.findIndex((candidate) => isSameItem(item, candidate));
+    if (index >= 0) {
+      renamed.push([item, added[index]]);
+      added.splice(index, 1);
+    } else {
+      removed.push(item);
+    }
+  }
+  return { pairs, renamed, removed, added };
+}
+
+const sameDiscriminator = (a: Named, b: Named) => discriminatorHex(a) !== '' && discriminatorHex(a) === discriminatorHex(b);
+
+/**
+ * 比较按位置排列的字段（borsh 按顺序编码）
+ * @param appendable - 末尾追加字段是否兼容（账户 / 事件数据多出的字节不影响旧客户端解析）
+ */
+function diffFields(
+  before: IdlField[],
+  after: IdlField[],
+  category: IdlDiffCategory,
+  path: string,
+  appendable: boolean
+): IdlDiffItem[] {
+  const items: IdlDiffItem[] = [];
+  const common = Math.min(before.length, after.length);
+
+  for (let i = 0; i < common; i++) {
+    const a = before[i];
+    const b = after[i];
+    const typeA = formatIdlType(a.type);
+    const typeB = formatIdlType(b.type);
+    if (JSON.stringify(a.type) !== JSON.stringify(b.type)) {
+      items.push({
+        category,
+        kind: 'changed',
+        path: `${path}.${b.name}`,
+        message: `第 ${i} 个字段 ${a.name}: ${typeA} → ${b.name}: ${typeB}`,
+        breaking: true,
+      });
+    } else if (a.name !== b.name) {
+      items.push({
+        category,
+        kind: 'renamed',
+        path: `${path}.${b.name}`,
+        // 布局不变，但 Anchor TS 客户端按名称构造参数、读取字段
+        message: `字段改名 ${a.name} → ${b.name}（类型不变，按名称访问的客户端需修改）`,
+        breaking: true,
+      });
+    }
+  }
+  for (const field of after.slice(common)) {
+    items.push({
+      category,
+      kind: 'added',
+      path: `${path}.${field.name}`,
+      message: `末尾新增字段 ${field.name}: ${formatIdlType(field.type)}`,
+      breaking: !appendable,
+    });
+  }
+  for (const field of before.slice(common)) {
+    items.push({
+      category,
+      kind: 'removed',
+      path: `${path}.${field.name}`,
+      message: `删除字段 ${field.name}: ${formatIdlType(field.type)}`,
+      breaking: true,
+    });
+  }
+  return items;
+}
+
+/**
+ * 比较指令账户列表（顺序、可写、签名）
+ */
+function diffInstructionAccounts(before: BuilderAccount[], after: BuilderAccount[], path: string): IdlDiffItem[] {
+  const items: IdlDiffItem[] = [];
+  const namesBefore = before.map((a) => a.name);
+  const namesAfter = after.map((a) => a.name);
+  const sameSet = namesBefore.length === namesAfter.length && namesBefore.every((n) => namesAfter.includes(n));
+
+  if (sameSet && namesBefore.join() !== namesAfter.join()) {
+    items.push({
+      category: 'instruction',
+      kind: 'changed',
+      path: `${path}.accounts`,
+      message: `账户顺序调整: ${namesBefore.join(', ')} → ${namesAfter.join(', ')}`,
+      breaking: true,
+    });
+  }
+
+  const common = Math.min(before.length, after.length);
+  for (let i = 0; i < common; i++) {
+    const a = before[i];
+    const b = after[i];
+    if (!sameSet && a.name !== b.name) {
+      // 两个名称都只出现在一侧时视为改名，否则是插入 / 删除导致的错位
+      const isRename = !namesAfter.includes(a.name) && !namesBefore.includes(b.name);
+      items.push({
+        category: 'instruction',
+        kind: isRename ? 'renamed' : 'changed',
+        path: `${path}.accounts.${b.name}`,
+        message: isRename ? `账户改名 ${a.name} → ${b.name}` : `第 ${i} 个账户 ${a.name} → ${b.name}`,
+        breaking: !isRename,
+      });
+    }
+    const flags = (acc: BuilderAccount) =>
+      [acc.writable && 'writable', acc.signer && 'signer', acc.optional && 'optional'].filter(Boolean).join(' ') || 'readonly';
+    const counterpart = sameSet ? after.find((acc) => acc.name === a.name)! : b;
+    if (flags(a) !== flags(counterpart)) {
+      items.push({
+        category: 'instruction',
+        kind: 'changed',
+        path: `${path}.accounts.${counterpart.name}`,
+        message: `账户属性 ${flags(a)} → ${flags(counterpart)}`,
+        breaking: true,
+      });
+    }
+  }
+  for (const acc of after.slice(common)) {
+    items.push({
+      category: 'instruction',
+      kind: 'added',
+      path: `${path}.accounts.${acc.name}`,
+      message: `末尾新增${acc.optional ? '可选' : ''}账户 ${acc.name}`,
+      breaking: !acc.optional,
+    });
+  }
+  for (const acc of before.slice(common)) {
+    items.push({
+      category: 'instruction',
+      kind: 'removed',
+      path: `${path}.accounts.${acc.name}`,
+      message: `删除账户 ${acc.name}`,
+      breaking: true,
+    });
+  }
+  return items;
+}
+
+function diffInstructions(before: Idl, after: Idl): IdlDiffItem[] {
+  const items: IdlDiffItem[] = [];
+  const { pairs, renamed, removed, added } = matchByName(
+    before.instructions,
+    after.instructions,
+    (a, b) =>
+      sameDiscriminator(a, b) ||
+      // 无参数、无账户的指令签名相同不能说明是同一条指令
+      ((a.args.length > 0 || a.accounts.length > 0) && instructionSignature(a) === instructionSignature(b))
+  );
+
+  for (const ix of removed) {
+    items.push({ category: 'instruction', kind: 'removed', path: ix.name, message: '删除指令', breaking: true });
+  }
+  for (const ix of added) {
+    items.push({ category: 'instruction', kind: 'added', path: ix.name, message: '新增指令', breaking: false });
+  }
+  for (const [a, b] of renamed) {
+    const keepsDiscriminator = sameDiscriminator(a, b);
+    items.push({
+      category: 'instruction',
+      kind: 'renamed',
+      path: b.name,
+      message: `指令改名 ${a.name} → ${b.name}${keepsDiscriminator ? '（discriminator 不变）' : `，discriminator ${discriminatorHex(a)} → ${discriminatorHex(b)}`}`,
+      breaking: !keepsDiscriminator,
+    });
+  }
+
+  for (const [a, b] of [...pairs, ...renamed]) {
+    if (a.name === b.name && discriminatorHex(a) !== discriminatorHex(b)) {
+      items.push({
+        category: 'instruction',
+        kind: 'changed',
+        path: b.name,
+        message: `discriminator ${discriminatorHex(a) || '(无)'} → ${discriminatorHex(b) || '(无)'}`,
+        breaking: true,
+      });
+    }
+    items.push(...diffFields(a.args, b.args, 'instruction', `${b.name}.args`, false));
+    items.push(
+      ...diffInstructionAccounts(flattenInstructionAccounts(a.accounts), flattenInstructionAccounts(b.accounts), b.name)
+    );
+  }
+  return items;
+}
+
+/**
+ * 比较类型定义的布局
+ */
+function diffTypeDef(
+  a: IdlTypeDef,
+  b: IdlTypeDef,
+  category: IdlDiffCategory,
+  appendable: boolean
+): IdlDiffItem[] {
+  if (a.type.kind !== b.type.kind) {
+    return [{ category, kind: 'changed', path: b.name, message: `类型由 ${a.type.kind} 变为 ${b.type.kind}`, breaking: true }];
+  }
+  if (a.type.kind === 'struct' && b.type.kind === 'struct') {
+    return diffFields(
+      normalizeDefinedFields(a.type.fields),
+      normalizeDefinedFields(b.type.fields),
+      category,
+      b.name,
+      appendable
+    );
+  }
+  if (a.type.kind === 'enum' && b.type.kind === 'enum') {
+    const items: IdlDiffItem[] = [];
+    const variantsA = a.type.variants;
+    const variantsB = b.type.variants;
+    variantsA.forEach((variant, i) => {
+      const counterpart = variantsB[i];
+      if (!counterpart) {
+        items.push({ category, kind: 'removed', path: `${b.name}::${variant.name}`, message: `删除枚举变体 ${variant.name}`, breaking: true });
+      } else if (JSON.stringify(variant.fields ?? []) !== JSON.stringify(counterpart.fields ?? [])) {
+        items.push({ category, kind: 'changed', path: `${b.name}::${counterpart.name}`, message: `第 ${i} 个变体 ${variant.name} 的字段改变`, breaking: true });
+      } else if (variant.name !== counterpart.name) {
+        items.push({ category, kind: 'renamed', path: `${b.name}::${counterpart.name}`, message: `第 ${i} 个变体改名 ${variant.name} → ${counterpart.name}`, breaking: false });
+      }
+    });
+    for (const variant of variantsB.slice(variantsA.length)) {
+      items.push({ category, kind: 'added', path: `${b.name}::${variant.name}`, message: `末尾新增枚举变体 ${variant.name}`, breaking: false });
+    }
+    return items;
+  }
+  if (a.type.kind === 'type' && b.type.kind === 'type' && JSON.stringify(a.type.alias) !== JSON.stringify(b.type.alias)) {
+    return [{
+      category,
+      kind: 'changed',
+      path: b.name,
+      message: `别名 ${formatIdlType(a.type.alias)} → ${formatIdlType(b.type.alias)}`,
+      breaking: true,
+    }];
+  }
+  return [];
+}
+
+/**
+ * 比较账户 / 事件：条目增删、discriminator、数据布局
+ */
+function diffDataItems(
+  before: Named[],
+  after: Named[],
+  beforeIdl: Idl,
+  afterIdl: Idl,
+  category: 'account' | 'event'
+): IdlDiffItem[] {
+  const label = category === 'account' ? '账户类型' : '事件';
+  const items: IdlDiffItem[] = [];
+  const { pairs, renamed, removed, added } = matchByName(before, after, sameDiscriminator);
+
+  for (const item of removed) {
+    items.push({ category, kind: 'removed', path: item.name, message: `删除${label}`, breaking: true });
+  }
+  for (const item of added) {
+    items.push({ category, kind: 'added', path: item.name, message: `新增${label}`, breaking: false });
+  }
+  for (const [a, b] of renamed) {
+    items.push({ category, kind: 'renamed', path: b.name, message: `${label}改名 ${a.name} → ${b.name}（discriminator 不变）`, breaking: false });
+  }
+  for (const [a, b] of [...pairs, ...renamed]) {
+    if (discriminatorHex(a) !== discriminatorHex(b)) {
+      items.push({
+        category,
+        kind: 'changed',
+        path: b.name,
+        message: `discriminator ${discriminatorHex(a) || '(无)'} → ${discriminatorHex(b) || '(无)'}`,
+        breaking: true,
+      });
+    }
+    const typeA = beforeIdl.types?.find((t) => t.name === a.name);
+    const typeB = afterIdl.types?.find((t) => t.name === b.name);
+    if (typeA && typeB) {
+      items.push(...diffTypeDef(typeA, typeB, category, true));
+    }
+  }
+  return items;
+}
+
+/**
+ * 比较自定义类型（账户与事件的类型在各自分类中比较）
+ */
+function diffTypes(before: Idl, after: Idl): IdlDiffItem[] {
+  const dataNames = new Set(
+    [before, after].flatMap((idl) => [...(idl.accounts ?? []), ...(idl.events ?? [])].map((item) => item.name))
+  );
+  const typesA = (before.types ?? []).filter((t) => !dataNames.has(t.name));
+  const typesB = (after.types ?? []).filter((t) => !dataNames.has(t.name));
+  const items: IdlDiffItem[] = [];
+  const { pairs, removed, added } = matchByName(typesA, typesB, () => false);
+
+  for (const t of removed) {
+    items.push({ category: 'type', kind: 'removed', path: t.name, message: '删除类型', breaking: true });
+  }
+  for (const t of added) {
+    items.push({ category: 'type', kind: 'added', path: t.name, message: '新增类型', breaking: false });
+  }
+  for (const [a, b] of pairs) {
+    // 自定义类型可能用于指令参数，末尾追加字段同样会改变编码
+    items.push(...diffTypeDef(a, b, 'type', false));
+  }
+  return items;
+}
+
+function diffErrors(before: Idl, after: Idl): IdlDiffItem[] {
+  const items: IdlDiffItem[] = [];
+  const errorsA = before.errors ?? [];
+  const errorsB = after.errors ?? [];
+
+  for (const a of errorsA) {
+    const byName = errorsB.find((e) => e.name === a.name);
+    const byCode = errorsB.find((e) => e.code === a.code);
+    if (byName && byName.code !== a.code) {
+      items.push({ category: 'error', kind: 'changed', path: a.name, message: `错误码 ${a.code} → ${byName.code}`, breaking: true });
+    } else if (!byName && byCode) {
+      items.push({ category: 'error', kind: 'renamed', path: byCode.name, message: `错误码 ${a.code} 改名 ${a.name} → ${byCode.name}`, breaking: false });
+    } else if (!byName) {
+      // 客户端与错误解码依赖错误码
+      items.push({ category: 'error', kind: 'removed', path: a.name, message: `删除错误 ${a.code}`, breaking: true });
+    } else if ((byName.msg ?? '') !== (a.msg ?? '')) {
+      items.push({ category: 'error', kind: 'changed', path: a.name, message: `错误信息 "${a.msg ?? ''}" → "${byName.msg ?? ''}"`, breaking: false });
+    }
+  }
+  for (const b of errorsB) {
+    if (!errorsA.some((e) => e.name === b.name || e.code === b.code)) {
+      items.push({ category: 'error', kind: 'added', path: b.name, message: `新增错误 ${b.code}`, breaking: false });
+    }
+    const reused = errorsA.find((e) => e.code === b.code && e.name !== b.name);
+    if (reused && errorsB.some((e) => e.name === reused.name)) {
+      items.push({ category: 'error', kind: 'changed', path: b.name, message: `错误码 ${b.code} 由 ${reused.name} 改为 ${b.name}`, breaking: true });
+    }
+  }
+  return items;
+}
+
+/**
+ * 结构化比较两个 IDL（传入按 discriminator 策略改写后的 IDL）
+ */
+export function diffIdls(before: Idl, after: Idl): IdlDiffItem[] {
+  return [
+    ...diffInstructions(before, after),
+    ...diffDataItems(before.accounts ?? [], after.accounts ?? [], before, after, 'account'),
+    ...diffDataItems(before.events ?? [], after.events ?? [], before, after, 'event'),
+    ...diffTypes(before, after),
+    ...diffErrors(before, after),
+  ];
+}
@@ -0,0 +1,111 @@
+import type { Idl } from '@coral-xyz/anchor';
+import type { IdlField, IdlType } from '../types';
+import { findTypeDef, normalizeDefinedFields } from './instructionBuilder';
+
+/**
+ * borsh 编码后的字节数
+ * fixed 为 false 时 min 是最小长度（如 String 为 4 字节长度前缀）
+ */
+export interface TypeSize {
+  min: number;
+  fixed: boolean;
+}
+
+/**
+ * struct 字段的字节布局
+ */
+export interface FieldLayout {
+  name: string;
+  type: IdlType;
+  offset: number | null; // 前面有变长字段时无法确定
+  size: TypeSize;
+}
+
+const PRIMITIVE_SIZES: Record<string, number> = {
+  bool: 1, u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, f32: 4,
+  u64: 8, i64: 8, f64: 8, u128: 16, i128: 16, u256: 32, i256: 32, pubkey: 32,
+};
+
+// 递归类型的展开深度上限
+const MAX_LAYOUT_DEPTH = 16;
+
+const variable = (min: number): TypeSize => ({ min, fixed: false });
+
+function sumSizes(sizes: TypeSize[]): TypeSize {
+  return {
+    min: sizes.reduce((total, s) => total + s.min, 0),
+    fixed: sizes.every((s) => s.fixed),
+  };
+}
+
+/**
+ * 计算类型的 borsh 字节数
+ */
+export function getTypeSize(idl: Idl, type: IdlType, depth = 0): TypeSize {
+  if (depth > MAX_LAYOUT_DEPTH) return variable(0);
+  if (typeof type === 'string') {
+    return type in PRIMITIVE_SIZES ? { min: PRIMITIVE_SIZES[type], fixed: true } : variable(4); // string / bytes
+  }
+  if ('option' in type) return variable(1);
+  if ('coption' in type) {
+    const inner = getTypeSize(idl, type.coption, depth + 1);
+    return { min: 4 + inner.min, fixed: inner.fixed };
+  }
+  if ('vec' in type) return variable(4);
+  if ('array' in type) {
+    const [inner, len] = type.array;
+    if (typeof len !== 'number') return variable(0);
+    const item = getTypeSize(idl, inner, depth + 1);
+    return { min: item.min * len, fixed: item.fixed };
+  }
+  if ('defined' in type) {
+    const typeDef = findTypeDef(idl, type.defined.name);
+    if (!typeDef) return variable(0);
+    switch (typeDef.type.kind) {
+      case 'struct':
+        return sumSizes(
+          normalizeDefinedFields(typeDef.type.fields).map((f) => getTypeSize(idl, f.type, depth + 1))
+        );
+      case 'enum': {
+        // 1 字节变体索引 + 变体字段，各变体长度相同时才是定长
+        const variants = typeDef.type.variants.map((v) =>
+          sumSizes(normalizeDefinedFields(v.fields).map((f) => getTypeSize(idl, f.type, depth + 1)))
+        );
+        if (variants.length === 0) return { min: 1, fixed: true };
+        const min = Math.min(...variants.map((v) => v.min));
+        const fixed = variants.every((v) => v.fixed && v.min === min);
+        return { min: 1 + min, fixed };
+      }
+      case 'type':
+        return getTypeSize(idl, typeDef.type.alias, depth + 1);
+    }
+  }
+  return variable(0); // generic
+}
+
+/**
+ * 计算 struct 各字段的偏移与长度
+ * @param start - 起始偏移（账户 / 事件为 discriminator 长度）
+ */
+export function computeFieldsLayout(
+  idl: Idl,
+  fields: IdlField[],
+  start = 0
+): { fields: FieldLayout[]; size: TypeSize } {
+  let offset: number | null = start;
+  const layout = fields.map((field) => {
+    const size = getTypeSize(idl, field.type);
+    const item: FieldLayout = { name: field.name, type: field.type, offset, size };
+    offset = offset !== null && size.fixed ? offset + size.min : null;
+    return item;
+  });
+  const total = sumSizes(layout.map((f) => f.size));
+  return { fields: layout, size: { min: start + total.min, fixed: total.fixed } };
+}
+
+/**
+ * 字节数的显示文本
+ */
+export function formatTypeSize(size: TypeSize): string {
+  return size.fixed ? `${size.min}` : `≥ ${size.min}`;
+}
@@ -0,0 +1,225 @@
+import type { Idl } from '@coral-xyz/anchor';
+import type { IdlConfig, IdlType } from '../types';
+import { computeSighash, getEffectiveIdl } from './discriminator';
+import { normalizeDefinedFields } from './instructionBuilder';
+
+/**
+ * IDL 检查结果
+ * error: 解析时必然出错或匹配错误；warning: 可能导致解析失败；info: 已自动修复
+ */
+export interface IdlLintIssue {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+type DiscriminatorKind = 'instruction' | 'account' | 'event';
+
+interface DiscriminatorEntry {
+  kind: DiscriminatorKind;
+  name: string;
+  discriminator: number[];
+}
+
+const KIND_LABELS: Record<DiscriminatorKind, string> = {
+  instruction: '指令',
+  account: '账户',
+  event: '事件',
+};
+
+const toHex = (bytes: number[]) => Buffer.from(bytes).toString('hex');
+
+const describe = (entry: DiscriminatorEntry) => `${KIND_LABELS[entry.kind]} ${entry.name}`;
+
+// 按前缀匹配时，一方是另一方的前缀即视为冲突
+const isPrefixCollision = (a: number[], b: number[]) => {
+  const length = Math.min(a.length, b.length);
+  return length > 0 && a.slice(0, length).every((byte, i) => byte === b[i]);
+};
+
+function collectDiscriminators(idl: Idl): DiscriminatorEntry[] {
+  const entries: DiscriminatorEntry[] = [];
+  const add = (kind: DiscriminatorKind, items: { name: string; discriminator?: number[] }[] | undefined) => {
+    for (const item of items ?? []) {
+      // 空 discriminator（如没有 key 字段的 Shank 账户）无法匹配，不参与检查
+      if (item.discriminator?.length) {
+        entries.push({ kind, name: item.name, discriminator: item.discriminator });
+      }
+    }
+  };
+  add('instruction', idl.instructions);
+  add('account', idl.accounts);
+  add('event', idl.events);
+  return entries;
+}
+
+/**
+ * 类型中引用的自定义类型名
+ */
+function collectDefinedNames(type: IdlType, names: Set<string>): void {
+  if (typeof type === 'string') return;
+  if ('option' in type) collectDefinedNames(type.option, names);
+  else if ('coption' in type) collectDefinedNames(type.coption, names);
+  else if ('vec' in type) collectDefinedNames(type.vec, names);
+  else if ('array' in type) collectDefinedNames(type.array[0], names);
+  else if ('defined' in type) {
+    // 旧版语法 defined: "X"
+    names.add(typeof type.defined === 'string' ? type.defined : type.defined.name);
+    for (const generic of type.defined.generics ?? []) {
+      if (generic.kind === 'type') collectDefinedNames(generic.type, names);
+    }
+  }
+}
+
+/**
+ * 是否可以按 Anchor sighash 补全 discriminator
+ * Shank / Codama 的空 discriminator 是有意为之，其他策略会在解析时重新生成
+ */
+function canComputeSighash(config: IdlConfig): boolean {
+  return (config.originalVersion === 'legacy' || config.originalVersion === 'modern') &&
+    (config.discriminatorStrategy?.kind ?? 'anchor') === 'anchor';
+}
+
+/**
+ * 按 Anchor sighash 补全缺失的 discriminator
+ * @returns 补全后的 IDL 与被补全条目的描述
+ */
+export function fillMissingDiscriminators(config: IdlConfig): { idl: Idl; filled: string[] } {
+  if (!canComputeSighash(config)) return { idl: config.idl, filled: [] };
+
+  const filled: string[] = [];
+  const fill = <T extends { name: string; discriminator?: number[] }>(
+    kind: DiscriminatorKind,
+    items: T[] | undefined
+  ): T[] | undefined =>
+    items?.map((item) => {
+      if (item.discriminator) return item;
+      filled.push(`${KIND_LABELS[kind]} ${item.name}`);
+      return { ...item, discriminator: computeSighash(kind, item.name) };
+    });
+
+  const idl: Idl = {
+    ...config.idl,
+    instructions: fill('instruction', config.idl.instructions)!,
+    accounts: fill('account', config.idl.accounts),
+    events: fill('event', config.idl.events),
+  };
+  return { idl, filled };
+}
+
+/**
+ * 检查缺失的 discriminator（按 discriminator 查找名称时会被忽略）
+ */
+function lintMissingDiscriminators(idl: Idl): IdlLintIssue[] {
+  const missing = [
+    ...idl.instructions.filter((ix) => !ix.discriminator).map((ix) => `指令 ${ix.name}`),
+    ...(idl.accounts ?? []).filter((a) => !a.discriminator).map((a) => `账户 ${a.name}`),
+    ...(idl.events ?? []).filter((e) => !e.discriminator).map((e) => `事件 ${e.name}`),
+  ];
+  return missing.length > 0
+    ? [{ severity: 'error', message: `缺少 discriminator，解析时无法匹配: ${missing.join(', ')}` }]
+    : [];
+}
+
+/**
+ * 检查 IDL 内部重复的 discriminator
+ * 同类条目重复会匹配到错误的名称；不同类条目重复通常无害（数据来源不同），只对 sighash 提示
+ */
+function lintDuplicateDiscriminators(entries: DiscriminatorEntry[], isSighash: boolean): IdlLintIssue[] {
+  const issues: IdlLintIssue[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (a.kind !== b.kind && !isSighash) continue;
+      if (!isPrefixCollision(a.discriminator, b.discriminator)) continue;
+      issues.push({
+        severity: a.kind === b.kind ? 'error' : 'warning',
+        message: `${describe(a)} 与 ${describe(b)} 的 discriminator 冲突 (${toHex(a.discriminator)} / ${toHex(b.discriminator)})`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * 检查与其他共用 Program 地址的 IDL 之间的 discriminator 冲突
+ */
+function lintCrossConfigCollisions(
+  config: IdlConfig,
+  entries: DiscriminatorEntry[],
+  others: IdlConfig[]
+): IdlLintIssue[] {
+  const issues: IdlLintIssue[] = [];
+  for (const other of others) {
+    if (other.id === config.id || !other.programIds.some((id) => config.programIds.includes(id))) continue;
+    const otherEntries = collectDiscriminators(getEffectiveIdl(other));
+    for (const a of entries) {
+      for (const b of otherEntries) {
+        if (a.kind !== b.kind || !isPrefixCollision(a.discriminator, b.discriminator)) continue;
+        issues.push({
+          severity: 'warning',
+          message: `${describe(a)} 与「${other.name}」的${describe(b)} discriminator 相同 (${toHex(a.discriminator)})，共用 Program 地址时可能匹配到错误的 IDL`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * 检查未定义的类型引用（BorshCoder 创建或解析时会失败）
+ */
+function lintUndefinedTypes(idl: Idl): IdlLintIssue[] {
+  const defined = new Set((idl.types ?? []).map((t) => t.name));
+  const issues: IdlLintIssue[] = [];
+  const check = (location: string, types: IdlType[]) => {
+    const names = new Set<string>();
+    types.forEach((type) => collectDefinedNames(type, names));
+    const undefinedNames = [...names].filter((name) => !defined.has(name));
+    if (undefinedNames.length > 0) {
+      issues.push({ severity: 'error', message: `${location} 引用了未定义的类型: ${undefinedNames.join(', ')}` });
+    }
+  };
+
+  for (const ix of idl.instructions) {
+    check(`指令 ${ix.name}`, ix.args.map((arg) => arg.type));
+  }
+  for (const typeDef of idl.types ?? []) {
+    const { type } = typeDef;
+    const fields =
+      type.kind === 'struct'
+        ? normalizeDefinedFields(type.fields).map((f) => f.type)
+        : type.kind === 'enum'
+          ? type.variants.flatMap((v) => normalizeDefinedFields(v.fields).map((f) => f.type))
+          : [type.alias];
+    check(`类型 ${typeDef.name}`, fields);
+  }
+  for (const constant of idl.constants ?? []) {
+    check(`常量 ${constant.name}`, [constant.type]);
+  }
+
+  // 账户与事件的数据结构在 types 中同名定义
+  for (const [kind, items] of [['账户', idl.accounts], ['事件', idl.events]] as const) {
+    const missing = (items ?? []).filter((item) => !defined.has(item.name)).map((item) => item.name);
+    if (missing.length > 0) {
+      issues.push({ severity: 'error', message: `${kind}缺少同名类型定义: ${missing.join(', ')}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * 保存 IDL 前的检查
+ * @param config - 待保存的配置（discriminator 已补全）
+ * @param idlConfigs - 已有的配置，用于检查共用 Program 地址的冲突
+ */
+export function lintIdlConfig(config: IdlConfig, idlConfigs: IdlConfig[]): IdlLintIssue[] {
+  const idl = getEffectiveIdl(config);
+  const entries = collectDiscriminators(idl);
+  return [
+    ...lintMissingDiscriminators(idl),
+    ...lintDuplicateDiscriminators(entries, canComputeSighash(config)),
+    ...lintCrossConfigCollisions(config, entries, idlConfigs),
+    ...lintUndefinedTypes(idl),
+  ];
+}
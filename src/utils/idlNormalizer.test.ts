@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { BorshCoder } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { detectIdlVersion, normalizeIdl } from './idlNormalizer';
+
+const keyBytes = (seed: number) => Buffer.alloc(32, seed);
+
+const u16 = (value: number) => {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16LE(value);
+  return bytes;
+};
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+
+const discriminatorOf = (idl: Idl, name: string) => idl.instructions.find((ix) => ix.name === name)?.discriminator;
+
+// sha256("global:initialize")[..8]
+const INITIALIZE_SIGHASH = [175, 175, 109, 31, 13, 152, 155, 237];
+
+describe('normalizeIdl (legacy Anchor)', () => {
+  const legacyIdl = {
+    version: '0.1.0',
+    name: 'counter',
+    instructions: [
+      {
+        name: 'initialize',
+        accounts: [
+          { name: 'counter', isMut: true, isSigner: false },
+          { name: 'authority', isMut: false, isSigner: true },
+        ],
+        args: [{ name: 'start', type: 'u64' }],
+      },
+      {
+        name: 'reset',
+        accounts: [{ name: 'counter', isMut: true, isSigner: false }],
+        args: [],
+        discriminator: [9, 9, 9, 9, 9, 9, 9, 9],
+      },
+    ],
+    accounts: [
+      { name: 'Counter', type: { kind: 'struct', fields: [{ name: 'authority', type: 'publicKey' }, { name: 'count', type: 'u64' }] } },
+    ],
+  };
+
+  it('computes missing sighash discriminators and keeps existing ones', () => {
+    expect(detectIdlVersion(legacyIdl)).toBe('legacy');
+    const idl = normalizeIdl(legacyIdl);
+    expect(discriminatorOf(idl, 'initialize')).toEqual(INITIALIZE_SIGHASH);
+    expect(discriminatorOf(idl, 'reset')).toEqual([9, 9, 9, 9, 9, 9, 9, 9]);
+    expect(idl.instructions[0].accounts).toEqual([
+      { name: 'counter', writable: true },
+      { name: 'authority', signer: true },
+    ]);
+  });
+
+  it('decodes instruction and account bytes with the converted IDL', () => {
+    const idl = normalizeIdl(legacyIdl);
+    const coder = new BorshCoder(idl);
+    const ix = coder.instruction.decode(Buffer.concat([Buffer.from(INITIALIZE_SIGHASH), u64(42n)]));
+    expect(ix?.name).toBe('initialize');
+    expect((ix?.data as { start: { toString(): string } }).start.toString()).toBe('42');
+
+    const account = coder.accounts.decode<{ authority: PublicKey; count: { toString(): string } }>(
+      'Counter',
+      Buffer.concat([Buffer.from(idl.accounts![0].discriminator), keyBytes(1), u64(7n)])
+    );
+    expect(account.authority.equals(new PublicKey(keyBytes(1)))).toBe(true);
+    expect(account.count.toString()).toBe('7');
+  });
+});
+
+describe('normalizeIdl (Shank)', () => {
+  const shankIdl = {
+    version: '1.0.0',
+    name: 'token_metadata',
+    instructions: [
+      {
+        name: 'Mint',
+        accounts: [{ name: 'payer', isMut: true, isSigner: true, desc: 'Payer' }],
+        args: [{ name: 'amount', type: 'u64' }],
+        discriminant: { type: 'u8', value: 3 },
+      },
+    ],
+    accounts: [
+      {
+        name: 'Metadata',
+        type: { kind: 'struct', fields: [{ name: 'key', type: { defined: 'Key' } }, { name: 'updateAuthority', type: 'publicKey' }] },
+      },
+      {
+        name: 'Orphan',
+        type: { kind: 'struct', fields: [{ name: 'value', type: 'u16' }] },
+      },
+    ],
+    types: [
+      { name: 'Key', type: { kind: 'enum', variants: [{ name: 'Uninitialized' }, { name: 'EditionV1' }, { name: 'MetadataV1' }] } },
+    ],
+    metadata: { origin: 'shank', address: 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s' },
+  };
+
+  it('uses the discriminant byte and the leading key variant as discriminators', () => {
+    expect(detectIdlVersion(shankIdl)).toBe('shank');
+    const idl = normalizeIdl(shankIdl);
+    expect(discriminatorOf(idl, 'Mint')).toEqual([3]);
+    expect(idl.instructions[0].accounts).toEqual([{ name: 'payer', writable: true, signer: true, docs: ['Payer'] }]);
+    expect(idl.accounts).toEqual([
+      { name: 'Metadata', discriminator: [2] },
+      { name: 'Orphan', discriminator: [] },
+    ]);
+  });
+
+  it('decodes instruction and account bytes with the converted IDL', () => {
+    const coder = new BorshCoder(normalizeIdl(shankIdl));
+    const ix = coder.instruction.decode(Buffer.concat([Buffer.from([3]), u64(5n)]));
+    expect(ix?.name).toBe('Mint');
+
+    const account = coder.accounts.decode<{ updateAuthority: PublicKey }>(
+      'Metadata',
+      Buffer.concat([Buffer.from([2]), keyBytes(4)])
+    );
+    expect(account.updateAuthority.equals(new PublicKey(keyBytes(4)))).toBe(true);
+  });
+});
+
+describe('normalizeIdl (Codama)', () => {
+  const u8 = { kind: 'numberTypeNode', format: 'u8', endian: 'le' };
+  const number = (format: string) => ({ kind: 'numberTypeNode', format, endian: 'le' });
+  const argument = (name: string, type: unknown, defaultValue?: unknown) => ({
+    kind: 'instructionArgumentNode',
+    name,
+    type,
+    ...(defaultValue ? { defaultValue } : {}),
+  });
+  const instruction = (name: string, args: unknown[], discriminators?: unknown[]) => ({
+    kind: 'instructionNode',
+    name,
+    accounts: [{ kind: 'instructionAccountNode', name: 'authority', isWritable: false, isSigner: true }],
+    arguments: args,
+    ...(discriminators ? { discriminators } : {}),
+  });
+
+  const codamaIdl = {
+    kind: 'rootNode',
+    standard: 'codama',
+    version: '1.0.0',
+    program: {
+      kind: 'programNode',
+      name: 'vault',
+      publicKey: '11111111111111111111111111111111',
+      version: '0.1.0',
+      accounts: [
+        {
+          kind: 'accountNode',
+          name: 'vaultState',
+          data: {
+            kind: 'structTypeNode',
+            fields: [
+              {
+                kind: 'structFieldTypeNode',
+                name: 'discriminator',
+                type: { kind: 'fixedSizeTypeNode', size: 2, type: { kind: 'bytesTypeNode' } },
+                defaultValue: { kind: 'bytesValueNode', encoding: 'base16', data: '0102' },
+              },
+              { kind: 'structFieldTypeNode', name: 'amount', type: number('u64') },
+            ],
+          },
+          discriminators: [{ kind: 'fieldDiscriminatorNode', name: 'discriminator', offset: 0 }],
+        },
+        {
+          kind: 'accountNode',
+          name: 'plain',
+          data: { kind: 'structTypeNode', fields: [{ kind: 'structFieldTypeNode', name: 'value', type: u8 }] },
+        },
+      ],
+      instructions: [
+        instruction('deposit', [
+          argument('discriminator', u8, { kind: 'numberValueNode', number: 7 }),
+          argument('amount', number('u64')),
+        ]),
+        instruction(
+          'withOffset',
+          [
+            argument('version', u8, { kind: 'numberValueNode', number: 1 }),
+            argument('discriminator', number('u16'), { kind: 'numberValueNode', number: 258 }),
+            argument('flag', u8),
+          ],
+          [{ kind: 'fieldDiscriminatorNode', name: 'discriminator', offset: 1 }]
+        ),
+        instruction(
+          'withConstant',
+          [argument('flag', u8)],
+          [{
+            kind: 'constantDiscriminatorNode',
+            offset: 0,
+            constant: {
+              kind: 'constantValueNode',
+              type: { kind: 'bytesTypeNode' },
+              value: { kind: 'bytesValueNode', encoding: 'base16', data: '0a0b' },
+            },
+          }]
+        ),
+        instruction('noDiscriminator', [argument('flag', u8)]),
+      ],
+      definedTypes: [],
+      errors: [{ kind: 'errorNode', name: 'insufficientFunds', code: 6000, message: 'Insufficient funds' }],
+    },
+  };
+
+  it('extracts discriminators from default-valued fields, offsets and constants', () => {
+    expect(detectIdlVersion(codamaIdl)).toBe('codama');
+    const idl = normalizeIdl(codamaIdl);
+    expect(discriminatorOf(idl, 'deposit')).toEqual([7]);
+    expect(discriminatorOf(idl, 'withOffset')).toEqual([1, 2, 1]);
+    expect(discriminatorOf(idl, 'withConstant')).toEqual([10, 11]);
+    expect(idl.instructions.map((ix) => ix.name)).not.toContain('noDiscriminator');
+    expect(idl.accounts).toEqual([
+      { name: 'VaultState', discriminator: [1, 2] },
+      { name: 'Plain', discriminator: [] },
+    ]);
+    expect(idl.errors).toEqual([{ code: 6000, name: 'insufficientFunds', msg: 'Insufficient funds' }]);
+  });
+
+  it('decodes instruction and account bytes with the converted IDL', () => {
+    const coder = new BorshCoder(normalizeIdl(codamaIdl));
+
+    const deposit = coder.instruction.decode(Buffer.concat([Buffer.from([7]), u64(1_000n)]));
+    expect(deposit?.name).toBe('deposit');
+    expect((deposit?.data as { amount: { toString(): string } }).amount.toString()).toBe('1000');
+
+    const withOffset = coder.instruction.decode(Buffer.concat([Buffer.from([1]), u16(258), Buffer.from([1])]));
+    expect(withOffset).toEqual({ name: 'withOffset', data: { flag: 1 } });
+
+    const withConstant = coder.instruction.decode(Buffer.from([10, 11, 0]));
+    expect(withConstant).toEqual({ name: 'withConstant', data: { flag: 0 } });
+
+    const account = coder.accounts.decode<{ amount: { toString(): string } }>(
+      'VaultState',
+      Buffer.concat([Buffer.from([1, 2]), u64(9n)])
+    );
+    expect(account.amount.toString()).toBe('9');
+  });
+});
@@ -1,5 +1,9 @@
 import type { Idl } from '@coral-xyz/anchor';
-import type { IdlVersion } from '../types';
+import type { IdlField, IdlVersion } from '../types';
+import { convertCodamaIdl, getCodamaProgram, isCodamaIdl } from './codamaIdl';
+import { computeSighash } from './discriminator';
+import { convertLegacyFields, convertLegacyType, convertLegacyTypeDef, createGeneratedTypes } from './idlTypeConverter';
+import { encodeSeedValue } from './pda';
 
 // 旧版 IDL 账户格式
 interface LegacyIdlAccount {
@@ -7,7 +11,9 @@ interface LegacyIdlAccount {
   isMut?: boolean;
   isSigner?: boolean;
   isOptional?: boolean;
+  optional?: boolean; // Shank
   docs?: string[];
+  desc?: string;      // Shank
   pda?: unknown;
 }
 
@@ -17,17 +23,55 @@ interface LegacyIdlInstruction {
   accounts: LegacyIdlAccount[];
   args: unknown[];
   docs?: string[];
+  discriminant?: { type: string; value: number }; // Shank
+  discriminator?: number[]; // 部分旧版 IDL 已带 discriminator
+}
+
+// Shank IDL（旧版语法 + 1 字节 discriminant）
+interface ShankIdl {
+  name: string;
+  version?: string;
+  instructions: LegacyIdlInstruction[];
+  accounts?: { name: string; docs?: string[]; type: unknown }[];
+  types?: { name: string; type: unknown }[];
+  errors?: unknown[];
+  metadata?: { origin?: string; address?: string };
+}
+
+// 旧版 Anchor IDL（≤0.29）
+interface LegacyIdl {
+  name: string;
+  version?: string;
+  docs?: string[];
+  instructions: LegacyIdlInstruction[];
+  accounts?: { name: string; docs?: string[]; type: unknown; discriminator?: number[] }[];
+  events?: { name: string; fields: { name: string; type: unknown; index?: boolean }[]; discriminator?: number[] }[];
+  types?: { name: string; type: unknown }[];
+  constants?: { name: string; type: unknown; value: string }[];
+  errors?: unknown[];
+  metadata?: { address?: string };
 }
 
 /**
  * 检测 IDL 版本
  * 旧版 (≤0.29) 使用 isMut/isSigner
  * 新版 (≥0.30) 使用 writable/signer
+ * Shank 带 metadata.origin = "shank" 或指令带 discriminant
+ * Codama 为 kind = "rootNode" 的节点树
  */
 export function detectIdlVersion(idl: unknown): IdlVersion {
+  if (isCodamaIdl(idl)) {
+    return 'codama';
+  }
+
   const idlObj = idl as Record<string, unknown>;
   const instructions = idlObj.instructions as LegacyIdlInstruction[] | undefined;
-  
+  const metadata = idlObj.metadata as ShankIdl['metadata'];
+
+  if (metadata?.origin === 'shank' || instructions?.some((ix) => ix.discriminant)) {
+    return 'shank';
+  }
+
   if (!instructions?.length) {
     return 'modern';
   }
@@ -82,11 +126,13 @@ function normalizeAccounts(accounts: LegacyIdlAccount[]): unknown[] {
     if (acc.isSigner) {
       normalized.signer = true;
     }
-    if (acc.isOptional) {
+    if (acc.isOptional || acc.optional) {
       normalized.optional = true;
     }
     if (acc.docs) {
       normalized.docs = acc.docs;
+    } else if (acc.desc) {
+      normalized.docs = [acc.desc];
     }
     if (acc.pda) {
       normalized.pda = acc.pda;
@@ -96,8 +142,113 @@ function normalizeAccounts(accounts: LegacyIdlAccount[]): unknown[] {
   });
 }
 
+type ShankTypeDef = { name: string; type: unknown };
+
 /**
- * 将旧版 IDL 转换为新版格式
+ * 提取 Shank 账户开头的 key 字段（无字段的枚举，如 Key::MetadataV1）作为 discriminator
+ * 按变体名与账户名对应（同名或账户名 + V1 / V2 ...），对应不上时返回空 discriminator
+ */
+function extractShankAccountKey(
+  account: ShankTypeDef,
+  types: ShankTypeDef[]
+): { discriminator: number[]; account: ShankTypeDef } {
+  const none = { discriminator: [], account };
+  const type = account.type as { kind?: string; fields?: { name: string; type: unknown }[] };
+  const [first, ...rest] = type.fields ?? [];
+  const defined = (first?.type as { defined?: unknown } | undefined)?.defined;
+  const enumName = typeof defined === 'string' ? defined : (defined as { name?: string } | undefined)?.name;
+  const enumDef = types.find((t) => t.name === enumName)?.type as
+    | { kind?: string; variants?: { name: string; fields?: unknown[] }[] }
+    | undefined;
+  if (type.kind !== 'struct' || enumDef?.kind !== 'enum' || !enumDef.variants) return none;
+  if (enumDef.variants.some((v) => v.fields?.length)) return none;
+
+  const variants = enumDef.variants;
+  let index = variants.findIndex((v) => v.name === account.name);
+  if (index < 0) {
+    const versioned = new RegExp(`^${account.name}V\\d+$`);
+    const matches = variants.flatMap((v, i) => (versioned.test(v.name) ? [i] : []));
+    if (matches.length !== 1) return none;
+    index = matches[0];
+  }
+  return { discriminator: [index], account: { ...account, type: { ...type, fields: rest } } };
+}
+
+/**
+ * 将 Shank IDL 转换为新版格式
+ * 指令的 discriminant 转为 discriminator 字节；账户的 discriminator 取自开头的 key 字段，没有时为空
+ */
+function convertShankIdl(idl: ShankIdl): Idl {
+  const types = idl.types ?? [];
+  const keyed = (idl.accounts ?? []).map((a) => extractShankAccountKey(a, types));
+  const accounts = keyed.map((k) => k.account);
+  const generated = createGeneratedTypes([...types, ...accounts].map((t) => t.name));
+  const typeDefs = [...types, ...accounts].map((t) => convertLegacyTypeDef(t, generated));
+
+  const instructions = idl.instructions.map((ix, index) => {
+    const discriminant = ix.discriminant ?? { type: 'u8', value: index };
+    return {
+      name: ix.name,
+      ...(ix.docs ? { docs: ix.docs } : {}),
+      discriminator: [...encodeSeedValue(discriminant.type, discriminant.value)],
+      accounts: normalizeAccounts(ix.accounts),
+      args: convertLegacyFields(ix.args, generated, ix.name) as IdlField[],
+    };
+  });
+
+  return {
+    address: idl.metadata?.address ?? '',
+    metadata: { name: idl.name, version: idl.version ?? '0.0.0', spec: '0.1.0', description: 'Shank' },
+    instructions,
+    accounts: keyed.map(({ account, discriminator }) => ({ name: account.name, discriminator })),
+    types: [...typeDefs, ...generated.types],
+    errors: idl.errors ?? [],
+  } as unknown as Idl;
+}
+
+/**
+ * 将旧版 Anchor IDL 转换为新版格式
+ * 缺少 discriminator 时按 sighash 计算，账户 / 事件的结构移入 types，类型语法转为新版
+ */
+function convertLegacyIdl(idl: LegacyIdl): Idl {
+  const accounts = idl.accounts ?? [];
+  const events = idl.events ?? [];
+  const types = idl.types ?? [];
+  const generated = createGeneratedTypes([...types, ...accounts, ...events].map((t) => t.name));
+  const typeDefs = [
+    ...types.map((t) => convertLegacyTypeDef(t, generated)),
+    ...accounts.map((a) => convertLegacyTypeDef(a, generated)),
+    ...events.map((e) =>
+      convertLegacyTypeDef(
+        { name: e.name, type: { kind: 'struct', fields: e.fields.map((f) => ({ name: f.name, type: f.type })) } },
+        generated
+      )
+    ),
+  ];
+
+  const instructions = idl.instructions.map((ix) => ({
+    name: ix.name,
+    ...(ix.docs ? { docs: ix.docs } : {}),
+    discriminator: ix.discriminator ?? computeSighash('instruction', ix.name),
+    accounts: normalizeAccounts(ix.accounts),
+    args: convertLegacyFields(ix.args, generated, ix.name) as IdlField[],
+  }));
+
+  return {
+    address: idl.metadata?.address ?? '',
+    metadata: { name: idl.name, version: idl.version ?? '0.0.0', spec: '0.1.0' },
+    ...(idl.docs ? { docs: idl.docs } : {}),
+    instructions,
+    accounts: accounts.map((a) => ({ name: a.name, discriminator: a.discriminator ?? computeSighash('account', a.name) })),
+    events: events.map((e) => ({ name: e.name, discriminator: e.discriminator ?? computeSighash('event', e.name) })),
+    types: [...typeDefs, ...generated.types],
+    constants: (idl.constants ?? []).map((c) => ({ ...c, type: convertLegacyType(c.type, generated, c.name) })),
+    errors: idl.errors ?? [],
+  } as unknown as Idl;
+}
+
+/**
+ * 将旧版 / Shank / Codama IDL 转换为新版格式
  */
 export function normalizeIdl(idl: unknown): Idl {
   const version = detectIdlVersion(idl);
@@ -105,23 +256,13 @@ export function normalizeIdl(idl: unknown): Idl {
   if (version === 'modern') {
     return idl as Idl;
   }
-
-  const oldIdl = idl as Record<string, unknown>;
-  const instructions = oldIdl.instructions as LegacyIdlInstruction[] | undefined;
-
-  const normalized: Record<string, unknown> = {
-    ...oldIdl,
-  };
-
-  // 转换指令中的账户格式
-  if (instructions) {
-    normalized.instructions = instructions.map((ix) => ({
-      ...ix,
-      accounts: normalizeAccounts(ix.accounts),
-    }));
+  if (version === 'codama') {
+    return convertCodamaIdl(idl);
   }
-
-  return normalized as Idl;
+  if (version === 'shank') {
+    return convertShankIdl(idl as ShankIdl);
+  }
+  return convertLegacyIdl(idl as LegacyIdl);
 }
 
 /**
@@ -132,6 +273,19 @@ export function validateIdl(idl: unknown): { valid: boolean; error?: string } {
     return { valid: false, error: 'IDL 必须是一个对象' };
   }
 
+  if (isCodamaIdl(idl)) {
+    const program = getCodamaProgram(idl);
+    if (!program || !Array.isArray(program.instructions)) {
+      return { valid: false, error: 'Codama IDL 缺少 program.instructions 字段' };
+    }
+    try {
+      convertCodamaIdl(idl);
+    } catch (e) {
+      return { valid: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    return { valid: true };
+  }
+
   const idlObj = idl as Record<string, unknown>;
 
   if (!idlObj.instructions || !Array.isArray(idlObj.instructions)) {
@@ -149,6 +303,10 @@ export function validateIdl(idl: unknown): { valid: boolean; error?: string } {
  * 获取 IDL 名称
  */
 export function getIdlName(idl: unknown): string {
+  if (isCodamaIdl(idl)) {
+    return getCodamaProgram(idl).name ?? 'Unknown Program';
+  }
+
   const idlObj = idl as Record<string, unknown>;
   
   if (typeof idlObj.name === 'string') {
@@ -164,3 +322,19 @@ export function getIdlName(idl: unknown): string {
 
   return 'Unknown Program';
 }
+
+/**
+ * IDL 版本的显示名称
+ */
+export function getIdlVersionLabel(version: IdlVersion): string {
+  switch (version) {
+    case 'legacy':
+      return '旧版 (≤0.29)';
+    case 'modern':
+      return '新版 (≥0.30)';
+    case 'shank':
+      return 'Shank';
+    case 'codama':
+      return 'Codama';
+  }
+}
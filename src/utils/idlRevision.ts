@@ -0,0 +1,51 @@
+import type { IdlConfig, IdlRevision } from '../types';
+
+// 当前版本在回退解析结果中的标签
+export const CURRENT_REVISION_LABEL = '当前版本';
+
+/**
+ * slot 是否在历史版本的范围内
+ */
+export function isSlotInRevision(revision: IdlRevision, slot: number): boolean {
+  return (revision.fromSlot === undefined || slot >= revision.fromSlot) &&
+    (revision.toSlot === undefined || slot < revision.toSlot);
+}
+
+/**
+ * 用历史版本替换配置中的 IDL
+ */
+function toRevisionConfig(config: IdlConfig, revision: IdlRevision): IdlConfig {
+  return {
+    ...config,
+    idl: revision.idl,
+    originalVersion: revision.originalVersion,
+    revisionLabel: revision.label,
+  };
+}
+
+/**
+ * 按 slot 选择 IDL 版本，没有匹配的历史版本时使用当前版本
+ */
+export function selectIdlRevision(config: IdlConfig, slot: number): IdlConfig {
+  const revision = config.revisions?.find((r) => isSlotInRevision(r, slot));
+  return revision ? toRevisionConfig(config, revision) : config;
+}
+
+/**
+ * 当前版本与所有历史版本（用于解析失败时逐个尝试）
+ */
+export function getIdlRevisionConfigs(config: IdlConfig): IdlConfig[] {
+  return [
+    { ...config, revisionLabel: CURRENT_REVISION_LABEL },
+    ...(config.revisions ?? []).map((revision) => toRevisionConfig(config, revision)),
+  ];
+}
+
+/**
+ * 历史版本 slot 范围的显示文本
+ */
+export function formatRevisionRange(revision: IdlRevision): string {
+  const from = revision.fromSlot?.toLocaleString() ?? '-∞';
+  const to = revision.toSlot?.toLocaleString() ?? '+∞';
+  return `[${from}, ${to})`;
+}
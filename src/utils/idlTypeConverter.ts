@@ -0,0 +1,150 @@
+import type { IdlDefinedFields, IdlField, IdlType, IdlTypeDef } from '../types';
+
+/**
+ * 类型转换过程中生成的具名类型
+ * Anchor IDL 不支持内联 struct / tuple，需要提升为 types 中的定义
+ */
+export interface GeneratedTypes {
+  types: IdlTypeDef[];
+  names: Set<string>; // 已占用的类型名（包含原 IDL 中的类型）
+}
+
+export function createGeneratedTypes(existingNames: string[]): GeneratedTypes {
+  return { types: [], names: new Set(existingNames) };
+}
+
+/**
+ * 首字母大写（用于生成类型名）
+ */
+export function toPascalCase(name: string): string {
+  return name
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * 新增一个具名类型并返回对它的引用
+ * @param hint - 类型名提示（通常为 "所属类型 + 字段名"）
+ */
+export function addGeneratedType(
+  generated: GeneratedTypes,
+  hint: string,
+  type: IdlTypeDef['type']
+): IdlType {
+  const base = toPascalCase(hint) || 'Anonymous';
+  let name = base;
+  for (let i = 2; generated.names.has(name); i++) {
+    name = `${base}${i}`;
+  }
+  generated.names.add(name);
+  generated.types.push({ name, type });
+  return { defined: { name } };
+}
+
+/**
+ * COption<T>（u32 tag + 定长 value）
+ * Anchor 的 BorshCoder 未实现 coption，按相同布局生成 { tag, value } struct
+ */
+export function addCOptionType(generated: GeneratedTypes, hint: string, item: IdlType): IdlType {
+  return addGeneratedType(generated, `${hint}COption`, {
+    kind: 'struct',
+    fields: [
+      { name: 'tag', type: 'u32' },
+      { name: 'value', type: item },
+    ],
+  });
+}
+
+/**
+ * 转换旧版 / Shank 类型语法为新版
+ * publicKey -> pubkey，defined: "X" -> defined: { name: "X" }
+ * Shank 的 tuple / hashMap / hashSet 按 borsh 布局转换为 struct 与 vec
+ */
+export function convertLegacyType(type: unknown, generated: GeneratedTypes, hint: string): IdlType {
+  if (typeof type === 'string') {
+    return (type === 'publicKey' ? 'pubkey' : type) as IdlType;
+  }
+  if (!type || typeof type !== 'object') {
+    throw new Error(`无效的类型: ${JSON.stringify(type)}`);
+  }
+
+  const obj = type as Record<string, unknown>;
+  if ('defined' in obj) {
+    return typeof obj.defined === 'string'
+      ? { defined: { name: obj.defined } }
+      : (obj as IdlType);
+  }
+  if ('option' in obj) return { option: convertLegacyType(obj.option, generated, hint) };
+  if ('coption' in obj) return addCOptionType(generated, hint, convertLegacyType(obj.coption, generated, hint));
+  if ('vec' in obj) return { vec: convertLegacyType(obj.vec, generated, `${hint}Item`) };
+  if ('array' in obj) {
+    const [item, size] = obj.array as [unknown, number];
+    return { array: [convertLegacyType(item, generated, `${hint}Item`), size] };
+  }
+  if ('tuple' in obj) {
+    const items = (obj.tuple as unknown[]).map((item, i) => convertLegacyType(item, generated, `${hint}${i}`));
+    return addGeneratedType(generated, hint, { kind: 'struct', fields: items });
+  }
+  for (const key of ['hashMap', 'bTreeMap']) {
+    if (key in obj) {
+      const [k, v] = obj[key] as [unknown, unknown];
+      const entry = addGeneratedType(generated, `${hint}Entry`, {
+        kind: 'struct',
+        fields: [convertLegacyType(k, generated, `${hint}Key`), convertLegacyType(v, generated, `${hint}Value`)],
+      });
+      return { vec: entry };
+    }
+  }
+  for (const key of ['hashSet', 'bTreeSet']) {
+    if (key in obj) return { vec: convertLegacyType(obj[key], generated, `${hint}Item`) };
+  }
+  return obj as IdlType;
+}
+
+/**
+ * 转换字段列表（具名字段或 tuple 字段）
+ */
+export function convertLegacyFields(
+  fields: unknown[],
+  generated: GeneratedTypes,
+  hint: string
+): IdlDefinedFields {
+  const isNamed = fields.every((f) => f && typeof f === 'object' && 'name' in f && 'type' in f);
+  if (!isNamed) {
+    return fields.map((f, i) => convertLegacyType(f, generated, `${hint}${i}`));
+  }
+  return (fields as IdlField[]).map((f) => ({
+    ...f,
+    type: convertLegacyType(f.type, generated, `${hint}_${f.name}`),
+  }));
+}
+
+/**
+ * 转换类型定义（struct / enum / Shank alias）
+ */
+export function convertLegacyTypeDef(typeDef: unknown, generated: GeneratedTypes): IdlTypeDef {
+  const def = typeDef as { name: string; docs?: string[]; type: Record<string, unknown> };
+  const { kind } = def.type;
+
+  if (kind === 'struct') {
+    return {
+      ...def,
+      type: { kind: 'struct', fields: convertLegacyFields((def.type.fields as unknown[]) ?? [], generated, def.name) },
+    } as IdlTypeDef;
+  }
+  if (kind === 'enum') {
+    const variants = (def.type.variants as { name: string; fields?: unknown[] }[]).map((variant) =>
+      variant.fields
+        ? { ...variant, fields: convertLegacyFields(variant.fields, generated, `${def.name}_${variant.name}`) }
+        : variant
+    );
+    return { ...def, type: { kind: 'enum', variants } } as IdlTypeDef;
+  }
+  if (kind === 'alias' || kind === 'type') {
+    const alias = kind === 'alias' ? def.type.value : def.type.alias;
+    return { ...def, type: { kind: 'type', alias: convertLegacyType(alias, generated, def.name) } } as IdlTypeDef;
+  }
+  return def as IdlTypeDef;
+}
@@ -0,0 +1,331 @@
+import { BorshCoder, BN } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { PublicKey, TransactionInstruction, TransactionMessage } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type {
+  IdlDefinedFields,
+  IdlField,
+  IdlInstructionAccountItem,
+  IdlType,
+  IdlTypeDef,
+} from '../types';
+
+/**
+ * 表单中的参数值（结构与 IDL 类型对应）
+ * - 基础类型：字符串（bool 为 boolean）
+ * - option / coption：{ some, value }
+ * - vec / array：数组
+ * - struct：字段名 -> 值（tuple 字段使用 "0"、"1"...）
+ * - enum：{ variant, fields }
+ */
+export type ArgFormValue = string | boolean | ArgFormValue[] | { [key: string]: ArgFormValue };
+
+/**
+ * 展开后的指令账户（嵌套账户组使用 "." 连接名称）
+ */
+export interface BuilderAccount {
+  name: string;
+  writable: boolean;
+  signer: boolean;
+  optional: boolean;
+  address?: string; // IDL 中固定的地址
+  pda?: unknown;    // IDL 中的 pda seeds 定义（旧版 IDL 格式不同）
+}
+
+const SMALL_INT_RANGES: Record<string, [number, number]> = {
+  u8: [0, 0xff],
+  i8: [-0x80, 0x7f],
+  u16: [0, 0xffff],
+  i16: [-0x8000, 0x7fff],
+  u32: [0, 0xffffffff],
+  i32: [-0x80000000, 0x7fffffff],
+};
+
+const BIG_INT_BITS: Record<string, { bits: number; signed: boolean }> = {
+  u64: { bits: 64, signed: false },
+  i64: { bits: 64, signed: true },
+  u128: { bits: 128, signed: false },
+  i128: { bits: 128, signed: true },
+  u256: { bits: 256, signed: false },
+  i256: { bits: 256, signed: true },
+};
+
+// 递归类型的默认值展开深度上限
+const MAX_DEFAULT_DEPTH = 8;
+
+/**
+ * 按名称查找 IDL 自定义类型
+ */
+export function findTypeDef(idl: Idl, name: string): IdlTypeDef | undefined {
+  return idl.types?.find((t) => t.name === name);
+}
+
+/**
+ * 将 tuple 字段转换为以索引为名称的字段（与 BorshCoder 的布局一致）
+ */
+export function normalizeDefinedFields(fields: IdlDefinedFields | undefined): IdlField[] {
+  if (!fields) return [];
+  return fields.map((field, i) =>
+    typeof field === 'object' && 'name' in field && 'type' in field
+      ? (field as IdlField)
+      : { name: i.toString(), type: field as IdlType }
+  );
+}
+
+/**
+ * 格式化 IDL 类型为 Rust 风格的字符串（如 Option<u64>、Vec<Pubkey>、[u8; 32]）
+ */
+export function formatIdlType(type: IdlType): string {
+  if (typeof type === 'string') return type;
+  if ('option' in type) return `Option<${formatIdlType(type.option)}>`;
+  if ('coption' in type) return `COption<${formatIdlType(type.coption)}>`;
+  if ('vec' in type) return `Vec<${formatIdlType(type.vec)}>`;
+  if ('array' in type) {
+    const [inner, len] = type.array;
+    return `[${formatIdlType(inner)}; ${typeof len === 'number' ? len : len.generic}]`;
+  }
+  if ('defined' in type) return type.defined.name;
+  return type.generic;
+}
+
+/**
+ * 生成类型的默认表单值
+ */
+export function defaultArgValue(type: IdlType, idl: Idl, depth = 0): ArgFormValue {
+  if (typeof type === 'string') {
+    return type === 'bool' ? false : '';
+  }
+  if (depth > MAX_DEFAULT_DEPTH) return '';
+
+  if ('option' in type) return { some: false, value: defaultArgValue(type.option, idl, depth + 1) };
+  if ('coption' in type) return { some: false, value: defaultArgValue(type.coption, idl, depth + 1) };
+  if ('vec' in type) return [];
+  if ('array' in type) {
+    const [inner, len] = type.array;
+    return typeof len === 'number'
+      ? Array.from({ length: len }, () => defaultArgValue(inner, idl, depth + 1))
+      : [];
+  }
+  if ('defined' in type) {
+    const typeDef = findTypeDef(idl, type.defined.name);
+    if (!typeDef) return '';
+    switch (typeDef.type.kind) {
+      case 'struct':
+        return defaultFieldsValue(typeDef.type.fields, idl, depth + 1);
+      case 'enum': {
+        const variant = typeDef.type.variants[0];
+        return {
+          variant: variant?.name ?? '',
+          fields: defaultFieldsValue(variant?.fields, idl, depth + 1),
+        };
+      }
+      case 'type':
+        return defaultArgValue(typeDef.type.alias, idl, depth + 1);
+    }
+  }
+  return '';
+}
+
+/**
+ * 生成 struct / enum 变体字段的默认表单值
+ */
+export function defaultFieldsValue(
+  fields: IdlDefinedFields | undefined,
+  idl: Idl,
+  depth = 0
+): { [key: string]: ArgFormValue } {
+  const value: { [key: string]: ArgFormValue } = {};
+  for (const field of normalizeDefinedFields(fields)) {
+    value[field.name] = defaultArgValue(field.type, idl, depth);
+  }
+  return value;
+}
+
+/**
+ * 解析 bytes 输入：0x 前缀或纯十六进制视为 hex，否则视为 base64
+ */
+function parseBytes(text: string): Buffer {
+  const trimmed = text.trim();
+  const hex = trimmed.startsWith('0x') ? trimmed.slice(2) : trimmed;
+  if (/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    return Buffer.from(hex, 'hex');
+  }
+  return Buffer.from(trimmed, 'base64');
+}
+
+/**
+ * 将表单值转换为 BorshCoder 可编码的值
+ * @param path - 参数路径（用于错误信息）
+ */
+export function toCoderValue(type: IdlType, value: ArgFormValue, idl: Idl, path: string): unknown {
+  if (typeof type === 'string') {
+    if (type === 'bool') return value === true;
+
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (type === 'string') return typeof value === 'string' ? value : '';
+    if (type === 'bytes') return parseBytes(text);
+
+    if (type === 'pubkey') {
+      try {
+        return new PublicKey(text);
+      } catch {
+        throw new Error(`${path}: 无效的公钥 "${text}"`);
+      }
+    }
+
+    if (type === 'f32' || type === 'f64') {
+      const num = Number(text);
+      if (!text || Number.isNaN(num)) throw new Error(`${path}: 无效的浮点数 "${text}"`);
+      return num;
+    }
+
+    const smallRange = SMALL_INT_RANGES[type];
+    if (smallRange) {
+      const num = Number(text);
+      if (!/^-?\d+$/.test(text) || num < smallRange[0] || num > smallRange[1]) {
+        throw new Error(`${path}: ${type} 取值范围为 ${smallRange[0]} ~ ${smallRange[1]}，输入 "${text}"`);
+      }
+      return num;
+    }
+
+    const bigInt = BIG_INT_BITS[type];
+    if (bigInt) {
+      if (!/^-?\d+$/.test(text)) throw new Error(`${path}: 无效的 ${type} "${text}"`);
+      const num = BigInt(text);
+      const min = bigInt.signed ? -(1n << BigInt(bigInt.bits - 1)) : 0n;
+      const max = bigInt.signed ? (1n << BigInt(bigInt.bits - 1)) - 1n : (1n << BigInt(bigInt.bits)) - 1n;
+      if (num < min || num > max) throw new Error(`${path}: 超出 ${type} 取值范围`);
+      return new BN(text);
+    }
+
+    throw new Error(`${path}: 不支持的类型 ${type}`);
+  }
+
+  if ('option' in type || 'coption' in type) {
+    const inner = 'option' in type ? type.option : type.coption;
+    const option = value as { some?: ArgFormValue; value?: ArgFormValue };
+    return option.some === true ? toCoderValue(inner, option.value ?? '', idl, path) : null;
+  }
+
+  if ('vec' in type || 'array' in type) {
+    const inner = 'vec' in type ? type.vec : type.array[0];
+    const items = Array.isArray(value) ? value : [];
+    if ('array' in type && typeof type.array[1] === 'number' && items.length !== type.array[1]) {
+      throw new Error(`${path}: 数组长度应为 ${type.array[1]}，实际为 ${items.length}`);
+    }
+    return items.map((item, i) => toCoderValue(inner, item, idl, `${path}[${i}]`));
+  }
+
+  if ('defined' in type) {
+    const typeDef = findTypeDef(idl, type.defined.name);
+    if (!typeDef) throw new Error(`${path}: 未定义的类型 ${type.defined.name}`);
+    if (typeDef.generics?.length) throw new Error(`${path}: 暂不支持泛型类型 ${typeDef.name}`);
+
+    const record = (value ?? {}) as { [key: string]: ArgFormValue };
+    switch (typeDef.type.kind) {
+      case 'struct':
+        return toCoderFields(typeDef.type.fields, record, idl, path);
+      case 'enum': {
+        const variantName = record.variant as string;
+        const variant = typeDef.type.variants.find((v) => v.name === variantName);
+        if (!variant) throw new Error(`${path}: 未选择 ${typeDef.name} 的变体`);
+        const fields = (record.fields ?? {}) as { [key: string]: ArgFormValue };
+        return { [variant.name]: toCoderFields(variant.fields, fields, idl, `${path}.${variant.name}`) };
+      }
+      case 'type':
+        return toCoderValue(typeDef.type.alias, value, idl, path);
+    }
+  }
+
+  throw new Error(`${path}: 暂不支持泛型参数`);
+}
+
+/**
+ * 将 struct / enum 变体字段的表单值转换为 BorshCoder 可编码的对象
+ */
+function toCoderFields(
+  fields: IdlDefinedFields | undefined,
+  value: { [key: string]: ArgFormValue },
+  idl: Idl,
+  path: string
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of normalizeDefinedFields(fields)) {
+    result[field.name] = toCoderValue(field.type, value[field.name] ?? '', idl, `${path}.${field.name}`);
+  }
+  return result;
+}
+
+/**
+ * 展开指令账户列表（嵌套账户组按顺序展开）
+ */
+export function flattenInstructionAccounts(
+  items: IdlInstructionAccountItem[],
+  prefix = ''
+): BuilderAccount[] {
+  const result: BuilderAccount[] = [];
+  for (const item of items) {
+    const name = prefix ? `${prefix}.${item.name}` : item.name;
+    if ('accounts' in item) {
+      result.push(...flattenInstructionAccounts(item.accounts, name));
+    } else {
+      result.push({
+        name,
+        writable: item.writable === true,
+        signer: item.signer === true,
+        optional: item.optional === true,
+        address: item.address,
+        pda: item.pda,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * 编码指令数据（discriminator + borsh 参数）
+ */
+export function encodeInstructionData(
+  idl: Idl,
+  instructionName: string,
+  args: Record<string, ArgFormValue>
+): Buffer {
+  const ixDef = idl.instructions.find((ix) => ix.name === instructionName);
+  if (!ixDef) throw new Error(`IDL 中不存在指令 ${instructionName}`);
+
+  const coderArgs: Record<string, unknown> = {};
+  for (const arg of ixDef.args) {
+    coderArgs[arg.name] = toCoderValue(arg.type, args[arg.name] ?? '', idl, arg.name);
+  }
+  return new BorshCoder(idl).instruction.encode(instructionName, coderArgs);
+}
+
+/**
+ * 构建包含单条指令的 legacy 交易消息
+ */
+export function buildInstructionMessage(params: {
+  programId: string;
+  data: Buffer;
+  accounts: Array<{ pubkey: string; isSigner: boolean; isWritable: boolean }>;
+  feePayer: string;
+  recentBlockhash: string;
+}): { base58: string; base64: string } {
+  const instruction = new TransactionInstruction({
+    programId: new PublicKey(params.programId),
+    keys: params.accounts.map((account) => ({
+      pubkey: new PublicKey(account.pubkey),
+      isSigner: account.isSigner,
+      isWritable: account.isWritable,
+    })),
+    data: params.data,
+  });
+
+  const message = new TransactionMessage({
+    payerKey: new PublicKey(params.feePayer),
+    recentBlockhash: params.recentBlockhash,
+    instructions: [instruction],
+  }).compileToLegacyMessage();
+
+  const bytes = message.serialize();
+  return { base58: bs58.encode(bytes), base64: Buffer.from(bytes).toString('base64') };
+}
@@ -10,15 +10,45 @@ import type {
   DecodedEvent,
 } from '../types';
 import { formatAddress, getKnownProgramName } from './addressResolver';
+import type {
+  NativeAccountDecoder,
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionDecoder,
+} from './nativeInstruction';
+import { SYSTEM_PROGRAM_ID, decodeSystemInstruction } from './systemProgramDecoder';
+import { TOKEN_PROGRAM_ID, decodeTokenAccountData, decodeTokenInstruction } from './tokenProgramDecoder';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  decodeToken2022AccountData,
+  decodeToken2022Instruction,
+} from './token2022Decoder';
+import { COMPUTE_BUDGET_PROGRAM_ID, decodeComputeBudgetInstruction } from './computeBudgetDecoder';
+import {
+  ADDRESS_LOOKUP_TABLE_PROGRAM_ID,
+  decodeAddressLookupTableAccount,
+  decodeAddressLookupTableInstruction,
+} from './addressLookupTableDecoder';
+import {
+  BPF_LOADER_UPGRADEABLE_PROGRAM_ID,
+  decodeBpfLoaderAccount,
+  decodeBpfLoaderInstruction,
+} from './bpfLoaderDecoder';
+import { getEffectiveIdl } from './discriminator';
+import { getIdlRevisionConfigs, selectIdlRevision } from './idlRevision';
+import { verifyInstructionPdas } from './pda';
 
 /**
  * 根据 programId 查找匹配的 IDL
+ * @param slot - 交易所在 slot，指定时按 slot 范围选择 IDL 历史版本
  */
 export function findIdlByProgramId(
   programId: string,
-  idlConfigs: IdlConfig[]
+  idlConfigs: IdlConfig[],
+  slot?: number
 ): IdlConfig | undefined {
-  return idlConfigs.find((config) => config.programIds.includes(programId));
+  const config = idlConfigs.find((c) => c.programIds.includes(programId));
+  return config && slot !== undefined ? selectIdlRevision(config, slot) : config;
 }
 
 /**
@@ -30,10 +60,13 @@ interface DecodeResult {
   rawData: string;
   decodeError?: string;
   hasIdl: boolean;
+  idlConfig?: IdlConfig;     // 实际用于解析的 IDL（可能是历史版本）
+  revisionFallback?: boolean; // 是否回退到其他 IDL 版本
 }
 
 /**
  * 根据 discriminator 查找匹配的指令名称
+ * Shank / Codama 的 discriminator 可能短于 8 字节，按前缀匹配
  */
 function findInstructionNameByDiscriminator(
   discriminatorHex: string,
@@ -42,9 +75,9 @@ function findInstructionNameByDiscriminator(
   if (!idl.instructions) return null;
   
   for (const ix of idl.instructions) {
-    if (ix.discriminator) {
+    if (ix.discriminator?.length) {
       const ixDiscriminatorHex = Buffer.from(ix.discriminator).toString('hex');
-      if (ixDiscriminatorHex === discriminatorHex) {
+      if (discriminatorHex.startsWith(ixDiscriminatorHex)) {
         return ix.name;
       }
     }
@@ -53,7 +86,7 @@ function findInstructionNameByDiscriminator(
 }
 
 /**
- * 根据 discriminator 查找匹配的事件名称
+ * 根据 discriminator 查找匹配的事件名称（按前缀匹配，同指令）
  */
 function findEventNameByDiscriminator(
   discriminatorHex: string,
@@ -62,9 +95,9 @@ function findEventNameByDiscriminator(
   if (!idl.events) return null;
   
   for (const evt of idl.events) {
-    if (evt.discriminator) {
+    if (evt.discriminator?.length) {
       const evtDiscriminatorHex = Buffer.from(evt.discriminator).toString('hex');
-      if (evtDiscriminatorHex === discriminatorHex) {
+      if (discriminatorHex.startsWith(evtDiscriminatorHex)) {
         return evt.name;
       }
     }
@@ -74,12 +107,15 @@ function findEventNameByDiscriminator(
 
 /**
  * 解码指令数据
+ * 按 slot 选中的 IDL 版本解析失败时，依次尝试该 Program 的其他 IDL 版本
  * @param data - base58 编码的指令数据
+ * @param slot - 交易所在 slot
  */
 export function decodeInstructionData(
   programId: string,
   data: string,
-  idlConfigs: IdlConfig[]
+  idlConfigs: IdlConfig[],
+  slot?: number
 ): DecodeResult {
   // 从 base58 解码
   let dataBuffer: Buffer;
@@ -92,13 +128,33 @@ export function decodeInstructionData(
   }
 
   // 查找匹配的 IDL
-  const idlConfig = findIdlByProgramId(programId, idlConfigs);
+  const idlConfig = findIdlByProgramId(programId, idlConfigs, slot);
   
   if (!idlConfig) {
     return { name: null, data: null, rawData, hasIdl: false };
   }
 
-  const idl = idlConfig.idl as Idl & { 
+  const result = decodeWithIdlConfig(idlConfig, dataBuffer, rawData);
+  if (!result.decodeError || !idlConfig.revisions?.length) {
+    return result;
+  }
+
+  const baseConfig = findIdlByProgramId(programId, idlConfigs)!;
+  for (const candidate of getIdlRevisionConfigs(baseConfig)) {
+    if (candidate.idl === idlConfig.idl) continue;
+    const retry = decodeWithIdlConfig(candidate, dataBuffer, rawData);
+    if (!retry.decodeError) {
+      return { ...retry, revisionFallback: true };
+    }
+  }
+  return result;
+}
+
+/**
+ * 使用指定 IDL 解码指令数据
+ */
+function decodeWithIdlConfig(idlConfig: IdlConfig, dataBuffer: Buffer, rawData: string): DecodeResult {
+  const idl = getEffectiveIdl(idlConfig) as Idl & { 
     instructions?: Array<{ name: string; discriminator?: number[] }>;
     events?: Array<{ name: string; discriminator?: number[] }>;
   };
@@ -125,7 +181,8 @@ export function decodeInstructionData(
   };
 
   try {
-    const coder = new BorshCoder(idlConfig.idl as Idl);
+    // 空 discriminator 的指令会匹配任意数据，不参与解析
+    const coder = new BorshCoder({ ...idl, instructions: idl.instructions.filter((ix) => ix.discriminator?.length) });
     const decoded = coder.instruction.decode(dataBuffer);
     
     if (decoded) {
@@ -134,6 +191,7 @@ export function decodeInstructionData(
         data: decoded.data as Record<string, unknown>,
         rawData,
         hasIdl: true,
+        idlConfig,
       };
     } else {
       // 尝试通过 discriminator 查找指令名称
@@ -146,6 +204,7 @@ export function decodeInstructionData(
           data: null,
           rawData,
           hasIdl: true,
+          idlConfig,
           decodeError: `指令 "${matchedName}" 的 Discriminator 匹配，但参数解析失败\nDiscriminator: 0x${discriminatorHex}`,
         };
       }
@@ -155,6 +214,7 @@ export function decodeInstructionData(
         data: null,
         rawData,
         hasIdl: true,
+        idlConfig,
         decodeError: `Discriminator 不匹配\n实际值: 0x${discriminatorHex}\n在 IDL "${idlConfig.name}" 中未找到匹配的指令${idlInfo}`,
       };
     }
@@ -198,11 +258,64 @@ export function decodeInstructionData(
       data: null,
       rawData,
       hasIdl: true,
+      idlConfig,
       decodeError: friendlyError,
     };
   }
 }
 
+/**
+ * 内置原生程序解码器（无需 IDL）
+ */
+const NATIVE_DECODERS: Record<string, NativeInstructionDecoder> = {
+  [SYSTEM_PROGRAM_ID]: decodeSystemInstruction,
+  [TOKEN_PROGRAM_ID]: decodeTokenInstruction,
+  [TOKEN_2022_PROGRAM_ID]: decodeToken2022Instruction,
+  [COMPUTE_BUDGET_PROGRAM_ID]: decodeComputeBudgetInstruction,
+  [ADDRESS_LOOKUP_TABLE_PROGRAM_ID]: decodeAddressLookupTableInstruction,
+  [BPF_LOADER_UPGRADEABLE_PROGRAM_ID]: decodeBpfLoaderInstruction,
+};
+
+/**
+ * 内置原生程序账户解码器（按 owner 查找，未配置 IDL 时使用）
+ */
+const NATIVE_ACCOUNT_DECODERS: Record<string, NativeAccountDecoder> = {
+  [TOKEN_PROGRAM_ID]: decodeTokenAccountData,
+  [TOKEN_2022_PROGRAM_ID]: decodeToken2022AccountData,
+  [ADDRESS_LOOKUP_TABLE_PROGRAM_ID]: decodeAddressLookupTableAccount,
+  [BPF_LOADER_UPGRADEABLE_PROGRAM_ID]: decodeBpfLoaderAccount,
+};
+
+/**
+ * 是否存在内置的原生程序解码器
+ */
+export function hasNativeDecoder(programId: string): boolean {
+  return programId in NATIVE_DECODERS;
+}
+
+/**
+ * 使用内置解码器解码原生程序指令
+ * @param data - base58 编码的指令数据
+ * @returns 没有对应解码器时返回 null
+ */
+export function decodeNativeInstruction(
+  programId: string,
+  data: string,
+  context: NativeDecodeContext
+): NativeDecodeResult | null {
+  const decoder = NATIVE_DECODERS[programId];
+  if (!decoder) return null;
+
+  let dataBuffer: Buffer;
+  try {
+    dataBuffer = Buffer.from(bs58.decode(data));
+  } catch {
+    return { name: null, data: null, decodeError: 'Base58 解码失败' };
+  }
+
+  return decoder(dataBuffer, context);
+}
+
 /**
  * 尝试将 CPI 指令数据解析为事件
  * CPI 事件的数据格式：前 8 字节是指令 discriminator，需要跳过，后面才是事件数据
@@ -214,7 +327,8 @@ export function decodeInstructionData(
 export function tryDecodeCpiEvent(
   programId: string,
   dataBase58: string,
-  idlConfigs: IdlConfig[]
+  idlConfigs: IdlConfig[],
+  slot?: number
 ): { name: string | null; data: Record<string, unknown> | null; decodeError?: string } | null {
   // 从 base58 解码
   let dataBuffer: Buffer;
@@ -230,8 +344,9 @@ export function tryDecodeCpiEvent(
   }
 
   // 查找匹配的 IDL
-  const idlConfig = findIdlByProgramId(programId, idlConfigs);
-  if (!idlConfig) {
+  // CPI 事件（emit_cpi!）是 Anchor 特有的格式
+  const idlConfig = findIdlByProgramId(programId, idlConfigs, slot);
+  if (!idlConfig || (idlConfig.discriminatorStrategy && idlConfig.discriminatorStrategy.kind !== 'anchor')) {
     return null;
   }
 
@@ -280,10 +395,12 @@ export function tryDecodeCpiEvent(
  * 从交易日志中提取并解析事件
  * @param logs - 交易日志
  * @param idlConfigs - IDL 配置列表
+ * @param slot - 交易所在 slot（用于选择 IDL 历史版本）
  */
 export function parseEventsFromLogs(
   logs: string[],
-  idlConfigs: IdlConfig[]
+  idlConfigs: IdlConfig[],
+  slot?: number
 ): DecodedEvent[] {
   const events: DecodedEvent[] = [];
   let currentProgramId: string | null = null;
@@ -322,16 +439,16 @@ export function parseEventsFromLogs(
         const dataBuffer = Buffer.from(base64Data, 'base64');
         
         // 查找匹配的 IDL
-        const idlConfig = findIdlByProgramId(currentProgramId, idlConfigs);
+        const idlConfig = findIdlByProgramId(currentProgramId, idlConfigs, slot);
         
         if (idlConfig) {
-          const idl = idlConfig.idl as Idl & { events?: Array<{ name: string; discriminator?: number[] }> };
+          const idl = getEffectiveIdl(idlConfig) as Idl & { events?: Array<{ name: string; discriminator?: number[] }> };
           const discriminator = dataBuffer.slice(0, 8);
           const discriminatorHex = discriminator.toString('hex');
           
           // 尝试解析事件
           try {
-            const coder = new BorshCoder(idlConfig.idl as Idl);
+            const coder = new BorshCoder(idl);
             const decoded = coder.events.decode(base64Data);
             
             if (decoded) {
@@ -451,7 +568,7 @@ export function parseCpiEventsFromInnerInstructions(
 }
 
 /**
- * 解码账户数据
+ * 解码账户数据（优先使用 IDL，未配置时使用内置的原生程序解码器）
  */
 export function decodeAccountData(
   owner: string,
@@ -461,17 +578,21 @@ export function decodeAccountData(
   const idlConfig = findIdlByProgramId(owner, idlConfigs);
   
   if (!idlConfig) {
-    return { accountType: null, data: null };
+    const nativeDecoder = NATIVE_ACCOUNT_DECODERS[owner];
+    const native = nativeDecoder ? nativeDecoder(Buffer.from(data)) : null;
+    return native ?? { accountType: null, data: null };
   }
 
   try {
-    const coder = new BorshCoder(idlConfig.idl as Idl);
+    const idl = getEffectiveIdl(idlConfig);
+    const coder = new BorshCoder(idl);
     const dataBuffer = Buffer.from(data);
     
     // 尝试解码为每种账户类型
-    const idl = idlConfig.idl as Idl;
     if (idl.accounts) {
       for (const accountDef of idl.accounts) {
+        // 没有 discriminator 时任何数据都可能解码成功，无法确定账户类型
+        if (!accountDef.discriminator?.length) continue;
         try {
           const decoded = coder.accounts.decode(accountDef.name, dataBuffer);
           if (decoded) {
@@ -495,6 +616,8 @@ export function decodeAccountData(
 /**
  * 解析交易中的指令
  * @param tryParseAsEvent - 是否尝试解析为 CPI 事件（用于内部指令）
+ * @param tokenDecimals - mint / token account -> decimals（用于原生 Token 指令的数量缩放）
+ * @param slot - 交易所在 slot（用于选择 IDL 历史版本）
  */
 export function parseInstruction(
   programId: string,
@@ -503,11 +626,13 @@ export function parseInstruction(
   accountIndexes: number[],
   idlConfigs: IdlConfig[],
   addressLabels: AddressLabel[],
-  tryParseAsEvent: boolean = false
+  tryParseAsEvent: boolean = false,
+  tokenDecimals?: Map<string, number>,
+  slot?: number
 ): DecodedInstruction {
   // 如果指定了尝试解析为事件，先尝试 CPI 事件解析
   if (tryParseAsEvent) {
-    const eventResult = tryDecodeCpiEvent(programId, data, idlConfigs);
+    const eventResult = tryDecodeCpiEvent(programId, data, idlConfigs, slot);
     if (eventResult) {
       // 解析账户
       const accounts: DecodedAccount[] = accountIndexes.map((index) => {
@@ -532,9 +657,55 @@ export function parseInstruction(
     }
   }
 
-  const decoded = decodeInstructionData(programId, data, idlConfigs);
   const idlConfig = findIdlByProgramId(programId, idlConfigs);
 
+  // 未配置 IDL 时使用内置的原生程序解码器
+  if (!idlConfig && hasNativeDecoder(programId)) {
+    const pubkeys = accountIndexes.map((index) => accountKeys[index] || `Unknown (${index})`);
+    const native = decodeNativeInstruction(programId, data, {
+      accounts: pubkeys,
+      tokenDecimals,
+    });
+    if (native) {
+      const accounts: DecodedAccount[] = pubkeys.map((pubkey, i) => {
+        const label = formatAddress(pubkey, addressLabels, false, idlConfigs);
+        return {
+          pubkey,
+          name: native.accountNames?.[i],
+          label: label !== pubkey ? label : undefined,
+        };
+      });
+
+      return {
+        programId,
+        name: native.name || getKnownProgramName(programId) || null,
+        data: native.data,
+        accounts,
+        rawData: data,
+        decodeError: native.decodeError,
+        hasIdl: false,
+        isNative: true,
+        extensionName: native.extensionName,
+      };
+    }
+  }
+
+  const decoded = decodeInstructionData(programId, data, idlConfigs, slot);
+
+  const idl = decoded.idlConfig?.idl;
+  const ixDef = decoded.name ? idl?.instructions?.find((ix) => ix.name === decoded.name) : undefined;
+
+  // 根据 IDL 中的 pda seeds 校验账户地址
+  let pdaResults: ReturnType<typeof verifyInstructionPdas> = [];
+  if (idl && ixDef?.accounts) {
+    const pubkeys = accountIndexes.map((index) => accountKeys[index] || '');
+    try {
+      pdaResults = verifyInstructionPdas(idl, ixDef, programId, pubkeys, decoded.data);
+    } catch {
+      // IDL 中的 pda 定义格式异常，跳过校验
+    }
+  }
+
   // 解析账户
   const accounts: DecodedAccount[] = accountIndexes.map((index, i) => {
     const pubkey = accountKeys[index] || `Unknown (${index})`;
@@ -542,10 +713,8 @@ export function parseInstruction(
     
     // 尝试从 IDL 获取账户元信息
     let accountMeta: { name?: string; isSigner?: boolean; isWritable?: boolean } = {};
-    if (idlConfig && decoded.name) {
-      const idl = idlConfig.idl as Idl;
-      const ixDef = idl.instructions?.find((ix) => ix.name === decoded.name);
-      if (ixDef?.accounts && i < ixDef.accounts.length) {
+    if (ixDef) {
+      if (ixDef.accounts && i < ixDef.accounts.length) {
         const accDef = ixDef.accounts[i] as Record<string, unknown>;
         accountMeta = {
           name: typeof accDef.name === 'string' ? accDef.name : undefined,
@@ -559,6 +728,7 @@ export function parseInstruction(
       pubkey,
       label: label !== pubkey ? label : undefined,
       ...accountMeta,
+      pda: pdaResults[i],
     };
   });
 
@@ -574,6 +744,8 @@ export function parseInstruction(
     rawData: decoded.rawData,
     decodeError: decoded.decodeError,
     hasIdl: decoded.hasIdl,
+    idlRevision: decoded.idlConfig?.revisionLabel,
+    idlRevisionFallback: decoded.revisionFallback,
   };
 }
 
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseInvocationsFromLogs, sumTopLevelComputeUnits } from './logParser';
+
+const OUTER = 'Outer11111111111111111111111111111111111111';
+const INNER = 'Inner11111111111111111111111111111111111111';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const logs = [
+  `Program ${OUTER} invoke [1]`,
+  'Program log: Instruction: Swap',
+  `Program ${INNER} invoke [2]`,
+  'Program data: AQID',
+  `Program ${INNER} consumed 3000 of 190000 compute units`,
+  `Program ${INNER} success`,
+  `Program ${TOKEN} invoke [2]`,
+  `Program ${TOKEN} consumed 4000 of 185000 compute units`,
+  `Program ${TOKEN} success`,
+  `Program ${OUTER} consumed 10000 of 200000 compute units`,
+  `Program ${OUTER} success`,
+  `Program ${TOKEN} invoke [1]`,
+  `Program ${TOKEN} consumed 2000 of 190000 compute units`,
+  `Program ${TOKEN} failed: custom program error: 0x1`,
+];
+
+describe('parseInvocationsFromLogs', () => {
+  const invocations = parseInvocationsFromLogs(logs);
+
+  it('maps invocations to top-level and inner instruction indexes', () => {
+    expect(invocations.map(({ programId, depth, instructionIndex, innerIndex, parent }) => ({
+      programId, depth, instructionIndex, innerIndex, parent,
+    }))).toEqual([
+      { programId: OUTER, depth: 1, instructionIndex: 0, innerIndex: null, parent: null },
+      { programId: INNER, depth: 2, instructionIndex: 0, innerIndex: 0, parent: 0 },
+      { programId: TOKEN, depth: 2, instructionIndex: 0, innerIndex: 1, parent: 0 },
+      { programId: TOKEN, depth: 1, instructionIndex: 1, innerIndex: null, parent: null },
+    ]);
+    expect(invocations[0].children).toEqual([1, 2]);
+  });
+
+  it('keeps direct log lines and child invocations in order', () => {
+    expect(invocations[0].entries).toEqual([
+      { type: 'log', text: 'Program log: Instruction: Swap' },
+      { type: 'invocation', index: 1 },
+      { type: 'invocation', index: 2 },
+    ]);
+    expect(invocations[1].entries).toEqual([{ type: 'log', text: 'Program data: AQID', eventIndex: 0 }]);
+  });
+
+  it('records compute units, flame graph offsets and failures', () => {
+    expect(invocations.map((i) => [i.computeUnits, i.computeUnitsOffset])).toEqual([
+      [10000, 0],
+      [3000, 0],
+      [4000, 3000],
+      [2000, 10000],
+    ]);
+    expect(invocations[3]).toMatchObject({ success: false, error: 'custom program error: 0x1' });
+    expect(sumTopLevelComputeUnits(invocations)).toBe(12000);
+  });
+
+  it('leaves truncated invocations unfinished', () => {
+    const [truncated] = parseInvocationsFromLogs([`Program ${OUTER} invoke [1]`, 'Log truncated']);
+    expect(truncated.success).toBeUndefined();
+    expect(sumTopLevelComputeUnits([truncated])).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import type { DecodedInstruction, DecodedInnerInstruction } from '../types';
+
+/**
+ * 调用内按顺序输出的条目：日志行或子调用
+ */
+export type LogTreeEntry =
+  | { type: 'log'; text: string; eventIndex?: number } // eventIndex: parseEventsFromLogs 结果中的索引
+  | { type: 'invocation'; index: number };
+
+/**
+ * 日志中的一次程序调用（invoke ... success/failed）
+ */
+export interface LogInvocation {
+  programId: string;
+  depth: number;                  // invoke [n] 中的 n，顶层为 1
+  instructionIndex: number;       // 所属顶层指令索引
+  innerIndex: number | null;      // 在该顶层指令内部指令列表中的位置（顶层为 null）
+  parent: number | null;          // 父调用在列表中的位置
+  computeUnits?: number;          // consumed X（包含子调用）
+  computeUnitsLimit?: number;     // of Y
+  computeUnitsOffset?: number;    // 在整笔交易 CU 中的起始位置（用于火焰图）
+  children: number[];             // 子调用在列表中的位置
+  entries: LogTreeEntry[];        // 该调用直接输出的日志与子调用（不含 invoke/consumed/success）
+  success?: boolean;              // 未完成（日志截断）时为 undefined
+  error?: string;                 // failed 时的错误信息
+}
+
+const INVOKE_REGEX = /^Program (\w+) invoke \[(\d+)\]/;
+const CONSUMED_REGEX = /^Program (\w+) consumed (\d+) of (\d+) compute units/;
+const COMPLETE_REGEX = /^Program (\w+) (success|failed)(?::\s*(.*))?/;
+const DATA_REGEX = /^Program data: (.+)$/;
+
+/**
+ * 按调用栈解析日志中的程序调用
+ * 调用顺序与 instructions / innerInstructions 的顺序一致：
+ * 顶层 invoke [1] 对应第 N 条指令，其中的 invoke [2+] 依次对应该指令的内部指令
+ */
+export function parseInvocationsFromLogs(logs: string[]): LogInvocation[] {
+  const invocations: LogInvocation[] = [];
+  const stack: number[] = [];
+  let instructionIndex = -1;
+  let innerIndex = -1;
+  let eventIndex = 0;
+
+  for (const log of logs) {
+    const invokeMatch = log.match(INVOKE_REGEX);
+    if (invokeMatch) {
+      const depth = Number(invokeMatch[2]);
+      if (depth === 1) {
+        instructionIndex++;
+        innerIndex = -1;
+        stack.length = 0;
+      } else {
+        innerIndex++;
+      }
+      const parent = stack.length > 0 ? stack[stack.length - 1] : null;
+      invocations.push({
+        programId: invokeMatch[1],
+        depth,
+        instructionIndex,
+        innerIndex: depth === 1 ? null : innerIndex,
+        parent,
+        children: [],
+        entries: [],
+      });
+      if (parent !== null) {
+        invocations[parent].children.push(invocations.length - 1);
+        invocations[parent].entries.push({ type: 'invocation', index: invocations.length - 1 });
+      }
+      stack.push(invocations.length - 1);
+      continue;
+    }
+
+    const consumedMatch = log.match(CONSUMED_REGEX);
+    if (consumedMatch && stack.length > 0) {
+      const current = invocations[stack[stack.length - 1]];
+      if (current.programId === consumedMatch[1]) {
+        current.computeUnits = Number(consumedMatch[2]);
+        current.computeUnitsLimit = Number(consumedMatch[3]);
+      }
+      continue;
+    }
+
+    const completeMatch = log.match(COMPLETE_REGEX);
+    if (completeMatch && stack.length > 0) {
+      const current = invocations[stack.pop()!];
+      current.success = completeMatch[2] === 'success';
+      if (!current.success && completeMatch[3]) {
+        current.error = completeMatch[3];
+      }
+      continue;
+    }
+
+    if (stack.length === 0) continue;
+    const current = invocations[stack[stack.length - 1]];
+
+    // 与 parseEventsFromLogs 保持一致：调用栈内的每条 Program data 对应一个事件
+    if (DATA_REGEX.test(log)) {
+      current.entries.push({ type: 'log', text: log, eventIndex: eventIndex++ });
+    } else {
+      current.entries.push({ type: 'log', text: log });
+    }
+  }
+
+  // 计算火焰图起始位置：顶层按顺序累加，子调用从父调用起点按兄弟顺序累加
+  const nextOffset = new Map<number | null, number>();
+  for (let i = 0; i < invocations.length; i++) {
+    const invocation = invocations[i];
+    const start =
+      nextOffset.get(invocation.parent) ??
+      (invocation.parent !== null ? invocations[invocation.parent].computeUnitsOffset ?? 0 : 0);
+    invocation.computeUnitsOffset = start;
+    nextOffset.set(invocation.parent, start + (invocation.computeUnits ?? 0));
+  }
+
+  return invocations;
+}
+
+/**
+ * 汇总顶层调用的 CU 消耗
+ */
+export function sumTopLevelComputeUnits(invocations: LogInvocation[]): number | null {
+  let total: number | null = null;
+  for (const invocation of invocations) {
+    if (invocation.depth === 1 && invocation.computeUnits !== undefined) {
+      total = (total ?? 0) + invocation.computeUnits;
+    }
+  }
+  return total;
+}
+
+/**
+ * 将日志中的 CU 消耗关联到顶层指令与内部指令
+ */
+export function attachComputeUnits(
+  instructions: DecodedInstruction[],
+  innerInstructions: DecodedInnerInstruction[],
+  invocations: LogInvocation[]
+): { instructions: DecodedInstruction[]; innerInstructions: DecodedInnerInstruction[] } {
+  const withComputeUnits = (ix: DecodedInstruction, invocation?: LogInvocation): DecodedInstruction => {
+    if (!invocation || invocation.programId !== ix.programId || invocation.computeUnits === undefined) {
+      return ix;
+    }
+    return {
+      ...ix,
+      computeUnits: invocation.computeUnits,
+      computeUnitsOffset: invocation.computeUnitsOffset,
+    };
+  };
+
+  const topLevel = new Map<number, LogInvocation>();
+  const inner = new Map<string, LogInvocation>();
+  for (const invocation of invocations) {
+    if (invocation.innerIndex === null) {
+      topLevel.set(invocation.instructionIndex, invocation);
+    } else {
+      inner.set(`${invocation.instructionIndex}.${invocation.innerIndex}`, invocation);
+    }
+  }
+
+  return {
+    instructions: instructions.map((ix, i) => withComputeUnits(ix, topLevel.get(i))),
+    innerInstructions: innerInstructions.map((group) => ({
+      ...group,
+      instructions: group.instructions.map((ix, i) =>
+        withComputeUnits(ix, inner.get(`${group.index}.${i}`))
+      ),
+    })),
+  };
+}
+
+/**
+ * 指令卡片的 DOM id（用于从日志树跳转）
+ * @param scope - 同一页面存在多组指令时的区分前缀（如模拟结果）
+ */
+export function getInstructionElementId(
+  instructionIndex: number,
+  innerIndex?: number | null,
+  scope?: string
+): string {
+  const prefix = scope ? `${scope}-instruction` : 'instruction';
+  return innerIndex === null || innerIndex === undefined
+    ? `${prefix}-${instructionIndex}`
+    : `${prefix}-${instructionIndex}-${innerIndex}`;
+}
@@ -0,0 +1,112 @@
+import { BinaryReader } from './binaryReader';
+
+/**
+ * 原生程序解码上下文
+ */
+export interface NativeDecodeContext {
+  accounts: string[]; // 指令账户地址（按指令中的顺序）
+  tokenDecimals?: Map<string, number>; // mint / token account -> decimals
+}
+
+/**
+ * 原生程序解码结果
+ */
+export interface NativeDecodeResult {
+  name: string | null;
+  data: Record<string, unknown> | null;
+  accountNames?: string[];
+  extensionName?: string; // 扩展指令名称（如 Token-2022 TransferFeeExtension 下的子指令）
+  decodeError?: string;
+}
+
+/**
+ * 原生程序指令解码器
+ */
+export type NativeInstructionDecoder = (
+  data: Buffer,
+  context: NativeDecodeContext
+) => NativeDecodeResult;
+
+/**
+ * 原生指令布局定义
+ */
+export interface NativeInstructionLayout {
+  name: string;
+  accounts: string[];
+  // 固定账户之后的剩余账户名称前缀（如 multisig 签名者）
+  extraAccounts?: string;
+  decode?: (reader: BinaryReader, context: NativeDecodeContext) => Record<string, unknown>;
+}
+
+/**
+ * 根据账户布局生成账户名称列表
+ */
+function resolveAccountNames(layout: NativeInstructionLayout, accountCount: number): string[] {
+  const names = layout.accounts.slice(0, accountCount);
+  if (layout.extraAccounts) {
+    for (let i = names.length; i < accountCount; i++) {
+      names.push(`${layout.extraAccounts}${i - layout.accounts.length}`);
+    }
+  }
+  return names;
+}
+
+/**
+ * 按指令类型标记查找布局并解码
+ * @param tag - 已读取的指令类型标记
+ * @param layouts - 指令类型 -> 布局
+ * @param reader - 位于参数起始位置的 reader
+ * @param programName - 程序名称（用于错误信息）
+ */
+export function decodeByTag(
+  tag: number,
+  layouts: Record<number, NativeInstructionLayout>,
+  reader: BinaryReader,
+  context: NativeDecodeContext,
+  programName: string
+): NativeDecodeResult {
+  const layout = layouts[tag];
+  if (!layout) {
+    return {
+      name: null,
+      data: null,
+      decodeError: `未知的 ${programName} 指令类型: ${tag}`,
+    };
+  }
+
+  const accountNames = resolveAccountNames(layout, context.accounts.length);
+
+  try {
+    const data = layout.decode ? layout.decode(reader, context) : {};
+    return { name: layout.name, data, accountNames };
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : String(e);
+    return {
+      name: layout.name,
+      data: null,
+      accountNames,
+      decodeError: `指令 "${layout.name}" 参数解析失败: ${errorMsg.slice(0, 100)}`,
+    };
+  }
+}
+
+/**
+ * 原生程序的自定义错误（Custom(code) 对应的枚举项）
+ */
+export interface NativeProgramError {
+  name: string;
+  message: string;
+}
+
+/**
+ * 原生程序账户解码结果
+ */
+export interface NativeAccountDecodeResult {
+  accountType: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * 原生程序账户解码器（数据格式不匹配时返回 null）
+ */
+export type NativeAccountDecoder = (data: Buffer) => NativeAccountDecodeResult | null;
@@ -0,0 +1,167 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { IdlConfig } from '../types';
+import { BinaryReader } from './binaryReader';
+import { computeDiscriminator } from './discriminator';
+import { detectIdlVersion, getIdlName, normalizeIdl, validateIdl } from './idlNormalizer';
+
+export const PROGRAM_METADATA_PROGRAM_ID = 'ProgM6JCCvbYkfKqJYHePx4xxSUSqJp7rh8Lyv7nk7S';
+
+// Anchor IdlAccount：discriminator(8) | authority(32) | data_len(u32) | zlib 压缩的 JSON
+const ANCHOR_IDL_SEED = 'anchor:idl';
+const ANCHOR_IDL_HEADER_SIZE = 8 + 32 + 4;
+
+// program-metadata 账户头部长度，seed 固定 16 字节
+const METADATA_HEADER_SIZE = 96;
+const METADATA_SEED_SIZE = 16;
+const METADATA_ACCOUNT_DISCRIMINATOR = 2;
+
+/**
+ * 链上 IDL 的存放位置
+ */
+export type OnchainIdlSource = 'anchor' | 'program-metadata';
+
+/**
+ * metadata 指向外部 URL 时，获取前交给用户确认
+ */
+export type ConfirmIdlUrl = (url: string) => boolean;
+
+/**
+ * 从链上读取的 IDL
+ */
+export interface OnchainIdl {
+  idl: unknown;
+  source: OnchainIdlSource;
+  address: string; // IDL 账户地址
+}
+
+/**
+ * Anchor IDL 账户地址：createWithSeed(findProgramAddress([], programId), "anchor:idl", programId)
+ */
+export async function getAnchorIdlAddress(programId: string): Promise<string> {
+  const program = new PublicKey(programId);
+  const [base] = PublicKey.findProgramAddressSync([], program);
+  return (await PublicKey.createWithSeed(base, ANCHOR_IDL_SEED, program)).toBase58();
+}
+
+/**
+ * program-metadata 中 canonical IDL 的地址：PDA([programId, "idl" 补零至 16 字节])
+ */
+export function getMetadataIdlAddress(programId: string): string {
+  const seed = Buffer.alloc(METADATA_SEED_SIZE);
+  seed.write('idl', 'utf8');
+  const [address] = PublicKey.findProgramAddressSync(
+    [new PublicKey(programId).toBuffer(), seed],
+    new PublicKey(PROGRAM_METADATA_PROGRAM_ID)
+  );
+  return address.toBase58();
+}
+
+/**
+ * 解压数据（浏览器内置的 DecompressionStream）
+ * @param format - deflate 对应 zlib 格式
+ */
+async function decompress(data: Uint8Array, format: 'deflate' | 'gzip'): Promise<Buffer> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream(format));
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+function parseIdlJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('IDL 数据不是有效的 JSON');
+  }
+}
+
+/**
+ * 解码 Anchor IdlAccount
+ */
+async function decodeAnchorIdlAccount(data: Buffer): Promise<unknown> {
+  if (data.length < ANCHOR_IDL_HEADER_SIZE) {
+    throw new Error('IDL 账户数据长度不足');
+  }
+  if (!data.subarray(0, 8).equals(computeDiscriminator('account:IdlAccount'))) {
+    throw new Error('不是 Anchor IDL 账户');
+  }
+  const reader = new BinaryReader(data, 8 + 32);
+  const length = reader.u32();
+  const inflated = await decompress(reader.bytes(length), 'deflate');
+  return parseIdlJson(inflated.toString('utf8'));
+}
+
+/**
+ * 解码 program-metadata 账户中的 IDL
+ * 头部：discriminator(u8) | program | authority | mutable | canonical | seed[16] |
+ *       encoding | compression | format | data_source | data_length(u32) | padding[5]
+ */
+async function decodeMetadataIdlAccount(data: Buffer, confirmUrl?: ConfirmIdlUrl): Promise<unknown> {
+  if (data.length < METADATA_HEADER_SIZE || data[0] !== METADATA_ACCOUNT_DISCRIMINATOR) {
+    throw new Error('不是 program-metadata 账户');
+  }
+  const reader = new BinaryReader(data, 1 + 32 + 32 + 1 + 1 + METADATA_SEED_SIZE);
+  const encoding = reader.u8();    // 0 None, 1 Utf8, 2 Base58, 3 Base64
+  const compression = reader.u8(); // 0 None, 1 Gzip, 2 Zlib
+  reader.u8();                     // format
+  const dataSource = reader.u8();  // 0 Direct, 1 Url, 2 External
+  const length = reader.u32();
+
+  let content: Buffer = Buffer.from(data.subarray(METADATA_HEADER_SIZE, METADATA_HEADER_SIZE + length));
+  // 先按编码还原为字节，再解压
+  if (encoding === 2) content = Buffer.from(bs58.decode(content.toString('utf8').trim()));
+  if (encoding === 3) content = Buffer.from(content.toString('utf8').trim(), 'base64');
+  if (compression === 1) content = await decompress(content, 'gzip');
+  if (compression === 2) content = await decompress(content, 'deflate');
+
+  switch (dataSource) {
+    case 0:
+      return parseIdlJson(content.toString('utf8'));
+    case 1: {
+      const url = content.toString('utf8').trim();
+      let protocol: string;
+      try {
+        protocol = new URL(url).protocol;
+      } catch {
+        throw new Error(`metadata 中的 URL 无效: ${url}`);
+      }
+      if (protocol !== 'https:') throw new Error(`只支持 https 地址的 IDL: ${url}`);
+      if (!confirmUrl?.(url)) throw new Error(`未获取外部 IDL: ${url}`);
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`获取 ${url} 失败: ${response.status}`);
+      return parseIdlJson(await response.text());
+    }
+    default:
+      throw new Error('暂不支持 External 数据源的 metadata');
+  }
+}
+
+/**
+ * 读取 IDL 账户数据并校验
+ * @param confirmUrl - IDL 存放在外部 URL 时的确认，未提供时不获取
+ */
+export async function decodeOnchainIdl(
+  data: Buffer,
+  source: OnchainIdlSource,
+  confirmUrl?: ConfirmIdlUrl
+): Promise<unknown> {
+  const idl =
+    source === 'anchor' ? await decodeAnchorIdlAccount(data) : await decodeMetadataIdlAccount(data, confirmUrl);
+  const validation = validateIdl(idl);
+  if (!validation.valid) {
+    throw new Error(validation.error || '无效的 IDL');
+  }
+  return idl;
+}
+
+/**
+ * 由链上 IDL 生成 IdlConfig（IDL 需已通过 validateIdl 校验）
+ */
+export function createOnchainIdlConfig(idl: unknown, programId: string): IdlConfig {
+  return {
+    id: Date.now().toString(),
+    name: getIdlName(idl),
+    idl: normalizeIdl(idl),
+    originalVersion: detectIdlVersion(idl),
+    programIds: [programId],
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Idl } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { derivePda, encodeSeedInput, encodeSeedValue, findPdaTemplateMatches } from './pda';
+
+const PROGRAM_ID = new PublicKey(Buffer.alloc(32, 9)).toBase58();
+const OWNER = new PublicKey(Buffer.alloc(32, 1)).toBase58();
+
+const idl = {
+  address: PROGRAM_ID,
+  metadata: { name: 'vault', version: '0.1.0', spec: '0.1.0' },
+  instructions: [
+    {
+      name: 'open',
+      discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+      accounts: [
+        { name: 'owner', signer: true },
+        {
+          name: 'vault',
+          writable: true,
+          pda: {
+            seeds: [
+              { kind: 'const', value: [...Buffer.from('vault')] },
+              { kind: 'account', path: 'owner' },
+              { kind: 'arg', path: 'id' },
+            ],
+          },
+        },
+      ],
+      args: [{ name: 'id', type: 'u16' }],
+    },
+  ],
+} as unknown as Idl;
+
+describe('encodeSeedValue', () => {
+  it('encodes integers little-endian with two’s complement for signed types', () => {
+    expect(encodeSeedValue('u16', '258')).toEqual(Buffer.from([2, 1]));
+    expect(encodeSeedValue('i32', '-1')).toEqual(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+    expect(encodeSeedValue('pubkey', OWNER)).toEqual(Buffer.alloc(32, 1));
+  });
+
+  it('rejects negative and non-integer values for unsigned types', () => {
+    expect(() => encodeSeedValue('u8', '-1')).toThrow();
+    expect(() => encodeSeedValue('u64', '1.5')).toThrow();
+  });
+});
+
+describe('encodeSeedInput / derivePda', () => {
+  it('honours the big-endian option and hex input', () => {
+    expect(encodeSeedInput({ type: 'u16', value: '258', bigEndian: true })).toEqual(Buffer.from([1, 2]));
+    expect(encodeSeedInput({ type: 'hex', value: '0xdead' })).toEqual(Buffer.from([0xde, 0xad]));
+    expect(() => encodeSeedInput({ type: 'hex', value: 'abc' })).toThrow();
+  });
+
+  it('matches web3.js and rejects seeds longer than 32 bytes', () => {
+    const seeds = [Buffer.from('vault'), Buffer.alloc(32, 1)];
+    const [address, bump] = PublicKey.findProgramAddressSync(seeds, new PublicKey(PROGRAM_ID));
+    expect(derivePda(seeds, PROGRAM_ID)).toEqual({ address: address.toBase58(), bump });
+    expect(() => derivePda([Buffer.alloc(33)], PROGRAM_ID)).toThrow('seed #0');
+  });
+});
+
+describe('findPdaTemplateMatches', () => {
+  it('finds the IDL template and seed values that derive the target address', () => {
+    const [target, bump] = PublicKey.findProgramAddressSync(
+      [Buffer.from('vault'), Buffer.alloc(32, 1), Buffer.from([7, 0])],
+      new PublicKey(PROGRAM_ID)
+    );
+
+    const { matches, truncated } = findPdaTemplateMatches(idl, PROGRAM_ID, target.toBase58(), [OWNER, '7', '8']);
+    expect(truncated).toEqual([]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].template.account).toBe('vault');
+    expect(matches[0].seeds).toEqual(['"vault"', `owner=${OWNER.slice(0, 8)}...`, 'arg:id=7']);
+    expect(matches[0].bump).toBe(bump);
+  });
+
+  it('returns no match when no candidate fits', () => {
+    const { matches } = findPdaTemplateMatches(idl, PROGRAM_ID, OWNER, [OWNER, '1']);
+    expect(matches).toEqual([]);
+  });
+});
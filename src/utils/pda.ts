@@ -0,0 +1,401 @@
+import { BN } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import type { IdlInstruction, IdlType, PdaVerification } from '../types';
+import { findTypeDef, flattenInstructionAccounts, normalizeDefinedFields } from './instructionBuilder';
+
+// 整数类型的字节数
+const INT_SIZES: Record<string, number> = {
+  u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, u64: 8, i64: 8, u128: 16, i128: 16,
+};
+
+/**
+ * IDL 中的 seed 定义（兼容新版与旧版格式）
+ * 新版：const 的 value 为字节数组，arg / account 只有 path
+ * 旧版：带 type 字段，const 的 value 可以是字符串或数字
+ */
+interface IdlSeedSpec {
+  kind: 'const' | 'arg' | 'account';
+  type?: unknown;
+  value?: unknown;
+  path?: string;
+  account?: string;
+}
+
+interface IdlPdaSpec {
+  seeds: IdlSeedSpec[];
+  program?: IdlSeedSpec;   // 新版
+  programId?: IdlSeedSpec; // 旧版
+}
+
+/**
+ * 无法从指令本身推导 seed（如依赖账户数据字段）
+ */
+class UnverifiableSeedError extends Error {}
+
+/**
+ * 将值按类型编码为 seed 字节
+ */
+export function encodeSeedValue(type: unknown, value: unknown): Buffer {
+  if (type === 'pubkey' || type === 'publicKey') {
+    return new PublicKey(value as string).toBuffer();
+  }
+  if (type === 'string') {
+    return Buffer.from(String(value), 'utf8');
+  }
+  if (typeof type === 'string' && INT_SIZES[type]) {
+    const size = INT_SIZES[type];
+    if (!/^-?\d+$/.test(String(value).trim())) {
+      throw new UnverifiableSeedError(`${type} 需要整数: ${String(value)}`);
+    }
+    const bn = new BN(String(value).trim());
+    if (type.startsWith('u') && bn.isNeg()) {
+      throw new UnverifiableSeedError(`${type} 不能为负数: ${String(value)}`);
+    }
+    return (type.startsWith('i') ? bn.toTwos(size * 8) : bn).toArrayLike(Buffer, 'le', size);
+  }
+  if (type === 'bool') {
+    return Buffer.from([value === true || value === 'true' ? 1 : 0]);
+  }
+  // bytes / [u8; N] / Vec<u8>
+  if (value instanceof Uint8Array) return Buffer.from(value);
+  if (Array.isArray(value) && value.every((v) => typeof v === 'number')) return Buffer.from(value);
+  if (typeof value === 'string') return Buffer.from(value, 'utf8');
+  throw new UnverifiableSeedError(`不支持的 seed 类型 ${JSON.stringify(type)}`);
+}
+
+/**
+ * 将 seed 字节格式化为可读文本（可打印字符串显示为 "xxx"，否则为 hex）
+ */
+export function formatSeedBytes(bytes: Buffer): string {
+  const text = bytes.toString('utf8');
+  return /^[\x20-\x7e]+$/.test(text) && Buffer.from(text, 'utf8').equals(bytes)
+    ? `"${text}"`
+    : `0x${bytes.toString('hex')}`;
+}
+
+/**
+ * 按路径读取对象字段（如 params.id）
+ */
+function getByPath(obj: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) =>
+      current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    obj
+  );
+}
+
+/**
+ * 根据参数路径查找 IDL 类型（支持 struct 嵌套字段）
+ */
+function resolveArgType(ixDef: IdlInstruction, idl: Idl, path: string): IdlType | undefined {
+  const [argName, ...rest] = path.split('.');
+  let type: IdlType | undefined = ixDef.args.find((arg) => arg.name === argName)?.type;
+  for (const field of rest) {
+    if (!type || typeof type !== 'object' || !('defined' in type)) return undefined;
+    const typeDef = findTypeDef(idl, type.defined.name);
+    if (typeDef?.type.kind !== 'struct') return undefined;
+    type = normalizeDefinedFields(typeDef.type.fields).find((f) => f.name === field)?.type;
+  }
+  return type;
+}
+
+/**
+ * 常量 seed 的字节（新版为字节数组，旧版按 type 编码）
+ */
+function encodeConstSeed(seed: IdlSeedSpec): Buffer {
+  return Array.isArray(seed.value) && seed.value.every((v) => typeof v === 'number')
+    ? Buffer.from(seed.value as number[])
+    : encodeSeedValue(seed.type ?? 'string', seed.value);
+}
+
+/**
+ * 计算单个 seed 的字节与描述
+ */
+function resolveSeed(
+  seed: IdlSeedSpec,
+  context: {
+    ixDef: IdlInstruction;
+    idl: Idl;
+    args: Record<string, unknown> | null;
+    accountsByName: Map<string, string>;
+  }
+): { bytes: Buffer; label: string } {
+  switch (seed.kind) {
+    case 'const': {
+      const bytes = encodeConstSeed(seed);
+      return { bytes, label: formatSeedBytes(bytes) };
+    }
+    case 'arg': {
+      const path = seed.path ?? '';
+      const value = getByPath(context.args, path);
+      const type = seed.type ?? resolveArgType(context.ixDef, context.idl, path);
+      if (value === undefined || type === undefined) {
+        throw new UnverifiableSeedError(`无法获取参数 ${path}`);
+      }
+      return { bytes: encodeSeedValue(type, value), label: `arg:${path}` };
+    }
+    case 'account': {
+      const path = seed.path ?? '';
+      const pubkey = context.accountsByName.get(path);
+      if (!pubkey) {
+        // 形如 vault.authority 的路径依赖账户数据，指令本身无法推导
+        throw new UnverifiableSeedError(`seed 依赖账户数据 ${path}`);
+      }
+      return { bytes: new PublicKey(pubkey).toBuffer(), label: path };
+    }
+  }
+}
+
+/**
+ * 根据 IDL 中的 pda 定义重新推导指令账户地址并校验
+ * @param accounts - 指令账户地址（按指令中的顺序，与展开后的 IDL 账户一一对应）
+ * @param args - 解码后的指令参数
+ * @returns 与 accounts 对应的校验结果（无 pda 定义的账户为 undefined）
+ */
+export function verifyInstructionPdas(
+  idl: Idl,
+  ixDef: IdlInstruction,
+  programId: string,
+  accounts: string[],
+  args: Record<string, unknown> | null
+): (PdaVerification | undefined)[] {
+  const accountDefs = flattenInstructionAccounts(ixDef.accounts);
+  const accountsByName = new Map<string, string>();
+  accountDefs.forEach((def, i) => {
+    if (accounts[i]) {
+      accountsByName.set(def.name, accounts[i]);
+      // 嵌套账户组中的 seed 路径可能只使用末级名称
+      accountsByName.set(def.name.split('.').pop()!, accounts[i]);
+    }
+  });
+  const context = { ixDef, idl, args, accountsByName };
+
+  return accountDefs.map((def, i) => {
+    const pda = def.pda as IdlPdaSpec | undefined;
+    if (!pda?.seeds || !accounts[i]) return undefined;
+
+    const seeds: string[] = [];
+    try {
+      const seedBytes = pda.seeds.map((seed) => {
+        const resolved = resolveSeed(seed, context);
+        seeds.push(resolved.label);
+        return resolved.bytes;
+      });
+
+      const programSeed = pda.program ?? pda.programId;
+      const derivingProgram = programSeed
+        ? new PublicKey(resolveSeed(programSeed, context).bytes)
+        : new PublicKey(programId);
+
+      const [expected, bump] = PublicKey.findProgramAddressSync(seedBytes, derivingProgram);
+      return expected.toBase58() === accounts[i]
+        ? { status: 'match', seeds, bump }
+        : { status: 'mismatch', seeds, expected: expected.toBase58(), bump };
+    } catch (e) {
+      return {
+        status: 'unverifiable',
+        seeds,
+        reason: e instanceof Error ? e.message : String(e),
+      };
+    }
+  });
+}
+
+/**
+ * PDA 计算器中的 seed 输入
+ */
+export type SeedInputType = 'string' | 'pubkey' | 'u8' | 'u16' | 'u32' | 'u64' | 'hex' | 'idl';
+
+export interface SeedInput {
+  type: SeedInputType;
+  value: string;
+  bigEndian?: boolean; // 整数类型的字节序（默认小端）
+  idlType?: IdlType;   // type 为 idl 时使用的 IDL 参数类型
+}
+
+/**
+ * 将计算器中的 seed 输入编码为字节
+ */
+export function encodeSeedInput(seed: SeedInput): Buffer {
+  switch (seed.type) {
+    case 'string':
+      return Buffer.from(seed.value, 'utf8');
+    case 'hex': {
+      const hex = seed.value.trim().replace(/^0x/, '');
+      if (!/^([0-9a-fA-F]{2})*$/.test(hex)) throw new Error(`无效的 hex: ${seed.value}`);
+      return Buffer.from(hex, 'hex');
+    }
+    case 'idl':
+      if (seed.idlType === undefined) throw new Error('未选择 IDL 参数');
+      return encodeSeedValue(seed.idlType, seed.value.trim());
+    case 'pubkey':
+      return encodeSeedValue('pubkey', seed.value.trim());
+    default: {
+      const bytes = encodeSeedValue(seed.type, seed.value);
+      return seed.bigEndian ? Buffer.from(bytes).reverse() : bytes;
+    }
+  }
+}
+
+/**
+ * 推导 PDA 地址与 bump
+ */
+export function derivePda(seeds: Buffer[], programId: string): { address: string; bump: number } {
+  seeds.forEach((seed, i) => {
+    if (seed.length > 32) throw new Error(`seed #${i} 超过 32 字节 (${seed.length})`);
+  });
+  const [address, bump] = PublicKey.findProgramAddressSync(seeds, new PublicKey(programId));
+  return { address: address.toBase58(), bump };
+}
+
+/**
+ * IDL 中 pda 定义的 seeds 描述（常量显示为字符串或 hex，参数为 arg:路径，账户为路径）
+ */
+export function describePdaSeeds(pda: unknown): string[] {
+  const spec = pda as IdlPdaSpec | undefined;
+  return (spec?.seeds ?? []).map((seed) => {
+    if (seed.kind === 'arg') return `arg:${seed.path ?? ''}`;
+    if (seed.kind === 'account') return seed.path ?? '';
+    try {
+      return formatSeedBytes(encodeConstSeed(seed));
+    } catch {
+      return JSON.stringify(seed.value);
+    }
+  });
+}
+
+/**
+ * IDL 中定义的 PDA 模板
+ */
+export interface PdaTemplate {
+  instruction: string;
+  account: string;
+  seeds: IdlSeedSpec[];
+  program?: IdlSeedSpec;
+  ixDef: IdlInstruction;
+}
+
+/**
+ * 收集 IDL 中所有 PDA 模板（seeds 相同的模板只保留第一个）
+ */
+export function collectPdaTemplates(idl: Idl): PdaTemplate[] {
+  const templates: PdaTemplate[] = [];
+  const seen = new Set<string>();
+  for (const ixDef of idl.instructions ?? []) {
+    for (const account of flattenInstructionAccounts(ixDef.accounts ?? [])) {
+      const pda = account.pda as IdlPdaSpec | undefined;
+      if (!pda?.seeds) continue;
+      const program = pda.program ?? pda.programId;
+      const key = JSON.stringify([pda.seeds, program]);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      templates.push({ instruction: ixDef.name, account: account.name, seeds: pda.seeds, program, ixDef });
+    }
+  }
+  return templates;
+}
+
+/**
+ * 模板匹配结果
+ */
+export interface PdaTemplateMatch {
+  template: PdaTemplate;
+  seeds: string[]; // 代入候选值后的 seed 描述
+  bump: number;
+}
+
+// 每个模板 / 所有模板合计最多尝试的组合数（同步计算，避免长时间阻塞界面）
+const MAX_TEMPLATE_COMBINATIONS = 500;
+const MAX_TOTAL_COMBINATIONS = 2000;
+
+const shortValue = (value: string) => (value.length > 12 ? `${value.slice(0, 8)}...` : value);
+
+/**
+ * 列出某个 seed 位置可代入的候选值
+ */
+function seedOptions(
+  seed: IdlSeedSpec,
+  template: PdaTemplate,
+  idl: Idl,
+  candidates: string[]
+): { bytes: Buffer; label: string }[] {
+  if (seed.kind === 'const') {
+    return [resolveSeed(seed, { ixDef: template.ixDef, idl, args: null, accountsByName: new Map() })];
+  }
+  const path = seed.path ?? '';
+  const type = seed.type ?? (seed.kind === 'account' ? 'pubkey' : resolveArgType(template.ixDef, idl, path));
+  if (type === undefined) return [];
+  const prefix = seed.kind === 'arg' ? `arg:${path}` : path;
+  const options: { bytes: Buffer; label: string }[] = [];
+  for (const candidate of candidates) {
+    try {
+      options.push({ bytes: encodeSeedValue(type, candidate), label: `${prefix}=${shortValue(candidate)}` });
+    } catch {
+      // 候选值与该 seed 类型不匹配
+    }
+  }
+  return options;
+}
+
+/**
+ * 穷举 IDL 中的 PDA 模板，找出能用候选值推导出目标地址的模板
+ * @param candidates - 候选值（公钥、整数或字符串），代入 account / arg seeds
+ */
+export function findPdaTemplateMatches(
+  idl: Idl,
+  programId: string,
+  target: string,
+  candidates: string[]
+): { matches: PdaTemplateMatch[]; truncated: string[] } {
+  const matches: PdaTemplateMatch[] = [];
+  const truncated: string[] = [];
+  let budget = MAX_TOTAL_COMBINATIONS;
+
+  for (const template of collectPdaTemplates(idl)) {
+    let slots: { bytes: Buffer; label: string }[][];
+    let programSlot: { bytes: Buffer; label: string }[];
+    try {
+      slots = template.seeds.map((seed) => seedOptions(seed, template, idl, candidates));
+      programSlot = template.program
+        ? seedOptions(template.program, template, idl, candidates)
+        : [{ bytes: new PublicKey(programId).toBuffer(), label: '' }];
+    } catch {
+      continue;
+    }
+
+    const total = [...slots, programSlot].reduce((n, options) => n * options.length, 1);
+    if (total === 0) continue;
+    if (total > MAX_TEMPLATE_COMBINATIONS || total > budget) {
+      truncated.push(`${template.instruction}.${template.account}`);
+      continue;
+    }
+    budget -= total;
+
+    // 按笛卡尔积逐个尝试
+    const indexes = new Array<number>(slots.length).fill(0);
+    for (let n = 0; n < total / programSlot.length; n++) {
+      let rest = n;
+      for (let i = slots.length - 1; i >= 0; i--) {
+        indexes[i] = rest % slots[i].length;
+        rest = Math.floor(rest / slots[i].length);
+      }
+      const chosen = slots.map((options, i) => options[indexes[i]]);
+      for (const program of programSlot) {
+        try {
+          const [address, bump] = PublicKey.findProgramAddressSync(
+            chosen.map((c) => c.bytes),
+            new PublicKey(program.bytes)
+          );
+          if (address.toBase58() === target) {
+            matches.push({ template, seeds: chosen.map((c) => c.label), bump });
+          }
+        } catch {
+          // seed 过长等无效组合
+        }
+      }
+    }
+  }
+
+  return { matches, truncated };
+}
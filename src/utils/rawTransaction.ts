@@ -0,0 +1,234 @@
+import { VersionedMessage, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type {
+  AddressLabel,
+  AddressTableLookup,
+  DecodedInnerInstruction,
+  DecodedInstruction,
+  DecodedRawTransaction,
+  IdlConfig,
+  TransactionAccount,
+} from '../types';
+import { parseInstruction, serializeBigInt } from './instructionDecoder';
+
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * 反序列化后的交易或裸消息
+ */
+interface DeserializedInput {
+  kind: 'transaction' | 'message';
+  encoding: 'base64' | 'base58';
+  message: VersionedMessage;
+  signatures: Uint8Array[];
+}
+
+/**
+ * 按给定字节尝试反序列化：先按完整交易，再按裸消息
+ * 通过重新序列化的长度校验排除误判（交易头与消息头的格式可以互相"解析成功"）
+ */
+function tryDeserialize(bytes: Uint8Array): Omit<DeserializedInput, 'encoding'> | null {
+  try {
+    const tx = VersionedTransaction.deserialize(bytes);
+    if (
+      tx.signatures.length > 0 &&
+      tx.signatures.length === tx.message.header.numRequiredSignatures &&
+      tx.serialize().length === bytes.length
+    ) {
+      return { kind: 'transaction', message: tx.message, signatures: tx.signatures };
+    }
+  } catch {
+    // 不是完整交易，继续按消息解析
+  }
+
+  try {
+    const message = VersionedMessage.deserialize(bytes);
+    if (message.serialize().length === bytes.length) {
+      return { kind: 'message', message, signatures: [] };
+    }
+  } catch {
+    // 不是有效消息
+  }
+
+  return null;
+}
+
+/**
+ * 识别编码（base64 / base58）并反序列化交易或消息
+ */
+export function deserializeRawTransaction(input: string): DeserializedInput {
+  const text = input.replace(/\s+/g, '');
+  if (!text) {
+    throw new Error('输入为空');
+  }
+
+  // 只含 base58 字符时两种编码都可能，优先 base58（base64 很少恰好不含 0/O/I/l/+/）
+  const candidates: Array<DeserializedInput['encoding']> = [];
+  if (BASE58_REGEX.test(text)) candidates.push('base58');
+  if (BASE64_REGEX.test(text)) candidates.push('base64');
+  if (candidates.length === 0) {
+    throw new Error('无法识别的编码，请输入 base64 或 base58 格式的交易或消息');
+  }
+
+  for (const encoding of candidates) {
+    let bytes: Uint8Array;
+    try {
+      bytes = encoding === 'base58' ? bs58.decode(text) : Buffer.from(text, 'base64');
+    } catch {
+      continue;
+    }
+    const result = tryDeserialize(bytes);
+    if (result) {
+      return { ...result, encoding };
+    }
+  }
+
+  throw new Error('无法解析为交易或消息（支持 legacy 与 v0）');
+}
+
+/**
+ * 将交易或裸消息转换为可模拟的交易（裸消息使用空签名）
+ */
+export function toVersionedTransaction(input: string): VersionedTransaction {
+  const { message, signatures } = deserializeRawTransaction(input);
+  return new VersionedTransaction(message, signatures.length > 0 ? signatures : undefined);
+}
+
+/**
+ * 将消息与签名序列化为 base64 交易
+ */
+export function serializeTransaction(message: VersionedMessage, signatures: string[]): string {
+  const tx = new VersionedTransaction(
+    message,
+    signatures.map((sig) => bs58.decode(sig))
+  );
+  return Buffer.from(tx.serialize()).toString('base64');
+}
+
+/**
+ * 地址查找表中未解析账户的占位符
+ */
+function lookupPlaceholder(table: string, index: number): string {
+  return `Unresolved (${table.slice(0, 8)}...[${index}])`;
+}
+
+/**
+ * 按消息中的地址查找表引用还原完整账户列表，并记录每个账户的来源
+ * 账户顺序：静态账户 -> 所有查找表的可写账户 -> 所有查找表的只读账户
+ * @param lookupTables - 已获取的地址查找表内容（表地址 -> 地址列表）
+ * @param loadedAddresses - 节点返回的 meta.loadedAddresses（优先使用）
+ */
+export function resolveMessageAccounts(
+  message: VersionedMessage,
+  lookupTables?: Map<string, string[]>,
+  loadedAddresses?: { writable: string[]; readonly: string[] }
+): { accounts: TransactionAccount[]; addressTableLookups: AddressTableLookup[] } {
+  const addressTableLookups: AddressTableLookup[] = message.addressTableLookups.map((lookup) => ({
+    accountKey: lookup.accountKey.toBase58(),
+    writableIndexes: Array.from(lookup.writableIndexes),
+    readonlyIndexes: Array.from(lookup.readonlyIndexes),
+  }));
+
+  const accounts: TransactionAccount[] = message.staticAccountKeys.map((key, i) => ({
+    pubkey: key.toBase58(),
+    isSigner: message.isAccountSigner(i),
+    isWritable: message.isAccountWritable(i),
+    resolved: true,
+  }));
+  for (const field of ['writableIndexes', 'readonlyIndexes'] as const) {
+    const loaded = field === 'writableIndexes' ? loadedAddresses?.writable : loadedAddresses?.readonly;
+    let position = 0;
+    for (const lookup of addressTableLookups) {
+      const addresses = lookupTables?.get(lookup.accountKey);
+      for (const index of lookup[field]) {
+        const address = loaded?.[position++] ?? addresses?.[index];
+        accounts.push({
+          pubkey: address ?? lookupPlaceholder(lookup.accountKey, index),
+          isSigner: false,
+          isWritable: message.isAccountWritable(accounts.length),
+          lookupTable: lookup.accountKey,
+          lookupIndex: index,
+          resolved: address !== undefined,
+        });
+      }
+    }
+  }
+
+  return { accounts, addressTableLookups };
+}
+
+/**
+ * 为指令账户标注地址查找表来源
+ */
+export function annotateLookupAccounts(
+  instructions: DecodedInstruction[],
+  innerInstructions: DecodedInnerInstruction[],
+  accounts: TransactionAccount[]
+): { instructions: DecodedInstruction[]; innerInstructions: DecodedInnerInstruction[] } {
+  const lookupAccounts = new Map(
+    accounts.filter((account) => account.lookupTable).map((account) => [account.pubkey, account])
+  );
+  if (lookupAccounts.size === 0) {
+    return { instructions, innerInstructions };
+  }
+
+  const annotate = (ix: DecodedInstruction): DecodedInstruction => ({
+    ...ix,
+    accounts: ix.accounts.map((account) => {
+      const source = lookupAccounts.get(account.pubkey);
+      return source
+        ? { ...account, lookupTable: source.lookupTable, lookupIndex: source.lookupIndex }
+        : account;
+    }),
+  });
+
+  return {
+    instructions: instructions.map(annotate),
+    innerInstructions: innerInstructions.map((group) => ({
+      ...group,
+      instructions: group.instructions.map(annotate),
+    })),
+  };
+}
+
+/**
+ * 离线解码交易或消息，不发起 RPC 请求
+ * @param lookupTables - 已获取的地址查找表内容（表地址 -> 地址列表），未提供时使用占位符
+ */
+export function decodeRawTransaction(
+  input: string,
+  idlConfigs: IdlConfig[],
+  addressLabels: AddressLabel[],
+  lookupTables?: Map<string, string[]>
+): DecodedRawTransaction {
+  const { kind, encoding, message, signatures } = deserializeRawTransaction(input);
+  const { accounts, addressTableLookups } = resolveMessageAccounts(message, lookupTables);
+
+  const accountKeys = accounts.map((account) => account.pubkey);
+  const instructions = message.compiledInstructions.map((ix) =>
+    parseInstruction(
+      accountKeys[ix.programIdIndex],
+      bs58.encode(ix.data),
+      accountKeys,
+      ix.accountKeyIndexes,
+      idlConfigs,
+      addressLabels
+    )
+  );
+
+  const result: DecodedRawTransaction = {
+    kind,
+    encoding,
+    version: message.version,
+    // 全零签名表示尚未签名
+    signatures: signatures.map((sig) => (sig.every((b) => b === 0) ? null : bs58.encode(sig))),
+    recentBlockhash: message.recentBlockhash,
+    header: { ...message.header },
+    accounts,
+    addressTableLookups,
+    instructions: annotateLookupAccounts(instructions, [], accounts).instructions,
+  };
+
+  return serializeBigInt(result) as DecodedRawTransaction;
+}
@@ -0,0 +1,298 @@
+import type { ParsedInstruction, PartiallyDecodedInstruction } from '@solana/web3.js';
+import type {
+  DecodedInstruction,
+  ParsedTransaction,
+  RpcParsedInstruction,
+  RpcParsedInstructions,
+} from '../types';
+
+// 只用于展示的字段，不参与对比
+const IGNORED_RPC_FIELDS = new Set(['uiAmount', 'uiAmountString']);
+
+const SOL_AMOUNT_REGEX = /^(\d+)(?:\.(\d+))? SOL$/;
+
+/**
+ * 节点字段对应的本地字段：数字为账户序号，字符串为 data 中的字段路径
+ */
+type LocalField = number | string;
+type RpcFieldMap = Record<string, LocalField>;
+
+const TOKEN_FIELD_MAPS: Record<string, RpcFieldMap> = {
+  initializeMint: { mint: 0, rentSysvar: 1, decimals: 'decimals', mintAuthority: 'mintAuthority', freezeAuthority: 'freezeAuthority' },
+  initializeMint2: { mint: 0, decimals: 'decimals', mintAuthority: 'mintAuthority', freezeAuthority: 'freezeAuthority' },
+  initializeAccount: { account: 0, mint: 1, owner: 2, rentSysvar: 3 },
+  initializeAccount2: { account: 0, mint: 1, rentSysvar: 2, owner: 'owner' },
+  initializeAccount3: { account: 0, mint: 1, owner: 'owner' },
+  initializeMultisig: { multisig: 0, rentSysvar: 1, m: 'm' },
+  initializeMultisig2: { multisig: 0, m: 'm' },
+  transfer: { source: 0, destination: 1, authority: 2, amount: 'rawAmount' },
+  approve: { source: 0, delegate: 1, owner: 2, amount: 'rawAmount' },
+  revoke: { source: 0, owner: 1 },
+  setAuthority: { mint: 0, account: 0, authority: 1, authorityType: 'authorityType', newAuthority: 'newAuthority' },
+  mintTo: { mint: 0, account: 1, mintAuthority: 2, amount: 'rawAmount' },
+  burn: { account: 0, mint: 1, authority: 2, amount: 'rawAmount' },
+  closeAccount: { account: 0, destination: 1, owner: 2 },
+  freezeAccount: { account: 0, mint: 1, freezeAuthority: 2 },
+  thawAccount: { account: 0, mint: 1, freezeAuthority: 2 },
+  transferChecked: {
+    source: 0, mint: 1, destination: 2, authority: 3,
+    'tokenAmount.amount': 'rawAmount', 'tokenAmount.decimals': 'decimals',
+  },
+  approveChecked: {
+    source: 0, mint: 1, delegate: 2, owner: 3,
+    'tokenAmount.amount': 'rawAmount', 'tokenAmount.decimals': 'decimals',
+  },
+  mintToChecked: {
+    mint: 0, account: 1, mintAuthority: 2,
+    'tokenAmount.amount': 'rawAmount', 'tokenAmount.decimals': 'decimals',
+  },
+  burnChecked: {
+    account: 0, mint: 1, authority: 2,
+    'tokenAmount.amount': 'rawAmount', 'tokenAmount.decimals': 'decimals',
+  },
+  syncNative: { account: 0 },
+  getAccountDataSize: { mint: 0 },
+  initializeImmutableOwner: { account: 0 },
+  amountToUiAmount: { mint: 0, amount: 'rawAmount' },
+  uiAmountToAmount: { mint: 0 },
+};
+
+/**
+ * 原生程序的字段对应关系（按节点的 program 与 type 查找）
+ * 没有对应关系的指令或字段按值是否出现在本地解码结果中对比
+ */
+const RPC_FIELD_MAPS: Record<string, Record<string, RpcFieldMap>> = {
+  system: {
+    createAccount: { source: 0, newAccount: 1, lamports: 'lamports', space: 'space', owner: 'owner' },
+    assign: { account: 0, owner: 'owner' },
+    transfer: { source: 0, destination: 1, lamports: 'lamports' },
+    createAccountWithSeed: {
+      source: 0, newAccount: 1, base: 'base', seed: 'seed', lamports: 'lamports', space: 'space', owner: 'owner',
+    },
+    advanceNonce: { nonceAccount: 0, recentBlockhashesSysvar: 1, nonceAuthority: 2 },
+    withdrawFromNonce: {
+      nonceAccount: 0, destination: 1, recentBlockhashesSysvar: 2, rentSysvar: 3, nonceAuthority: 4, lamports: 'lamports',
+    },
+    initializeNonce: { nonceAccount: 0, recentBlockhashesSysvar: 1, rentSysvar: 2, nonceAuthority: 'authority' },
+    authorizeNonce: { nonceAccount: 0, nonceAuthority: 1, newAuthorized: 'newAuthority' },
+    upgradeNonce: { nonceAccount: 0 },
+    allocate: { account: 0, space: 'space' },
+    allocateWithSeed: { account: 0, base: 'base', seed: 'seed', space: 'space', owner: 'owner' },
+    assignWithSeed: { account: 0, base: 'base', seed: 'seed', owner: 'owner' },
+    transferWithSeed: {
+      source: 0, sourceBase: 1, destination: 2, lamports: 'lamports', sourceSeed: 'fromSeed', sourceOwner: 'fromOwner',
+    },
+  },
+  'spl-token': TOKEN_FIELD_MAPS,
+  'spl-token-2022': TOKEN_FIELD_MAPS,
+  'spl-associated-token-account': {
+    create: { source: 0, account: 1, wallet: 2, mint: 3, systemProgram: 4, tokenProgram: 5 },
+    createIdempotent: { source: 0, account: 1, wallet: 2, mint: 3, systemProgram: 4, tokenProgram: 5 },
+    recoverNested: {
+      nestedSource: 0, nestedMint: 1, destination: 2, nestedOwner: 3, ownerMint: 4, wallet: 5, tokenProgram: 6,
+    },
+  },
+  'address-lookup-table': {
+    createLookupTable: {
+      lookupTableAccount: 0, lookupTableAuthority: 1, payerAccount: 2, systemProgram: 3,
+      recentSlot: 'recentSlot', bumpSeed: 'bumpSeed',
+    },
+    freezeLookupTable: { lookupTableAccount: 0, lookupTableAuthority: 1 },
+    extendLookupTable: { lookupTableAccount: 0, lookupTableAuthority: 1, payerAccount: 2, systemProgram: 3 },
+    deactivateLookupTable: { lookupTableAccount: 0, lookupTableAuthority: 1 },
+    closeLookupTable: { lookupTableAccount: 0, lookupTableAuthority: 1, recipient: 2 },
+  },
+  'bpf-upgradeable-loader': {
+    initializeBuffer: { account: 0, authority: 1 },
+    write: { account: 0, authority: 1, offset: 'offset' },
+    deployWithMaxDataLen: {
+      payerAccount: 0, programDataAccount: 1, programAccount: 2, bufferAccount: 3,
+      rentSysvar: 4, clockSysvar: 5, systemProgram: 6, authority: 7, maxDataLen: 'maxDataLen',
+    },
+    upgrade: {
+      programDataAccount: 0, programAccount: 1, bufferAccount: 2, spillAccount: 3,
+      rentSysvar: 4, clockSysvar: 5, authority: 6,
+    },
+    setAuthority: { account: 0, authority: 1, newAuthority: 2 },
+    setAuthorityChecked: { account: 0, authority: 1, newAuthority: 2 },
+    close: { account: 0, recipient: 1, authority: 2, programAccount: 3 },
+    extendProgram: {
+      programDataAccount: 0, programAccount: 1, systemProgramAccount: 2, payerAccount: 3,
+      additionalBytes: 'additionalBytes',
+    },
+  },
+};
+
+/**
+ * 查找节点字段对应的本地字段
+ * 多签时节点字段带 multisig 前缀（multisigAuthority、multisigOwner 等），对应同一个账户
+ */
+function findLocalField(fieldMap: RpcFieldMap | undefined, path: string): LocalField | undefined {
+  if (!fieldMap) return undefined;
+  if (path in fieldMap) return fieldMap[path];
+  const multisig = path.match(/^multisig([A-Z])(.*)$/);
+  return multisig ? fieldMap[multisig[1].toLowerCase() + multisig[2]] : undefined;
+}
+
+/**
+ * 节点字段对应的账户序号（不是账户字段时返回 undefined）
+ */
+export function getRpcAccountIndex(rpc: RpcParsedInstruction, field: string): number | undefined {
+  const fieldMap = rpc.type ? RPC_FIELD_MAPS[rpc.program]?.[rpc.type] : undefined;
+  const localField = findLocalField(fieldMap, field);
+  return typeof localField === 'number' ? localField : undefined;
+}
+
+/**
+ * 按路径读取本地解码数据中的字段
+ */
+function getByPath(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) =>
+      current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    data
+  );
+}
+
+/**
+ * 提取节点解析的指令（PartiallyDecodedInstruction 表示节点未解析）
+ */
+export function toRpcParsedInstruction(
+  ix: ParsedInstruction | PartiallyDecodedInstruction
+): RpcParsedInstruction | null {
+  if (!('parsed' in ix)) return null;
+  const parsed = ix.parsed as unknown;
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const { type, info } = parsed as { type?: unknown; info?: unknown };
+    return { program: ix.program, type: typeof type === 'string' ? type : null, info: info ?? null };
+  }
+  return { program: ix.program, type: null, info: parsed };
+}
+
+/**
+ * 统一比较用的值：SOL 金额还原为 lamports，字符串忽略大小写与分隔符
+ */
+function normalizeValue(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean') {
+    return String(value);
+  }
+  const text = String(value);
+  const sol = text.match(SOL_AMOUNT_REGEX);
+  if (sol) {
+    const fraction = (sol[2] ?? '').padEnd(9, '0');
+    return (BigInt(sol[1]) * 1_000_000_000n + BigInt(fraction)).toString();
+  }
+  if (/^-?\d+$/.test(text)) return BigInt(text).toString();
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * 遍历值的所有叶子节点
+ */
+function collectLeaves(value: unknown, path: string, out: Array<{ path: string; value: unknown }>) {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectLeaves(item, `${path}[${i}]`, out));
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (IGNORED_RPC_FIELDS.has(key)) continue;
+      collectLeaves(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.push({ path, value });
+}
+
+/**
+ * 对比本地解码结果与节点的 jsonParsed 结果
+ * 字段命名在两边并不一致（如 from / source），原生程序按字段对应关系逐个对比；
+ * 没有对应关系时退化为按值对比：节点结果中的每个叶子值都应出现在本地解码的账户或参数中
+ */
+export function compareWithRpcParsed(
+  decoded: DecodedInstruction,
+  rpc: RpcParsedInstruction
+): string[] {
+  // 本地未解码时节点结果作为回退展示，不计为差异
+  if (!decoded.data) return [];
+
+  const discrepancies: string[] = [];
+
+  if (rpc.type) {
+    const localNames = [decoded.name, decoded.extensionName]
+      .filter((n): n is string => !!n)
+      .map(normalizeValue);
+    if (!localNames.includes(normalizeValue(rpc.type))) {
+      discrepancies.push(`指令类型: 本地 ${decoded.extensionName ?? decoded.name}，RPC ${rpc.type}`);
+    }
+  }
+
+  const localLeaves: Array<{ path: string; value: unknown }> = [];
+  collectLeaves(decoded.data, '', localLeaves);
+  const localValues = new Set([
+    ...decoded.accounts.map((account) => account.pubkey),
+    ...localLeaves.map((leaf) => normalizeValue(leaf.value)),
+  ]);
+
+  const fieldMap = rpc.type ? RPC_FIELD_MAPS[rpc.program]?.[rpc.type] : undefined;
+  const rpcLeaves: Array<{ path: string; value: unknown }> = [];
+  collectLeaves(rpc.info, '', rpcLeaves);
+  for (const leaf of rpcLeaves) {
+    const raw = String(leaf.value);
+    const localField = findLocalField(fieldMap, leaf.path);
+
+    if (typeof localField === 'number') {
+      const account = decoded.accounts[localField];
+      if (account?.pubkey !== raw) {
+        discrepancies.push(
+          `${leaf.path}: RPC 为 ${raw}，本地账户 #${localField} 为 ${account ? `${account.name ?? ''} ${account.pubkey}`.trim() : '(缺失)'}`
+        );
+      }
+      continue;
+    }
+    if (typeof localField === 'string') {
+      const local = getByPath(decoded.data, localField);
+      if (local === undefined || local === null || normalizeValue(local) !== normalizeValue(leaf.value)) {
+        discrepancies.push(
+          `${leaf.path}: RPC 为 ${raw}，本地 ${localField} 为 ${local === undefined || local === null ? '(缺失)' : String(local)}`
+        );
+      }
+      continue;
+    }
+
+    if (!localValues.has(raw) && !localValues.has(normalizeValue(leaf.value))) {
+      discrepancies.push(`${leaf.path || 'info'}: RPC 为 ${raw}，本地解码中未找到`);
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * 附加节点解析结果及差异
+ */
+function withRpcParsed(ix: DecodedInstruction, rpc: RpcParsedInstruction | null | undefined): DecodedInstruction {
+  if (!rpc) return ix;
+  return { ...ix, rpcParsed: rpc, rpcDiscrepancies: compareWithRpcParsed(ix, rpc) };
+}
+
+/**
+ * 将节点的 jsonParsed 结果关联到交易中的各条指令
+ */
+export function attachRpcParsed(
+  transaction: ParsedTransaction,
+  parsed: RpcParsedInstructions
+): ParsedTransaction {
+  return {
+    ...transaction,
+    instructions: transaction.instructions.map((ix, i) => withRpcParsed(ix, parsed.instructions[i])),
+    innerInstructions: transaction.innerInstructions.map((group) => {
+      const rpcGroup = parsed.innerInstructions.find((inner) => inner.index === group.index);
+      return {
+        ...group,
+        instructions: group.instructions.map((ix, i) => withRpcParsed(ix, rpcGroup?.instructions[i])),
+      };
+    }),
+  };
+}
@@ -0,0 +1,160 @@
+import { PublicKey } from '@solana/web3.js';
+import type { RpcParsedInstruction } from '../types';
+import { getRpcAccountIndex } from './rpcCrossCheck';
+import { AUTHORITY_TYPES } from './tokenProgramDecoder';
+
+type Info = Record<string, unknown>;
+type DataEncoder = (info: Info) => Buffer[];
+
+// 按布局写入字段（与各原生解码器读取的格式一致）
+const u8 = (value: unknown) => Buffer.from([Number(value)]);
+
+const u32 = (value: unknown) => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(Number(value));
+  return bytes;
+};
+
+const u64 = (value: unknown) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(BigInt(String(value)));
+  return bytes;
+};
+
+const pubkey = (value: unknown) => new PublicKey(value as string).toBuffer();
+
+// bincode 字符串（u64 长度前缀）
+const bincodeString = (value: unknown) => {
+  const text = Buffer.from(String(value), 'utf8');
+  return Buffer.concat([u64(text.length), text]);
+};
+
+// COption<Pubkey>（1 字节标记）
+const optionPubkey = (value: unknown) =>
+  value === undefined || value === null ? u8(0) : Buffer.concat([u8(1), pubkey(value)]);
+
+const tokenAmount = (info: Info) => {
+  const amount = info.tokenAmount as { amount: string; decimals: number };
+  return [u64(amount.amount), u8(amount.decimals)];
+};
+
+const authorityType = (value: unknown) => {
+  const index = AUTHORITY_TYPES.findIndex((type) => type.toLowerCase() === String(value).toLowerCase());
+  if (index < 0) throw new Error(`未知的 authorityType: ${String(value)}`);
+  return u8(index);
+};
+
+const SYSTEM_ENCODERS: Record<string, DataEncoder> = {
+  createAccount: (i) => [u32(0), u64(i.lamports), u64(i.space), pubkey(i.owner)],
+  assign: (i) => [u32(1), pubkey(i.owner)],
+  transfer: (i) => [u32(2), u64(i.lamports)],
+  createAccountWithSeed: (i) => [
+    u32(3), pubkey(i.base), bincodeString(i.seed), u64(i.lamports), u64(i.space), pubkey(i.owner),
+  ],
+  advanceNonce: () => [u32(4)],
+  withdrawFromNonce: (i) => [u32(5), u64(i.lamports)],
+  initializeNonce: (i) => [u32(6), pubkey(i.nonceAuthority)],
+  authorizeNonce: (i) => [u32(7), pubkey(i.newAuthorized)],
+  allocate: (i) => [u32(8), u64(i.space)],
+  allocateWithSeed: (i) => [u32(9), pubkey(i.base), bincodeString(i.seed), u64(i.space), pubkey(i.owner)],
+  assignWithSeed: (i) => [u32(10), pubkey(i.base), bincodeString(i.seed), pubkey(i.owner)],
+  transferWithSeed: (i) => [u32(11), u64(i.lamports), bincodeString(i.sourceSeed), pubkey(i.sourceOwner)],
+  upgradeNonce: () => [u32(12)],
+};
+
+// Token 与 Token-2022 共用的基础指令
+const TOKEN_ENCODERS: Record<string, DataEncoder> = {
+  initializeMint: (i) => [u8(0), u8(i.decimals), pubkey(i.mintAuthority), optionPubkey(i.freezeAuthority)],
+  initializeAccount: () => [u8(1)],
+  initializeMultisig: (i) => [u8(2), u8(i.m)],
+  transfer: (i) => [u8(3), u64(i.amount)],
+  approve: (i) => [u8(4), u64(i.amount)],
+  revoke: () => [u8(5)],
+  setAuthority: (i) => [u8(6), authorityType(i.authorityType), optionPubkey(i.newAuthority)],
+  mintTo: (i) => [u8(7), u64(i.amount)],
+  burn: (i) => [u8(8), u64(i.amount)],
+  closeAccount: () => [u8(9)],
+  freezeAccount: () => [u8(10)],
+  thawAccount: () => [u8(11)],
+  transferChecked: (i) => [u8(12), ...tokenAmount(i)],
+  approveChecked: (i) => [u8(13), ...tokenAmount(i)],
+  mintToChecked: (i) => [u8(14), ...tokenAmount(i)],
+  burnChecked: (i) => [u8(15), ...tokenAmount(i)],
+  initializeAccount2: (i) => [u8(16), pubkey(i.owner)],
+  syncNative: () => [u8(17)],
+  initializeAccount3: (i) => [u8(18), pubkey(i.owner)],
+  initializeMultisig2: (i) => [u8(19), u8(i.m)],
+  initializeMint2: (i) => [u8(20), u8(i.decimals), pubkey(i.mintAuthority), optionPubkey(i.freezeAuthority)],
+  getAccountDataSize: (i) => {
+    // 节点只给出扩展名称，无法还原扩展类型编号
+    if (Array.isArray(i.extensionTypes) && i.extensionTypes.length > 0) throw new Error('无法还原扩展类型');
+    return [u8(21)];
+  },
+  initializeImmutableOwner: () => [u8(22)],
+  amountToUiAmount: (i) => [u8(23), u64(i.amount)],
+  uiAmountToAmount: (i) => [u8(24), Buffer.from(String(i.uiAmount), 'utf8')],
+};
+
+const ENCODERS: Record<string, Record<string, DataEncoder>> = {
+  system: SYSTEM_ENCODERS,
+  'spl-token': TOKEN_ENCODERS,
+  'spl-token-2022': TOKEN_ENCODERS,
+  'spl-associated-token-account': {
+    create: () => [u8(0)],
+    createIdempotent: () => [u8(1)],
+    recoverNested: () => [u8(2)],
+  },
+};
+
+/**
+ * 由节点 jsonParsed 结果还原原始指令（账户列表与数据）
+ * 模拟交易返回的内部指令只有解析结果，还原后可以交给本地解码器解析
+ * @returns 不支持的程序 / 指令或字段不完整时返回 null
+ */
+export function rebuildRpcParsedInstruction(
+  rpc: RpcParsedInstruction
+): { accounts: string[]; data: Buffer } | null {
+  const encoder = rpc.type ? ENCODERS[rpc.program]?.[rpc.type] : undefined;
+  if (!encoder || !rpc.info || typeof rpc.info !== 'object') return null;
+  const info = rpc.info as Info;
+
+  try {
+    const data = Buffer.concat(encoder(info));
+
+    const accounts: string[] = [];
+    for (const [field, value] of Object.entries(info)) {
+      const index = getRpcAccountIndex(rpc, field);
+      if (index !== undefined && typeof value === 'string') {
+        accounts[index] = value;
+      }
+    }
+    // 中间缺少账户时无法确定顺序
+    for (let i = 0; i < accounts.length; i++) {
+      if (!accounts[i]) return null;
+    }
+    // 多签签名者位于固定账户之后
+    if (Array.isArray(info.signers)) {
+      accounts.push(...(info.signers as string[]));
+    }
+    return { accounts, data };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从节点解析结果中收集 decimals（*Checked 指令与 InitializeMint）
+ */
+export function collectRpcParsedDecimals(instructions: RpcParsedInstruction[]): Map<string, number> {
+  const decimals = new Map<string, number>();
+  for (const { info } of instructions) {
+    if (!info || typeof info !== 'object') continue;
+    const fields = info as Info;
+    const value = (fields.tokenAmount as { decimals?: number } | undefined)?.decimals ?? fields.decimals;
+    if (typeof value !== 'number') continue;
+    for (const key of ['mint', 'source', 'destination', 'account']) {
+      if (typeof fields[key] === 'string') decimals.set(fields[key] as string, value);
+    }
+  }
+  return decimals;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair, NONCE_ACCOUNT_LENGTH, PublicKey, SystemProgram } from '@solana/web3.js';
+import type { TransactionInstruction } from '@solana/web3.js';
+import { decodeSystemInstruction } from './systemProgramDecoder';
+
+// 固定地址，避免随机数据
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed));
+const from = key(1);
+const to = key(2);
+const base = key(3);
+const owner = key(4);
+
+// 使用 web3.js 编码的指令作为字节级样例
+const decode = (ix: TransactionInstruction) =>
+  decodeSystemInstruction(ix.data, { accounts: ix.keys.map((k) => k.pubkey.toBase58()) });
+
+describe('decodeSystemInstruction', () => {
+  it('decodes Transfer', () => {
+    const result = decode(SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 1_500_000_000 }));
+    expect(result).toEqual({
+      name: 'Transfer',
+      data: { lamports: '1.5 SOL' },
+      accountNames: ['from', 'to'],
+    });
+  });
+
+  it('decodes CreateAccount', () => {
+    const result = decode(
+      SystemProgram.createAccount({ fromPubkey: from, newAccountPubkey: to, lamports: 1_000, space: 165, programId: owner })
+    );
+    expect(result.name).toBe('CreateAccount');
+    expect(result.data).toEqual({ lamports: '0.000001 SOL', space: '165', owner: owner.toBase58() });
+    expect(result.accountNames).toEqual(['from', 'newAccount']);
+  });
+
+  it('decodes CreateAccountWithSeed with a bincode seed', () => {
+    const result = decode(
+      SystemProgram.createAccountWithSeed({
+        fromPubkey: from,
+        newAccountPubkey: to,
+        basePubkey: base,
+        seed: 'vault',
+        lamports: 42,
+        space: 8,
+        programId: owner,
+      })
+    );
+    expect(result.name).toBe('CreateAccountWithSeed');
+    expect(result.data).toEqual({
+      base: base.toBase58(),
+      seed: 'vault',
+      lamports: '0.000000042 SOL',
+      space: '8',
+      owner: owner.toBase58(),
+    });
+  });
+
+  it('decodes TransferWithSeed', () => {
+    const result = decode(
+      SystemProgram.transfer({
+        fromPubkey: from,
+        basePubkey: base,
+        toPubkey: to,
+        lamports: 7,
+        seed: 'a',
+        programId: owner,
+      })
+    );
+    expect(result.name).toBe('TransferWithSeed');
+    expect(result.data).toEqual({ lamports: '0.000000007 SOL', fromSeed: 'a', fromOwner: owner.toBase58() });
+    expect(result.accountNames).toEqual(['from', 'base', 'to']);
+  });
+
+  it('decodes nonce instructions', () => {
+    const authority = Keypair.fromSeed(Buffer.alloc(32, 9)).publicKey;
+    const [, initialize] = SystemProgram.createNonceAccount({
+      fromPubkey: from,
+      noncePubkey: to,
+      authorizedPubkey: authority,
+      lamports: NONCE_ACCOUNT_LENGTH,
+    }).instructions;
+    expect(decode(initialize)).toMatchObject({
+      name: 'InitializeNonceAccount',
+      data: { authority: authority.toBase58() },
+    });
+    expect(decode(SystemProgram.nonceAdvance({ noncePubkey: to, authorizedPubkey: authority }))).toMatchObject({
+      name: 'AdvanceNonceAccount',
+      data: {},
+      accountNames: ['nonceAccount', 'recentBlockhashesSysvar', 'nonceAuthority'],
+    });
+  });
+
+  it('reports unknown tags and truncated data', () => {
+    expect(decodeSystemInstruction(Buffer.from([99, 0, 0, 0]), { accounts: [] }).decodeError).toContain('99');
+    expect(decodeSystemInstruction(Buffer.from([2, 0]), { accounts: [] }).decodeError).toBeDefined();
+    const truncated = decodeSystemInstruction(Buffer.from([2, 0, 0, 0, 1]), { accounts: [] });
+    expect(truncated).toMatchObject({ name: 'Transfer', data: null });
+    expect(truncated.decodeError).toContain('Unexpected end of buffer');
+  });
+});
@@ -0,0 +1,133 @@
+import { BinaryReader, formatLamports } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+  NativeProgramError,
+} from './nativeInstruction';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+/**
+ * System Program 指令布局（指令类型为 u32 LE）
+ * seed 字符串使用 bincode 编码（u64 长度前缀）
+ */
+const SYSTEM_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  0: {
+    name: 'CreateAccount',
+    accounts: ['from', 'newAccount'],
+    decode: (r) => ({
+      lamports: formatLamports(r.u64()),
+      space: r.u64().toString(),
+      owner: r.pubkey(),
+    }),
+  },
+  1: {
+    name: 'Assign',
+    accounts: ['account'],
+    decode: (r) => ({ owner: r.pubkey() }),
+  },
+  2: {
+    name: 'Transfer',
+    accounts: ['from', 'to'],
+    decode: (r) => ({ lamports: formatLamports(r.u64()) }),
+  },
+  3: {
+    name: 'CreateAccountWithSeed',
+    accounts: ['from', 'newAccount', 'base'],
+    decode: (r) => ({
+      base: r.pubkey(),
+      seed: r.bincodeString(),
+      lamports: formatLamports(r.u64()),
+      space: r.u64().toString(),
+      owner: r.pubkey(),
+    }),
+  },
+  4: {
+    name: 'AdvanceNonceAccount',
+    accounts: ['nonceAccount', 'recentBlockhashesSysvar', 'nonceAuthority'],
+  },
+  5: {
+    name: 'WithdrawNonceAccount',
+    accounts: ['nonceAccount', 'to', 'recentBlockhashesSysvar', 'rentSysvar', 'nonceAuthority'],
+    decode: (r) => ({ lamports: formatLamports(r.u64()) }),
+  },
+  6: {
+    name: 'InitializeNonceAccount',
+    accounts: ['nonceAccount', 'recentBlockhashesSysvar', 'rentSysvar'],
+    decode: (r) => ({ authority: r.pubkey() }),
+  },
+  7: {
+    name: 'AuthorizeNonceAccount',
+    accounts: ['nonceAccount', 'nonceAuthority'],
+    decode: (r) => ({ newAuthority: r.pubkey() }),
+  },
+  8: {
+    name: 'Allocate',
+    accounts: ['account'],
+    decode: (r) => ({ space: r.u64().toString() }),
+  },
+  9: {
+    name: 'AllocateWithSeed',
+    accounts: ['account', 'base'],
+    decode: (r) => ({
+      base: r.pubkey(),
+      seed: r.bincodeString(),
+      space: r.u64().toString(),
+      owner: r.pubkey(),
+    }),
+  },
+  10: {
+    name: 'AssignWithSeed',
+    accounts: ['account', 'base'],
+    decode: (r) => ({
+      base: r.pubkey(),
+      seed: r.bincodeString(),
+      owner: r.pubkey(),
+    }),
+  },
+  11: {
+    name: 'TransferWithSeed',
+    accounts: ['from', 'base', 'to'],
+    decode: (r) => ({
+      lamports: formatLamports(r.u64()),
+      fromSeed: r.bincodeString(),
+      fromOwner: r.pubkey(),
+    }),
+  },
+  12: {
+    name: 'UpgradeNonceAccount',
+    accounts: ['nonceAccount'],
+  },
+};
+
+/**
+ * 解码 System Program 指令
+ */
+export function decodeSystemInstruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 4) {
+    return { name: null, data: null, decodeError: '数据长度不足，无法读取 System Program 指令类型' };
+  }
+  const reader = new BinaryReader(data);
+  const tag = reader.u32();
+  return decodeByTag(tag, SYSTEM_INSTRUCTIONS, reader, context, 'System Program');
+}
+
+/**
+ * System Program 自定义错误（SystemError 枚举）
+ */
+export const SYSTEM_ERRORS: Record<number, NativeProgramError> = {
+  0: { name: 'AccountAlreadyInUse', message: 'an account with the same address already exists' },
+  1: { name: 'ResultWithNegativeLamports', message: 'account does not have enough SOL to perform the operation' },
+  2: { name: 'InvalidProgramId', message: 'cannot assign account to this program id' },
+  3: { name: 'InvalidAccountDataLength', message: 'cannot allocate account data of this length' },
+  4: { name: 'MaxSeedLengthExceeded', message: 'length of requested seed is too long' },
+  5: { name: 'AddressWithSeedMismatch', message: 'provided address does not match addressed derived from seed' },
+  6: { name: 'NonceNoRecentBlockhashes', message: 'advancing stored nonce requires a populated RecentBlockhashes sysvar' },
+  7: { name: 'NonceBlockhashNotExpired', message: 'stored nonce is still in recent_blockhashes' },
+  8: { name: 'NonceUnexpectedBlockhashValue', message: 'specified nonce does not match stored nonce' },
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { decodeToken2022AccountData, decodeToken2022Instruction } from './token2022Decoder';
+import { MINT_SIZE, TOKEN_ACCOUNT_SIZE } from './tokenProgramDecoder';
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed)).toBase58();
+const keyBytes = (seed: number) => Buffer.alloc(32, seed);
+
+const u16 = (value: number) => {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16LE(value);
+  return bytes;
+};
+
+const u32 = (value: number) => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+};
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+
+const borshString = (value: string) => Buffer.concat([u32(Buffer.byteLength(value)), Buffer.from(value)]);
+
+// TLV 扩展：u16 类型 | u16 长度 | value
+const tlv = (type: number, value: Buffer) => Buffer.concat([u16(type), u16(value.length), value]);
+
+const accounts = [key(1), key(2), key(3), key(4)];
+
+describe('decodeToken2022Instruction', () => {
+  it('reuses the Token Program layouts for base instructions', () => {
+    const data = Buffer.concat([Buffer.from([12]), u64(250n), Buffer.from([2])]);
+    expect(decodeToken2022Instruction(data, { accounts })).toMatchObject({
+      name: 'TransferChecked',
+      data: { amount: '2.5', rawAmount: '250', decimals: 2 },
+    });
+  });
+
+  it('decodes TransferCheckedWithFee as an extension sub-instruction', () => {
+    const data = Buffer.concat([Buffer.from([26, 1]), u64(1_000n), Buffer.from([3]), u64(5n)]);
+    expect(decodeToken2022Instruction(data, { accounts })).toEqual({
+      name: 'TransferFeeExtension',
+      extensionName: 'TransferCheckedWithFee',
+      data: { amount: '1', rawAmount: '1000', decimals: 3, fee: '0.005', rawFee: '5' },
+      accountNames: ['source', 'mint', 'destination', 'authority'],
+    });
+  });
+
+  it('decodes pointer extensions with optional non-zero pubkeys', () => {
+    const data = Buffer.concat([Buffer.from([39, 0]), keyBytes(5), Buffer.alloc(32)]);
+    expect(decodeToken2022Instruction(data, { accounts: accounts.slice(0, 1) })).toMatchObject({
+      name: 'MetadataPointerExtension',
+      extensionName: 'Initialize',
+      data: { authority: key(5), metadataAddress: null },
+    });
+  });
+
+  it('decodes TokenMetadata interface instructions by their 8-byte discriminator', () => {
+    // sha256("spl_token_metadata_interface:initialize_account")[..8]
+    const discriminator = Buffer.from([210, 225, 30, 162, 88, 184, 77, 141]);
+    const data = Buffer.concat([discriminator, borshString('Token'), borshString('TKN'), borshString('https://x')]);
+    expect(decodeToken2022Instruction(data, { accounts })).toEqual({
+      name: 'TokenMetadata',
+      extensionName: 'Initialize',
+      data: { name: 'Token', symbol: 'TKN', uri: 'https://x' },
+      accountNames: ['metadata', 'updateAuthority', 'mint', 'mintAuthority'],
+    });
+  });
+
+  it('reports a missing extension sub-instruction type', () => {
+    expect(decodeToken2022Instruction(Buffer.from([26]), { accounts: [] }).decodeError).toBeDefined();
+  });
+});
+
+describe('decodeToken2022AccountData', () => {
+  // Mint 基础状态（无 freeze authority）
+  const mintState = Buffer.concat([
+    u32(1), keyBytes(1), u64(100n), Buffer.from([0, 1]), u32(0), Buffer.alloc(32),
+  ]);
+
+  it('decodes mint extensions after the padded base state and account type', () => {
+    expect(mintState.length).toBe(MINT_SIZE);
+    const metadata = Buffer.concat([
+      keyBytes(6), keyBytes(7), borshString('Token'), borshString('TKN'), borshString('uri'),
+      u32(1), borshString('k'), borshString('v'),
+    ]);
+    const data = Buffer.concat([
+      mintState,
+      Buffer.alloc(TOKEN_ACCOUNT_SIZE - MINT_SIZE),
+      Buffer.from([1]), // AccountType::Mint
+      tlv(3, keyBytes(8)), // MintCloseAuthority
+      tlv(19, metadata), // TokenMetadata
+    ]);
+
+    const result = decodeToken2022AccountData(data);
+    expect(result?.accountType).toBe('Mint');
+    expect(result?.data).toMatchObject({
+      mintAuthority: key(1),
+      rawSupply: '100',
+      decimals: 0,
+      freezeAuthority: null,
+      extensions: {
+        MintCloseAuthority: { closeAuthority: key(8) },
+        TokenMetadata: {
+          updateAuthority: key(6),
+          mint: key(7),
+          name: 'Token',
+          symbol: 'TKN',
+          uri: 'uri',
+          additionalMetadata: { k: 'v' },
+        },
+      },
+    });
+  });
+
+  it('keeps raw data when an extension value is malformed', () => {
+    const metadata = Buffer.concat([keyBytes(6), keyBytes(7), borshString(''), borshString(''), borshString(''), u32(0xffffffff)]);
+    const data = Buffer.concat([
+      mintState,
+      Buffer.alloc(TOKEN_ACCOUNT_SIZE - MINT_SIZE),
+      Buffer.from([1]),
+      tlv(19, metadata),
+    ]);
+    const extensions = decodeToken2022AccountData(data)?.data.extensions as Record<string, { decodeError?: string }>;
+    expect(extensions.TokenMetadata.decodeError).toContain('additionalMetadata');
+  });
+});
@@ -0,0 +1,743 @@
+import { BinaryReader, formatUnits } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeAccountDecodeResult,
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+  NativeProgramError,
+} from './nativeInstruction';
+import {
+  MINT_SIZE,
+  MULTISIG_SIZE,
+  TOKEN_ACCOUNT_SIZE,
+  TOKEN_INSTRUCTIONS,
+  TOKEN_ERRORS,
+  accountStateName,
+  amountFields,
+  decodeTokenState,
+  lookupDecimals,
+} from './tokenProgramDecoder';
+import { computeDiscriminator } from './discriminator';
+
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+/**
+ * Token-2022 扩展类型（ExtensionType 枚举，u16）
+ */
+export const EXTENSION_TYPES = [
+  'Uninitialized',
+  'TransferFeeConfig',
+  'TransferFeeAmount',
+  'MintCloseAuthority',
+  'ConfidentialTransferMint',
+  'ConfidentialTransferAccount',
+  'DefaultAccountState',
+  'ImmutableOwner',
+  'MemoTransfer',
+  'NonTransferable',
+  'InterestBearingConfig',
+  'CpiGuard',
+  'PermanentDelegate',
+  'NonTransferableAccount',
+  'TransferHook',
+  'TransferHookAccount',
+  'ConfidentialTransferFeeConfig',
+  'ConfidentialTransferFeeAmount',
+  'MetadataPointer',
+  'TokenMetadata',
+  'GroupPointer',
+  'TokenGroup',
+  'GroupMemberPointer',
+  'TokenGroupMember',
+  'ConfidentialMintBurn',
+  'ScaledUiAmount',
+  'Pausable',
+  'PausableAccount',
+];
+
+export function extensionTypeName(value: number): string {
+  return EXTENSION_TYPES[value] ?? `Unknown(${value})`;
+}
+
+function readExtensionTypes(reader: BinaryReader): string[] {
+  const types: string[] = [];
+  while (reader.remaining >= 2) {
+    types.push(extensionTypeName(reader.u16()));
+  }
+  return types;
+}
+
+/**
+ * 零知识证明相关的扩展指令只显示名称与数据长度
+ */
+function opaqueLayout(name: string): NativeInstructionLayout {
+  return {
+    name,
+    accounts: [],
+    decode: (r) => ({ opaqueData: `${r.remaining} bytes` }),
+  };
+}
+
+/**
+ * 带子指令的扩展（指令类型后紧跟 u8 子指令类型）
+ */
+interface ExtensionLayout {
+  name: string;
+  instructions: Record<number, NativeInstructionLayout>;
+}
+
+/**
+ * 启用 / 禁用类扩展（MemoTransfer、CpiGuard）
+ */
+function toggleExtension(name: string): ExtensionLayout {
+  return {
+    name,
+    instructions: {
+      0: { name: 'Enable', accounts: ['account', 'owner'], extraAccounts: 'multisigSigner' },
+      1: { name: 'Disable', accounts: ['account', 'owner'], extraAccounts: 'multisigSigner' },
+    },
+  };
+}
+
+/**
+ * 指针类扩展（MetadataPointer、GroupPointer、GroupMemberPointer）
+ */
+function pointerExtension(name: string, addressField: string): ExtensionLayout {
+  return {
+    name,
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({
+          authority: r.optionalNonZeroPubkey(),
+          [addressField]: r.optionalNonZeroPubkey(),
+        }),
+      },
+      1: {
+        name: 'Update',
+        accounts: ['mint', 'authority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => ({ [addressField]: r.optionalNonZeroPubkey() }),
+      },
+    },
+  };
+}
+
+/**
+ * Token-2022 独有的单层指令
+ */
+const TOKEN_2022_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  ...TOKEN_INSTRUCTIONS,
+  25: {
+    name: 'InitializeMintCloseAuthority',
+    accounts: ['mint'],
+    decode: (r) => ({ closeAuthority: r.option(() => r.pubkey()) }),
+  },
+  29: {
+    name: 'Reallocate',
+    accounts: ['account', 'payer', 'systemProgram', 'owner'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => ({ extensionTypes: readExtensionTypes(r) }),
+  },
+  31: {
+    name: 'CreateNativeMint',
+    accounts: ['payer', 'nativeMint', 'systemProgram'],
+  },
+  32: {
+    name: 'InitializeNonTransferableMint',
+    accounts: ['mint'],
+  },
+  35: {
+    name: 'InitializePermanentDelegate',
+    accounts: ['mint'],
+    decode: (r) => ({ delegate: r.pubkey() }),
+  },
+  38: {
+    name: 'WithdrawExcessLamports',
+    accounts: ['source', 'destination', 'authority'],
+    extraAccounts: 'multisigSigner',
+  },
+};
+
+/**
+ * Token-2022 扩展指令
+ */
+const TOKEN_2022_EXTENSIONS: Record<number, ExtensionLayout> = {
+  26: {
+    name: 'TransferFeeExtension',
+    instructions: {
+      0: {
+        name: 'InitializeTransferFeeConfig',
+        accounts: ['mint'],
+        decode: (r, ctx) => {
+          const transferFeeConfigAuthority = r.option(() => r.pubkey());
+          const withdrawWithheldAuthority = r.option(() => r.pubkey());
+          const transferFeeBasisPoints = r.u16();
+          const maximumFee = r.u64();
+          const decimals = lookupDecimals(ctx, [0]);
+          return {
+            transferFeeConfigAuthority,
+            withdrawWithheldAuthority,
+            transferFeeBasisPoints,
+            maximumFee: decimals === undefined ? maximumFee.toString() : formatUnits(maximumFee, decimals),
+          };
+        },
+      },
+      1: {
+        name: 'TransferCheckedWithFee',
+        accounts: ['source', 'mint', 'destination', 'authority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => {
+          const raw = r.u64();
+          const decimals = r.u8();
+          const fee = r.u64();
+          return {
+            ...amountFields(raw, decimals),
+            fee: formatUnits(fee, decimals),
+            rawFee: fee.toString(),
+          };
+        },
+      },
+      2: {
+        name: 'WithdrawWithheldTokensFromMint',
+        accounts: ['mint', 'destination', 'withdrawWithheldAuthority'],
+        extraAccounts: 'multisigSigner',
+      },
+      3: {
+        name: 'WithdrawWithheldTokensFromAccounts',
+        accounts: ['mint', 'destination', 'withdrawWithheldAuthority'],
+        extraAccounts: 'account',
+        decode: (r) => ({ numTokenAccounts: r.u8() }),
+      },
+      4: {
+        name: 'HarvestWithheldTokensToMint',
+        accounts: ['mint'],
+        extraAccounts: 'sourceAccount',
+      },
+      5: {
+        name: 'SetTransferFee',
+        accounts: ['mint', 'transferFeeConfigAuthority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r, ctx) => {
+          const transferFeeBasisPoints = r.u16();
+          const maximumFee = r.u64();
+          const decimals = lookupDecimals(ctx, [0]);
+          return {
+            transferFeeBasisPoints,
+            maximumFee: decimals === undefined ? maximumFee.toString() : formatUnits(maximumFee, decimals),
+          };
+        },
+      },
+    },
+  },
+  27: {
+    name: 'ConfidentialTransferExtension',
+    instructions: {
+      0: opaqueLayout('InitializeMint'),
+      1: opaqueLayout('UpdateMint'),
+      2: opaqueLayout('ConfigureAccount'),
+      3: opaqueLayout('ApproveAccount'),
+      4: opaqueLayout('EmptyAccount'),
+      5: opaqueLayout('Deposit'),
+      6: opaqueLayout('Withdraw'),
+      7: opaqueLayout('Transfer'),
+      8: opaqueLayout('ApplyPendingBalance'),
+      9: opaqueLayout('EnableConfidentialCredits'),
+      10: opaqueLayout('DisableConfidentialCredits'),
+      11: opaqueLayout('EnableNonConfidentialCredits'),
+      12: opaqueLayout('DisableNonConfidentialCredits'),
+      13: opaqueLayout('TransferWithFee'),
+      14: opaqueLayout('ConfigureAccountWithRegistry'),
+    },
+  },
+  28: {
+    name: 'DefaultAccountStateExtension',
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({ state: accountStateName(r.u8()) }),
+      },
+      1: {
+        name: 'Update',
+        accounts: ['mint', 'freezeAuthority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => ({ state: accountStateName(r.u8()) }),
+      },
+    },
+  },
+  30: toggleExtension('MemoTransferExtension'),
+  33: {
+    name: 'InterestBearingMintExtension',
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({ rateAuthority: r.optionalNonZeroPubkey(), rate: r.i16() }),
+      },
+      1: {
+        name: 'UpdateRate',
+        accounts: ['mint', 'rateAuthority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => ({ rate: r.i16() }),
+      },
+    },
+  },
+  34: toggleExtension('CpiGuardExtension'),
+  36: {
+    name: 'TransferHookExtension',
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({
+          authority: r.optionalNonZeroPubkey(),
+          programId: r.optionalNonZeroPubkey(),
+        }),
+      },
+      1: {
+        name: 'Update',
+        accounts: ['mint', 'authority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => ({ programId: r.optionalNonZeroPubkey() }),
+      },
+    },
+  },
+  37: {
+    name: 'ConfidentialTransferFeeExtension',
+    instructions: {
+      0: opaqueLayout('InitializeConfidentialTransferFeeConfig'),
+      1: opaqueLayout('WithdrawWithheldTokensFromMint'),
+      2: opaqueLayout('WithdrawWithheldTokensFromAccounts'),
+      3: opaqueLayout('HarvestWithheldTokensToMint'),
+      4: opaqueLayout('EnableHarvestToMint'),
+      5: opaqueLayout('DisableHarvestToMint'),
+    },
+  },
+  39: pointerExtension('MetadataPointerExtension', 'metadataAddress'),
+  40: pointerExtension('GroupPointerExtension', 'groupAddress'),
+  41: pointerExtension('GroupMemberPointerExtension', 'memberAddress'),
+  42: {
+    name: 'ConfidentialMintBurnExtension',
+    instructions: {
+      0: opaqueLayout('InitializeMint'),
+      1: opaqueLayout('RotateSupplyElGamalPubkey'),
+      2: opaqueLayout('UpdateDecryptableSupply'),
+      3: opaqueLayout('Mint'),
+      4: opaqueLayout('Burn'),
+      5: opaqueLayout('ApplyPendingBurn'),
+    },
+  },
+  43: {
+    name: 'ScaledUiAmountExtension',
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({ authority: r.optionalNonZeroPubkey(), multiplier: r.f64() }),
+      },
+      1: {
+        name: 'UpdateMultiplier',
+        accounts: ['mint', 'authority'],
+        extraAccounts: 'multisigSigner',
+        decode: (r) => ({
+          multiplier: r.f64(),
+          effectiveTimestamp: r.i64().toString(),
+        }),
+      },
+    },
+  },
+  44: {
+    name: 'PausableExtension',
+    instructions: {
+      0: {
+        name: 'Initialize',
+        accounts: ['mint'],
+        decode: (r) => ({ authority: r.optionalNonZeroPubkey() }),
+      },
+      1: { name: 'Pause', accounts: ['mint', 'authority'], extraAccounts: 'multisigSigner' },
+      2: { name: 'Resume', accounts: ['mint', 'authority'], extraAccounts: 'multisigSigner' },
+    },
+  },
+};
+
+/**
+ * spl-token-metadata / spl-token-group 接口指令的 8 字节 discriminator
+ * discriminator = sha256("<namespace>:<name>")[..8]
+ */
+function interfaceDiscriminator(preimage: string): string {
+  return computeDiscriminator(preimage).toString('hex');
+}
+
+const TOKEN_METADATA_FIELDS = ['Name', 'Symbol', 'Uri'];
+
+/**
+ * Token-2022 mint 内置的 TokenMetadata / TokenGroup 接口指令
+ */
+const INTERFACE_EXTENSIONS: Array<{
+  extension: string;
+  discriminator: string;
+  layout: NativeInstructionLayout;
+}> = [
+  {
+    extension: 'TokenMetadata',
+    discriminator: interfaceDiscriminator('spl_token_metadata_interface:initialize_account'),
+    layout: {
+      name: 'Initialize',
+      accounts: ['metadata', 'updateAuthority', 'mint', 'mintAuthority'],
+      decode: (r) => ({
+        name: r.borshString(),
+        symbol: r.borshString(),
+        uri: r.borshString(),
+      }),
+    },
+  },
+  {
+    extension: 'TokenMetadata',
+    discriminator: interfaceDiscriminator('spl_token_metadata_interface:updating_field'),
+    layout: {
+      name: 'UpdateField',
+      accounts: ['metadata', 'updateAuthority'],
+      decode: (r) => {
+        const fieldTag = r.u8();
+        const field = fieldTag === 3 ? `Key(${r.borshString()})` : TOKEN_METADATA_FIELDS[fieldTag] ?? `Unknown(${fieldTag})`;
+        return { field, value: r.borshString() };
+      },
+    },
+  },
+  {
+    extension: 'TokenMetadata',
+    discriminator: interfaceDiscriminator('spl_token_metadata_interface:remove_key_ix'),
+    layout: {
+      name: 'RemoveKey',
+      accounts: ['metadata', 'updateAuthority'],
+      decode: (r) => ({ idempotent: r.bool(), key: r.borshString() }),
+    },
+  },
+  {
+    extension: 'TokenMetadata',
+    discriminator: interfaceDiscriminator('spl_token_metadata_interface:update_the_authority'),
+    layout: {
+      name: 'UpdateAuthority',
+      accounts: ['metadata', 'updateAuthority'],
+      decode: (r) => ({ newAuthority: r.optionalNonZeroPubkey() }),
+    },
+  },
+  {
+    extension: 'TokenMetadata',
+    discriminator: interfaceDiscriminator('spl_token_metadata_interface:emitter'),
+    layout: {
+      name: 'Emit',
+      accounts: ['metadata'],
+      decode: (r) => ({
+        start: r.option(() => r.u64().toString()),
+        end: r.option(() => r.u64().toString()),
+      }),
+    },
+  },
+  {
+    extension: 'TokenGroup',
+    discriminator: interfaceDiscriminator('spl_token_group_interface:initialize_token_group'),
+    layout: {
+      name: 'InitializeGroup',
+      accounts: ['group', 'mint', 'mintAuthority'],
+      decode: (r) => ({
+        updateAuthority: r.optionalNonZeroPubkey(),
+        maxSize: r.u64().toString(),
+      }),
+    },
+  },
+  {
+    extension: 'TokenGroup',
+    discriminator: interfaceDiscriminator('spl_token_group_interface:update_group_max_size'),
+    layout: {
+      name: 'UpdateGroupMaxSize',
+      accounts: ['group', 'updateAuthority'],
+      decode: (r) => ({ maxSize: r.u64().toString() }),
+    },
+  },
+  {
+    extension: 'TokenGroup',
+    discriminator: interfaceDiscriminator('spl_token_group_interface:update_authority'),
+    layout: {
+      name: 'UpdateGroupAuthority',
+      accounts: ['group', 'updateAuthority'],
+      decode: (r) => ({ newAuthority: r.optionalNonZeroPubkey() }),
+    },
+  },
+  {
+    extension: 'TokenGroup',
+    discriminator: interfaceDiscriminator('spl_token_group_interface:initialize_member'),
+    layout: {
+      name: 'InitializeMember',
+      accounts: ['member', 'memberMint', 'memberMintAuthority', 'group', 'groupUpdateAuthority'],
+    },
+  },
+];
+
+/**
+ * 将子指令解码结果包装为 "扩展 > 子指令" 形式
+ */
+function wrapExtensionResult(extension: string, result: NativeDecodeResult): NativeDecodeResult {
+  return {
+    ...result,
+    name: extension,
+    extensionName: result.name ?? undefined,
+  };
+}
+
+/**
+ * 解码 Token-2022 指令（含扩展指令与 TokenMetadata / TokenGroup 接口指令）
+ */
+export function decodeToken2022Instruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 1) {
+    return { name: null, data: null, decodeError: '指令数据为空' };
+  }
+
+  // 接口指令使用 8 字节 discriminator
+  if (data.length >= 8) {
+    const discriminatorHex = data.subarray(0, 8).toString('hex');
+    const matched = INTERFACE_EXTENSIONS.find((ext) => ext.discriminator === discriminatorHex);
+    if (matched) {
+      const reader = new BinaryReader(data, 8);
+      const result = decodeByTag(0, { 0: matched.layout }, reader, context, matched.extension);
+      return wrapExtensionResult(matched.extension, result);
+    }
+  }
+
+  const reader = new BinaryReader(data);
+  const tag = reader.u8();
+
+  const extension = TOKEN_2022_EXTENSIONS[tag];
+  if (extension) {
+    if (reader.remaining < 1) {
+      return { name: extension.name, data: null, decodeError: `数据长度不足，无法读取 ${extension.name} 子指令类型` };
+    }
+    const subTag = reader.u8();
+    const result = decodeByTag(subTag, extension.instructions, reader, context, extension.name);
+    return wrapExtensionResult(extension.name, result);
+  }
+
+  return decodeByTag(tag, TOKEN_2022_INSTRUCTIONS, reader, context, 'Token-2022');
+}
+
+/**
+ * Token-2022 自定义错误（在 TokenError 的基础上扩展）
+ */
+export const TOKEN_2022_ERRORS: Record<number, NativeProgramError> = {
+  ...TOKEN_ERRORS,
+  20: { name: 'ExtensionTypeMismatch', message: 'Extension type does not match already existing extensions' },
+  21: { name: 'ExtensionBaseMismatch', message: 'Extension does not match the base type provided' },
+  22: { name: 'ExtensionAlreadyInitialized', message: 'Extension already initialized on this account' },
+  23: { name: 'ConfidentialTransferAccountHasBalance', message: 'An account can only be closed if its confidential balance is zero' },
+  24: { name: 'ConfidentialTransferAccountNotApproved', message: 'Account not approved for confidential transfers' },
+  25: { name: 'ConfidentialTransferDepositsAndTransfersDisabled', message: 'Account not accepting deposits or transfers' },
+  26: { name: 'ConfidentialTransferElGamalPubkeyMismatch', message: 'ElGamal public key mismatch' },
+  27: { name: 'ConfidentialTransferBalanceMismatch', message: 'Balance mismatch' },
+  28: { name: 'MintHasSupply', message: 'Mint has non-zero supply. Burn all tokens before closing the mint' },
+  29: { name: 'NoAuthorityExists', message: 'No authority exists to perform the desired operation' },
+  30: { name: 'TransferFeeExceedsMaximum', message: 'Transfer fee exceeds maximum of 10,000 basis points' },
+  31: { name: 'MintRequiredForTransfer', message: 'Mint required for this account to transfer tokens, use `transfer_checked` or `transfer_checked_with_fee`' },
+  32: { name: 'FeeMismatch', message: 'Calculated fee does not match expected fee' },
+  33: { name: 'FeeParametersMismatch', message: 'Fee parameters associated with confidential transfer zero-knowledge proofs do not match fee parameters in mint' },
+  34: { name: 'ImmutableOwner', message: 'The owner authority cannot be changed' },
+  35: { name: 'AccountHasWithheldTransferFees', message: 'An account can only be closed if its withheld fee balance is zero, harvest fees to the mint and try again' },
+  36: { name: 'NoMemo', message: 'No memo in previous instruction; required for recipient to receive a transfer' },
+  37: { name: 'NonTransferable', message: 'Transfer is disabled for this mint' },
+  38: { name: 'NonTransferableNeedsImmutableOwnership', message: 'Non-transferable tokens can\'t be minted to an account without immutable ownership' },
+  39: { name: 'MaximumPendingBalanceCreditCounterExceeded', message: 'The total number of `Deposit` and `Transfer` instructions to an account cannot exceed the associated `maximum_pending_balance_credit_counter`' },
+  40: { name: 'MaximumDepositAmountExceeded', message: 'Deposit amount exceeds maximum limit' },
+  41: { name: 'CpiGuardSettingsLocked', message: 'CPI Guard cannot be enabled or disabled in CPI' },
+  42: { name: 'CpiGuardTransferBlocked', message: 'CPI Guard is enabled, and a program attempted to transfer user funds via CPI without using a delegate' },
+  43: { name: 'CpiGuardBurnBlocked', message: 'CPI Guard is enabled, and a program attempted to burn user funds via CPI without using a delegate' },
+  44: { name: 'CpiGuardCloseAccountBlocked', message: 'CPI Guard is enabled, and a program attempted to close an account via CPI without returning lamports to owner' },
+  45: { name: 'CpiGuardApproveBlocked', message: 'CPI Guard is enabled, and a program attempted to approve a delegate via CPI' },
+  46: { name: 'CpiGuardSetAuthorityBlocked', message: 'CPI Guard is enabled, and a program attempted to add or replace an authority via CPI' },
+  47: { name: 'CpiGuardOwnerChangeBlocked', message: 'Account ownership cannot be changed while CPI Guard is enabled' },
+  48: { name: 'ExtensionNotFound', message: 'Extension not found in account data' },
+  49: { name: 'NonConfidentialTransfersDisabled', message: 'Non-confidential transfers disabled' },
+  50: { name: 'ConfidentialTransferFeeAccountHasWithheldFee', message: 'An account can only be closed if the confidential withheld fee is zero' },
+  51: { name: 'InvalidExtensionCombination', message: 'A mint or an account is initialized to an invalid combination of extensions' },
+  52: { name: 'InvalidLengthForAlloc', message: 'Extension allocation with overwrite must use the same length' },
+  53: { name: 'AccountDecryption', message: 'Failed to decrypt a confidential transfer account' },
+  54: { name: 'ProofGeneration', message: 'Failed to generate proof' },
+  55: { name: 'InvalidProofInstructionOffset', message: 'An invalid proof instruction offset was provided' },
+  56: { name: 'HarvestToMintDisabled', message: 'Harvest of withheld tokens to mint is disabled' },
+  57: { name: 'SplitProofContextStateAccountsNotSupported', message: 'Split proof context state accounts not supported for instruction' },
+  58: { name: 'NotEnoughProofContextStateAccounts', message: 'Not enough proof context state accounts provided' },
+  59: { name: 'MalformedCiphertext', message: 'Ciphertext is malformed' },
+  60: { name: 'CiphertextArithmeticFailed', message: 'Ciphertext arithmetic failed' },
+  61: { name: 'PedersenCommitmentMismatch', message: 'Pedersen commitments did not match' },
+  62: { name: 'RangeProofLengthMismatch', message: 'Range proof length did not match' },
+  63: { name: 'IllegalBitLength', message: 'Illegal transfer amount bit length' },
+  64: { name: 'FeeCalculation', message: 'Fee calculation failed' },
+  65: { name: 'IllegalMintBurnConversion', message: 'Withdraw / Deposit not allowed for confidential-mint-burn' },
+  66: { name: 'InvalidScale', message: 'Invalid scale for scaled ui amount' },
+  67: { name: 'MintPaused', message: 'Transferring, minting, and burning is paused on this mint' },
+  68: { name: 'PendingBalanceNonZero', message: 'Key rotation attempted while pending balance is not zero' },
+};
+
+// 扩展账户中 AccountType 字节的位置（基础状态按 Token Account 长度对齐）
+const ACCOUNT_TYPE_OFFSET = TOKEN_ACCOUNT_SIZE;
+const ACCOUNT_TYPES = ['Uninitialized', 'Mint', 'TokenAccount'];
+
+function readTransferFee(r: BinaryReader): Record<string, unknown> {
+  return {
+    epoch: r.u64().toString(),
+    maximumFee: r.u64().toString(),
+    transferFeeBasisPoints: r.u16(),
+  };
+}
+
+/**
+ * OptionalNonZeroElGamalPubkey（32 字节，全 0 表示 None），以 hex 显示
+ */
+function readOptionalElGamalPubkey(r: BinaryReader): string | null {
+  const bytes = r.bytes(32);
+  return bytes.every((b) => b === 0) ? null : bytes.toString('hex');
+}
+
+/**
+ * 账户扩展（TLV value）的解码器，未列出的扩展只显示原始数据
+ */
+const EXTENSION_STATE_DECODERS: Record<string, (r: BinaryReader) => Record<string, unknown>> = {
+  TransferFeeConfig: (r) => ({
+    transferFeeConfigAuthority: r.optionalNonZeroPubkey(),
+    withdrawWithheldAuthority: r.optionalNonZeroPubkey(),
+    withheldAmount: r.u64().toString(),
+    olderTransferFee: readTransferFee(r),
+    newerTransferFee: readTransferFee(r),
+  }),
+  TransferFeeAmount: (r) => ({ withheldAmount: r.u64().toString() }),
+  MintCloseAuthority: (r) => ({ closeAuthority: r.optionalNonZeroPubkey() }),
+  ConfidentialTransferMint: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    autoApproveNewAccounts: r.bool(),
+    auditorElgamalPubkey: readOptionalElGamalPubkey(r),
+  }),
+  DefaultAccountState: (r) => ({ state: accountStateName(r.u8()) }),
+  ImmutableOwner: () => ({}),
+  MemoTransfer: (r) => ({ requireIncomingTransferMemos: r.bool() }),
+  NonTransferable: () => ({}),
+  InterestBearingConfig: (r) => ({
+    rateAuthority: r.optionalNonZeroPubkey(),
+    initializationTimestamp: r.i64().toString(),
+    preUpdateAverageRate: r.i16(),
+    lastUpdateTimestamp: r.i64().toString(),
+    currentRate: r.i16(),
+  }),
+  CpiGuard: (r) => ({ lockCpi: r.bool() }),
+  PermanentDelegate: (r) => ({ delegate: r.optionalNonZeroPubkey() }),
+  NonTransferableAccount: () => ({}),
+  TransferHook: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    programId: r.optionalNonZeroPubkey(),
+  }),
+  TransferHookAccount: (r) => ({ transferring: r.bool() }),
+  MetadataPointer: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    metadataAddress: r.optionalNonZeroPubkey(),
+  }),
+  TokenMetadata: (r) => {
+    const updateAuthority = r.optionalNonZeroPubkey();
+    const mint = r.pubkey();
+    const name = r.borshString();
+    const symbol = r.borshString();
+    const uri = r.borshString();
+    const count = r.u32();
+    // 每项至少两个 u32 长度前缀，先校验数量再分配
+    if (count * 8 > r.remaining) {
+      throw new Error(`additionalMetadata 数量 ${count} 超出剩余数据长度 (${r.remaining} 字节)`);
+    }
+    const additionalMetadata = Object.fromEntries(
+      Array.from({ length: count }, () => [r.borshString(), r.borshString()])
+    );
+    return { updateAuthority, mint, name, symbol, uri, additionalMetadata };
+  },
+  GroupPointer: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    groupAddress: r.optionalNonZeroPubkey(),
+  }),
+  TokenGroup: (r) => ({
+    updateAuthority: r.optionalNonZeroPubkey(),
+    mint: r.pubkey(),
+    size: r.u64().toString(),
+    maxSize: r.u64().toString(),
+  }),
+  GroupMemberPointer: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    memberAddress: r.optionalNonZeroPubkey(),
+  }),
+  TokenGroupMember: (r) => ({
+    mint: r.pubkey(),
+    group: r.pubkey(),
+    memberNumber: r.u64().toString(),
+  }),
+  ScaledUiAmount: (r) => ({
+    authority: r.optionalNonZeroPubkey(),
+    multiplier: r.f64(),
+    newMultiplierEffectiveTimestamp: r.i64().toString(),
+    newMultiplier: r.f64(),
+  }),
+  Pausable: (r) => ({ authority: r.optionalNonZeroPubkey(), paused: r.bool() }),
+  PausableAccount: () => ({}),
+};
+
+/**
+ * 解析 TLV 扩展区域：u16 类型 | u16 长度 | value
+ */
+function decodeExtensions(data: Buffer): Record<string, unknown> {
+  const extensions: Record<string, unknown> = {};
+  const reader = new BinaryReader(data);
+  while (reader.remaining >= 4) {
+    const type = reader.u16();
+    const length = reader.u16();
+    // 类型为 0 表示之后是未使用的空间
+    if (type === 0) break;
+    const value = reader.bytes(Math.min(length, reader.remaining));
+    const name = extensionTypeName(type);
+    const decoder = EXTENSION_STATE_DECODERS[name];
+    try {
+      extensions[name] = decoder ? decoder(new BinaryReader(value)) : { data: value.toString('hex') };
+    } catch (e) {
+      extensions[name] = {
+        data: value.toString('hex'),
+        decodeError: e instanceof Error ? e.message : String(e),
+      };
+    }
+  }
+  return extensions;
+}
+
+/**
+ * 解码 Token-2022 账户（基础状态 + TLV 扩展）
+ * 带扩展的账户：基础状态 | 填充至 165 字节 | u8 AccountType | TLV 扩展
+ */
+export function decodeToken2022AccountData(data: Buffer): NativeAccountDecodeResult | null {
+  if (data.length === MINT_SIZE) {
+    return { accountType: 'Mint', data: decodeTokenState(data, 'Mint') };
+  }
+  if (data.length === TOKEN_ACCOUNT_SIZE) {
+    return { accountType: 'TokenAccount', data: decodeTokenState(data, 'TokenAccount') };
+  }
+  if (data.length === MULTISIG_SIZE) {
+    return { accountType: 'Multisig', data: decodeTokenState(data, 'Multisig') };
+  }
+  if (data.length <= ACCOUNT_TYPE_OFFSET) return null;
+
+  const accountType = ACCOUNT_TYPES[data[ACCOUNT_TYPE_OFFSET]];
+  if (accountType !== 'Mint' && accountType !== 'TokenAccount') return null;
+
+  return {
+    accountType,
+    data: {
+      ...decodeTokenState(data, accountType),
+      extensions: decodeExtensions(data.subarray(ACCOUNT_TYPE_OFFSET + 1)),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { decodeTokenAccountData, decodeTokenInstruction, MINT_SIZE, TOKEN_ACCOUNT_SIZE } from './tokenProgramDecoder';
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed)).toBase58();
+const keyBytes = (seed: number) => Buffer.alloc(32, seed);
+
+const u64 = (value: bigint) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+
+// COption<T>：u32 标记 + 固定长度的值
+const coption = (value: Buffer | null, size: number) =>
+  Buffer.concat([Buffer.from([value ? 1 : 0, 0, 0, 0]), value ?? Buffer.alloc(size)]);
+
+const accounts = [key(1), key(2), key(3), key(4), key(5)];
+
+describe('decodeTokenInstruction', () => {
+  it('decodes Transfer and scales the amount with known decimals', () => {
+    const data = Buffer.concat([Buffer.from([3]), u64(1_234_500n)]);
+    expect(decodeTokenInstruction(data, { accounts: accounts.slice(0, 3) })).toEqual({
+      name: 'Transfer',
+      data: { rawAmount: '1234500' },
+      accountNames: ['source', 'destination', 'authority'],
+    });
+    const tokenDecimals = new Map([[accounts[0], 6]]);
+    expect(decodeTokenInstruction(data, { accounts: accounts.slice(0, 3), tokenDecimals }).data).toEqual({
+      amount: '1.2345',
+      rawAmount: '1234500',
+      decimals: 6,
+    });
+  });
+
+  it('names multisig signers after the fixed accounts', () => {
+    const data = Buffer.concat([Buffer.from([3]), u64(1n)]);
+    expect(decodeTokenInstruction(data, { accounts }).accountNames).toEqual([
+      'source', 'destination', 'authority', 'multisigSigner0', 'multisigSigner1',
+    ]);
+  });
+
+  it('decodes TransferChecked decimals from the data', () => {
+    const data = Buffer.concat([Buffer.from([12]), u64(250n), Buffer.from([2])]);
+    expect(decodeTokenInstruction(data, { accounts: accounts.slice(0, 4) })).toEqual({
+      name: 'TransferChecked',
+      data: { amount: '2.5', rawAmount: '250', decimals: 2 },
+      accountNames: ['source', 'mint', 'destination', 'authority'],
+    });
+  });
+
+  it('decodes SetAuthority with and without a new authority', () => {
+    const set = Buffer.concat([Buffer.from([6, 0, 1]), keyBytes(9)]);
+    expect(decodeTokenInstruction(set, { accounts: accounts.slice(0, 2) }).data).toEqual({
+      authorityType: 'MintTokens',
+      newAuthority: key(9),
+    });
+    const clear = Buffer.from([6, 3, 0]);
+    expect(decodeTokenInstruction(clear, { accounts: accounts.slice(0, 2) }).data).toEqual({
+      authorityType: 'CloseAccount',
+      newAuthority: null,
+    });
+  });
+
+  it('decodes InitializeMint with an optional freeze authority', () => {
+    const data = Buffer.concat([Buffer.from([0, 9]), keyBytes(7), Buffer.from([0])]);
+    expect(decodeTokenInstruction(data, { accounts: accounts.slice(0, 2) }).data).toEqual({
+      decimals: 9,
+      mintAuthority: key(7),
+      freezeAuthority: null,
+    });
+  });
+
+  it('reports unknown tags and truncated data', () => {
+    expect(decodeTokenInstruction(Buffer.from([200]), { accounts: [] }).decodeError).toContain('200');
+    expect(decodeTokenInstruction(Buffer.from([3, 1, 2]), { accounts: [] })).toMatchObject({
+      name: 'Transfer',
+      data: null,
+    });
+  });
+});
+
+describe('decodeTokenAccountData', () => {
+  it('decodes a Mint at the SPL layout offsets', () => {
+    const data = Buffer.concat([
+      coption(keyBytes(1), 32),
+      u64(5_000_000n),
+      Buffer.from([6, 1]),
+      coption(null, 32),
+    ]);
+    expect(data.length).toBe(MINT_SIZE);
+    expect(decodeTokenAccountData(data)).toEqual({
+      accountType: 'Mint',
+      data: {
+        mintAuthority: key(1),
+        supply: '5',
+        rawSupply: '5000000',
+        decimals: 6,
+        isInitialized: true,
+        freezeAuthority: null,
+      },
+    });
+  });
+
+  it('decodes a native token account at the SPL layout offsets', () => {
+    const data = Buffer.concat([
+      keyBytes(1),
+      keyBytes(2),
+      u64(42n),
+      coption(keyBytes(3), 32),
+      Buffer.from([2]),
+      coption(u64(2_039_280n), 8),
+      u64(10n),
+      coption(null, 32),
+    ]);
+    expect(data.length).toBe(TOKEN_ACCOUNT_SIZE);
+    expect(decodeTokenAccountData(data)).toEqual({
+      accountType: 'TokenAccount',
+      data: {
+        mint: key(1),
+        owner: key(2),
+        amount: '42',
+        delegate: key(3),
+        state: 'Frozen',
+        isNative: true,
+        rentExemptReserve: '2039280',
+        delegatedAmount: '10',
+        closeAuthority: null,
+      },
+    });
+  });
+
+  it('ignores data of other lengths', () => {
+    expect(decodeTokenAccountData(Buffer.alloc(100))).toBeNull();
+  });
+});
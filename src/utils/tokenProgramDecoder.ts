@@ -0,0 +1,383 @@
+import { BinaryReader, formatUnits } from './binaryReader';
+import { decodeByTag } from './nativeInstruction';
+import type {
+  NativeAccountDecodeResult,
+  NativeDecodeContext,
+  NativeDecodeResult,
+  NativeInstructionLayout,
+  NativeProgramError,
+} from './nativeInstruction';
+import type { TokenBalance } from '../types';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/**
+ * SetAuthority 的权限类型（Token-2022 在 Token 的基础上扩展）
+ */
+export const AUTHORITY_TYPES = [
+  'MintTokens',
+  'FreezeAccount',
+  'AccountOwner',
+  'CloseAccount',
+  'TransferFeeConfig',
+  'WithheldWithdraw',
+  'CloseMint',
+  'InterestRate',
+  'PermanentDelegate',
+  'ConfidentialTransferMint',
+  'TransferHookProgramId',
+  'ConfidentialTransferFeeConfig',
+  'MetadataPointer',
+  'GroupPointer',
+  'GroupMemberPointer',
+  'ScaledUiAmount',
+  'Pause',
+];
+
+/**
+ * 从交易的 token balances 中建立 mint / token account -> decimals 映射
+ */
+export function buildTokenDecimalsMap(
+  tokenBalances: TokenBalance[],
+  accountKeys: string[]
+): Map<string, number> {
+  const decimals = new Map<string, number>();
+  for (const tb of tokenBalances) {
+    decimals.set(tb.mint, tb.uiTokenAmount.decimals);
+    const tokenAccount = accountKeys[tb.accountIndex];
+    if (tokenAccount) {
+      decimals.set(tokenAccount, tb.uiTokenAmount.decimals);
+    }
+  }
+  return decimals;
+}
+
+/**
+ * 按账户位置依次查找 decimals
+ */
+export function lookupDecimals(context: NativeDecodeContext, positions: number[]): number | undefined {
+  if (!context.tokenDecimals) return undefined;
+  for (const position of positions) {
+    const address = context.accounts[position];
+    if (address && context.tokenDecimals.has(address)) {
+      return context.tokenDecimals.get(address);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 生成数量字段：已知 decimals 时按小数位缩放，否则只显示原始数量
+ */
+export function amountFields(raw: bigint, decimals: number | undefined): Record<string, unknown> {
+  if (decimals === undefined) {
+    return { rawAmount: raw.toString() };
+  }
+  return {
+    amount: formatUnits(raw, decimals),
+    rawAmount: raw.toString(),
+    decimals,
+  };
+}
+
+/**
+ * 读取 u64 数量，decimals 通过指定位置的账户查找
+ */
+function readAmount(
+  reader: BinaryReader,
+  context: NativeDecodeContext,
+  positions: number[]
+): Record<string, unknown> {
+  return amountFields(reader.u64(), lookupDecimals(context, positions));
+}
+
+/**
+ * 读取 u64 数量 + u8 decimals（*Checked 指令）
+ */
+function readCheckedAmount(reader: BinaryReader): Record<string, unknown> {
+  const raw = reader.u64();
+  const decimals = reader.u8();
+  return amountFields(raw, decimals);
+}
+
+const ACCOUNT_STATES = ['Uninitialized', 'Initialized', 'Frozen'];
+
+export function accountStateName(value: number): string {
+  return ACCOUNT_STATES[value] ?? `Unknown(${value})`;
+}
+
+function authorityTypeName(value: number): string {
+  return AUTHORITY_TYPES[value] ?? `Unknown(${value})`;
+}
+
+/**
+ * Token Program 指令布局（指令类型为 u8），Token-2022 复用 0-24
+ */
+export const TOKEN_INSTRUCTIONS: Record<number, NativeInstructionLayout> = {
+  0: {
+    name: 'InitializeMint',
+    accounts: ['mint', 'rentSysvar'],
+    decode: (r) => ({
+      decimals: r.u8(),
+      mintAuthority: r.pubkey(),
+      freezeAuthority: r.option(() => r.pubkey()),
+    }),
+  },
+  1: {
+    name: 'InitializeAccount',
+    accounts: ['account', 'mint', 'owner', 'rentSysvar'],
+  },
+  2: {
+    name: 'InitializeMultisig',
+    accounts: ['multisig', 'rentSysvar'],
+    extraAccounts: 'signer',
+    decode: (r) => ({ m: r.u8() }),
+  },
+  3: {
+    name: 'Transfer',
+    accounts: ['source', 'destination', 'authority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r, ctx) => readAmount(r, ctx, [0, 1]),
+  },
+  4: {
+    name: 'Approve',
+    accounts: ['source', 'delegate', 'owner'],
+    extraAccounts: 'multisigSigner',
+    decode: (r, ctx) => readAmount(r, ctx, [0]),
+  },
+  5: {
+    name: 'Revoke',
+    accounts: ['source', 'owner'],
+    extraAccounts: 'multisigSigner',
+  },
+  6: {
+    name: 'SetAuthority',
+    accounts: ['account', 'currentAuthority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => ({
+      authorityType: authorityTypeName(r.u8()),
+      newAuthority: r.option(() => r.pubkey()),
+    }),
+  },
+  7: {
+    name: 'MintTo',
+    accounts: ['mint', 'account', 'mintAuthority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r, ctx) => readAmount(r, ctx, [0, 1]),
+  },
+  8: {
+    name: 'Burn',
+    accounts: ['account', 'mint', 'authority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r, ctx) => readAmount(r, ctx, [1, 0]),
+  },
+  9: {
+    name: 'CloseAccount',
+    accounts: ['account', 'destination', 'authority'],
+    extraAccounts: 'multisigSigner',
+  },
+  10: {
+    name: 'FreezeAccount',
+    accounts: ['account', 'mint', 'freezeAuthority'],
+    extraAccounts: 'multisigSigner',
+  },
+  11: {
+    name: 'ThawAccount',
+    accounts: ['account', 'mint', 'freezeAuthority'],
+    extraAccounts: 'multisigSigner',
+  },
+  12: {
+    name: 'TransferChecked',
+    accounts: ['source', 'mint', 'destination', 'authority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => readCheckedAmount(r),
+  },
+  13: {
+    name: 'ApproveChecked',
+    accounts: ['source', 'mint', 'delegate', 'owner'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => readCheckedAmount(r),
+  },
+  14: {
+    name: 'MintToChecked',
+    accounts: ['mint', 'account', 'mintAuthority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => readCheckedAmount(r),
+  },
+  15: {
+    name: 'BurnChecked',
+    accounts: ['account', 'mint', 'authority'],
+    extraAccounts: 'multisigSigner',
+    decode: (r) => readCheckedAmount(r),
+  },
+  16: {
+    name: 'InitializeAccount2',
+    accounts: ['account', 'mint', 'rentSysvar'],
+    decode: (r) => ({ owner: r.pubkey() }),
+  },
+  17: {
+    name: 'SyncNative',
+    accounts: ['account'],
+  },
+  18: {
+    name: 'InitializeAccount3',
+    accounts: ['account', 'mint'],
+    decode: (r) => ({ owner: r.pubkey() }),
+  },
+  19: {
+    name: 'InitializeMultisig2',
+    accounts: ['multisig'],
+    extraAccounts: 'signer',
+    decode: (r) => ({ m: r.u8() }),
+  },
+  20: {
+    name: 'InitializeMint2',
+    accounts: ['mint'],
+    decode: (r) => ({
+      decimals: r.u8(),
+      mintAuthority: r.pubkey(),
+      freezeAuthority: r.option(() => r.pubkey()),
+    }),
+  },
+  21: {
+    name: 'GetAccountDataSize',
+    accounts: ['mint'],
+    decode: (r) => {
+      // Token-2022 在此附带扩展类型列表（u16 数组）
+      const extensionTypes: number[] = [];
+      while (r.remaining >= 2) {
+        extensionTypes.push(r.u16());
+      }
+      return extensionTypes.length > 0 ? { extensionTypes } : {};
+    },
+  },
+  22: {
+    name: 'InitializeImmutableOwner',
+    accounts: ['account'],
+  },
+  23: {
+    name: 'AmountToUiAmount',
+    accounts: ['mint'],
+    decode: (r, ctx) => readAmount(r, ctx, [0]),
+  },
+  24: {
+    name: 'UiAmountToAmount',
+    accounts: ['mint'],
+    decode: (r) => ({ uiAmount: r.rest().toString('utf8') }),
+  },
+};
+
+/**
+ * 解码 Token Program 指令
+ */
+export function decodeTokenInstruction(
+  data: Buffer,
+  context: NativeDecodeContext
+): NativeDecodeResult {
+  if (data.length < 1) {
+    return { name: null, data: null, decodeError: '指令数据为空' };
+  }
+  const reader = new BinaryReader(data);
+  const tag = reader.u8();
+  return decodeByTag(tag, TOKEN_INSTRUCTIONS, reader, context, 'Token Program');
+}
+
+/**
+ * Token Program 自定义错误（TokenError 枚举）
+ */
+export const TOKEN_ERRORS: Record<number, NativeProgramError> = {
+  0: { name: 'NotRentExempt', message: 'Lamport balance below rent-exempt threshold' },
+  1: { name: 'InsufficientFunds', message: 'Insufficient funds' },
+  2: { name: 'InvalidMint', message: 'Invalid Mint' },
+  3: { name: 'MintMismatch', message: 'Account not associated with this Mint' },
+  4: { name: 'OwnerMismatch', message: 'Owner does not match' },
+  5: { name: 'FixedSupply', message: 'Fixed supply' },
+  6: { name: 'AlreadyInUse', message: 'Already in use' },
+  7: { name: 'InvalidNumberOfProvidedSigners', message: 'Invalid number of provided signers' },
+  8: { name: 'InvalidNumberOfRequiredSigners', message: 'Invalid number of required signers' },
+  9: { name: 'UninitializedState', message: 'State is uninitialized' },
+  10: { name: 'NativeNotSupported', message: 'Instruction does not support native tokens' },
+  11: { name: 'NonNativeHasBalance', message: 'Non-native account can only be closed if its balance is zero' },
+  12: { name: 'InvalidInstruction', message: 'Invalid instruction' },
+  13: { name: 'InvalidState', message: 'State is invalid for requested operation' },
+  14: { name: 'Overflow', message: 'Operation overflowed' },
+  15: { name: 'AuthorityTypeNotSupported', message: 'Account does not support specified authority type' },
+  16: { name: 'MintCannotFreeze', message: 'This token mint cannot freeze accounts' },
+  17: { name: 'AccountFrozen', message: 'Account is frozen' },
+  18: { name: 'MintDecimalsMismatch', message: 'The provided decimals value different from the Mint decimals' },
+  19: { name: 'NonNativeNotSupported', message: 'Instruction does not support non-native tokens' },
+};
+
+// 账户数据长度
+export const MINT_SIZE = 82;
+export const TOKEN_ACCOUNT_SIZE = 165;
+export const MULTISIG_SIZE = 355;
+
+/**
+ * 解码 Mint / Token Account / Multisig 的基础状态（不含 Token-2022 扩展）
+ * @param kind - 账户类型，按数据长度判断
+ */
+export function decodeTokenState(
+  data: Buffer,
+  kind: 'Mint' | 'TokenAccount' | 'Multisig'
+): Record<string, unknown> {
+  const r = new BinaryReader(data);
+  switch (kind) {
+    case 'Mint': {
+      const mintAuthority = r.coption(() => r.pubkey());
+      const supply = r.u64();
+      const decimals = r.u8();
+      return {
+        mintAuthority,
+        supply: formatUnits(supply, decimals),
+        rawSupply: supply.toString(),
+        decimals,
+        isInitialized: r.bool(),
+        freezeAuthority: r.coption(() => r.pubkey()),
+      };
+    }
+    case 'TokenAccount': {
+      const mint = r.pubkey();
+      const owner = r.pubkey();
+      const amount = r.u64().toString();
+      const delegate = r.coption(() => r.pubkey());
+      const state = accountStateName(r.u8());
+      const isNative = r.coption(() => r.u64());
+      return {
+        mint,
+        owner,
+        amount,
+        delegate,
+        state,
+        // 原生 SOL 账户记录租金豁免的 lamports
+        isNative: isNative !== null,
+        rentExemptReserve: isNative?.toString() ?? null,
+        delegatedAmount: r.u64().toString(),
+        closeAuthority: r.coption(() => r.pubkey()),
+      };
+    }
+    case 'Multisig': {
+      const m = r.u8();
+      const n = r.u8();
+      const isInitialized = r.bool();
+      const signers = Array.from({ length: 11 }, () => r.pubkey()).slice(0, n);
+      return { m, n, isInitialized, signers };
+    }
+  }
+}
+
+/**
+ * 解码 Token Program 账户（按数据长度区分 Mint / Token Account / Multisig）
+ */
+export function decodeTokenAccountData(data: Buffer): NativeAccountDecodeResult | null {
+  switch (data.length) {
+    case MINT_SIZE:
+      return { accountType: 'Mint', data: decodeTokenState(data, 'Mint') };
+    case TOKEN_ACCOUNT_SIZE:
+      return { accountType: 'TokenAccount', data: decodeTokenState(data, 'TokenAccount') };
+    case MULTISIG_SIZE:
+      return { accountType: 'Multisig', data: decodeTokenState(data, 'Multisig') };
+    default:
+      return null;
+  }
+}
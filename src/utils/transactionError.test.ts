@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Idl } from '@coral-xyz/anchor';
+import { decodeTransactionError } from './transactionError';
+import { TOKEN_PROGRAM_ID } from './tokenProgramDecoder';
+import type { DecodedInstruction, IdlConfig } from '../types';
+
+const DEX = 'Dex1111111111111111111111111111111111111111';
+
+const instruction = (programId: string): DecodedInstruction => ({ programId, name: null, data: null, accounts: [] });
+
+const dexConfig: IdlConfig = {
+  id: 'dex',
+  name: 'dex',
+  idl: {
+    address: DEX,
+    metadata: { name: 'dex', version: '0.1.0', spec: '0.1.0' },
+    instructions: [],
+    errors: [{ code: 6000, name: 'SlippageExceeded', msg: 'Slippage exceeded' }],
+  } as Idl,
+  originalVersion: 'modern',
+  programIds: [DEX],
+};
+
+describe('decodeTransactionError', () => {
+  it('returns null for successful transactions', () => {
+    expect(decodeTransactionError(null, [], [], [])).toBeNull();
+  });
+
+  it('reports transaction-level errors as runtime errors', () => {
+    expect(decodeTransactionError('BlockhashNotFound', [], [], [])).toMatchObject({
+      instructionIndex: null,
+      name: 'BlockhashNotFound',
+      source: 'runtime',
+    });
+  });
+
+  it('resolves custom errors from the program IDL', () => {
+    const result = decodeTransactionError(
+      { InstructionError: [0, { Custom: 6000 }] },
+      [instruction(DEX)],
+      [],
+      [dexConfig]
+    );
+    expect(result).toMatchObject({
+      instructionIndex: 0,
+      programId: DEX,
+      code: 6000,
+      name: 'SlippageExceeded',
+      message: 'Slippage exceeded',
+      source: 'idl',
+    });
+  });
+
+  it('attributes the error to the deepest failed CPI from the logs', () => {
+    const logs = [
+      `Program ${DEX} invoke [1]`,
+      `Program ${TOKEN_PROGRAM_ID} invoke [2]`,
+      `Program ${TOKEN_PROGRAM_ID} failed: custom program error: 0x1`,
+      `Program ${DEX} failed: custom program error: 0x1`,
+    ];
+    const result = decodeTransactionError({ InstructionError: [0, { Custom: 1 }] }, [instruction(DEX)], logs, [dexConfig]);
+    expect(result).toMatchObject({
+      programId: TOKEN_PROGRAM_ID,
+      innerIndex: 0,
+      name: 'InsufficientFunds',
+      source: 'native',
+    });
+  });
+
+  it('falls back to Anchor framework errors and then to the raw code', () => {
+    expect(
+      decodeTransactionError({ InstructionError: [0, { Custom: 2003 }] }, [instruction(DEX)], [], [])
+    ).toMatchObject({ name: 'ConstraintRaw', source: 'anchor' });
+
+    expect(
+      decodeTransactionError({ InstructionError: [0, { Custom: 7000 }] }, [instruction(DEX)], [], [])
+    ).toMatchObject({ name: 'Custom(7000)', message: '未知的自定义错误 0x1b58', source: 'unknown' });
+  });
+
+  it('keeps runtime instruction error details', () => {
+    expect(
+      decodeTransactionError({ InstructionError: [1, { BorshIoError: 'Unknown' }] }, [], [], [])
+    ).toMatchObject({ instructionIndex: 1, name: 'BorshIoError', message: 'Unknown', source: 'runtime' });
+  });
+});
@@ -0,0 +1,158 @@
+import { LangErrorCode, LangErrorMessage } from '@coral-xyz/anchor';
+import type { DecodedInstruction, DecodedTransactionError, IdlConfig } from '../types';
+import { findIdlByProgramId } from './instructionDecoder';
+import { parseInvocationsFromLogs } from './logParser';
+import type { LogInvocation } from './logParser';
+import type { NativeProgramError } from './nativeInstruction';
+import { SYSTEM_PROGRAM_ID, SYSTEM_ERRORS } from './systemProgramDecoder';
+import { TOKEN_PROGRAM_ID, TOKEN_ERRORS } from './tokenProgramDecoder';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_2022_ERRORS } from './token2022Decoder';
+
+/**
+ * 原生程序的自定义错误表：programId -> code -> 错误
+ */
+const NATIVE_ERRORS: Record<string, Record<number, NativeProgramError>> = {
+  [SYSTEM_PROGRAM_ID]: SYSTEM_ERRORS,
+  [TOKEN_PROGRAM_ID]: TOKEN_ERRORS,
+  [TOKEN_2022_PROGRAM_ID]: TOKEN_2022_ERRORS,
+};
+
+// Anchor 框架错误：code -> 名称
+const ANCHOR_ERROR_NAMES = new Map<number, string>(
+  Object.entries(LangErrorCode).map(([name, code]) => [code, name])
+);
+
+// Anchor 程序失败时输出的错误日志
+const ANCHOR_ERROR_LOG_REGEX =
+  /AnchorError .*Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+
+/**
+ * 解析 Custom(code) 对应的错误名称
+ * 优先级：程序 IDL errors -> 原生程序错误表 -> Anchor 框架错误 -> 日志中的 AnchorError
+ */
+function resolveCustomError(
+  code: number,
+  programId: string | null,
+  logs: string[],
+  idlConfigs: IdlConfig[],
+  slot?: number
+): Pick<DecodedTransactionError, 'name' | 'message' | 'source'> | null {
+  if (programId) {
+    const idlError = findIdlByProgramId(programId, idlConfigs, slot)?.idl.errors?.find(
+      (e) => e.code === code
+    );
+    if (idlError) {
+      return { name: idlError.name, message: idlError.msg ?? null, source: 'idl' };
+    }
+
+    const nativeError = NATIVE_ERRORS[programId]?.[code];
+    if (nativeError) {
+      return { name: nativeError.name, message: nativeError.message, source: 'native' };
+    }
+  }
+
+  const anchorName = ANCHOR_ERROR_NAMES.get(code);
+  if (anchorName && !(programId && NATIVE_ERRORS[programId])) {
+    return { name: anchorName, message: LangErrorMessage.get(code) ?? null, source: 'anchor' };
+  }
+
+  // 未配置 IDL 时，Anchor 程序会在日志中输出错误名称
+  for (const log of logs) {
+    const match = log.match(ANCHOR_ERROR_LOG_REGEX);
+    if (match && Number(match[2]) === code) {
+      return { name: match[1], message: match[3], source: 'anchor' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 将错误枚举值（字符串或单键对象）拆分为名称与附加信息
+ */
+function splitErrorVariant(value: unknown): { name: string; detail: unknown } {
+  if (typeof value === 'string') {
+    return { name: value, detail: undefined };
+  }
+  if (value && typeof value === 'object') {
+    const [name, detail] = Object.entries(value)[0] ?? ['UnknownError', undefined];
+    return { name, detail };
+  }
+  return { name: String(value), detail: undefined };
+}
+
+/**
+ * 解码交易错误（meta.err）
+ * InstructionError: [指令索引, Custom(code) | 运行时错误] 会结合 IDL / 原生程序错误表解析，
+ * 并根据日志中失败链最深的调用定位实际抛出错误的程序（可能是 CPI 内部指令）
+ * @param slot - 交易所在 slot（用于选择 IDL 历史版本）
+ */
+export function decodeTransactionError(
+  err: unknown,
+  instructions: DecodedInstruction[],
+  logs: string[],
+  idlConfigs: IdlConfig[],
+  slot?: number
+): DecodedTransactionError | null {
+  if (err === null || err === undefined) return null;
+
+  const raw = JSON.stringify(err);
+  const { name: variant, detail } = splitErrorVariant(err);
+
+  // 交易级错误（如 InsufficientFundsForFee、BlockhashNotFound）
+  if (variant !== 'InstructionError' || !Array.isArray(detail)) {
+    return {
+      raw,
+      instructionIndex: null,
+      innerIndex: null,
+      programId: null,
+      code: null,
+      name: variant,
+      message: detail !== undefined ? JSON.stringify(detail) : null,
+      source: 'runtime',
+    };
+  }
+
+  const instructionIndex = Number(detail[0]);
+  const instructionError = splitErrorVariant(detail[1]);
+
+  // 失败链中最深的调用即错误源头（外层调用随后依次失败）
+  const failedInvocation = parseInvocationsFromLogs(logs)
+    .filter((invocation) => invocation.instructionIndex === instructionIndex && invocation.success === false)
+    .reduce<LogInvocation | undefined>(
+      (deepest, invocation) => (!deepest || invocation.depth > deepest.depth ? invocation : deepest),
+      undefined
+    );
+  const programId = failedInvocation?.programId ?? instructions[instructionIndex]?.programId ?? null;
+  const innerIndex = failedInvocation?.innerIndex ?? null;
+
+  const base = { raw, instructionIndex, innerIndex, programId };
+
+  if (instructionError.name === 'Custom' && typeof instructionError.detail === 'number') {
+    const code = instructionError.detail;
+    const resolved = resolveCustomError(code, programId, logs, idlConfigs, slot);
+    return {
+      ...base,
+      code,
+      ...(resolved ?? {
+        name: `Custom(${code})`,
+        message: `未知的自定义错误 0x${code.toString(16)}`,
+        source: 'unknown' as const,
+      }),
+    };
+  }
+
+  // 运行时错误（如 InvalidAccountData、BorshIoError("...")）
+  return {
+    ...base,
+    code: null,
+    name: instructionError.name,
+    message:
+      instructionError.detail !== undefined
+        ? typeof instructionError.detail === 'string'
+          ? instructionError.detail
+          : JSON.stringify(instructionError.detail)
+        : failedInvocation?.error ?? null,
+    source: 'runtime',
+  };
+}